@@ -1,23 +1,71 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Database, Play, RefreshCw, Plus, Wand2, Terminal, Activity, Search, HelpCircle, ArrowDown } from 'lucide-react';
-import { PageCard } from './components/PageCard';
+import { Database, Play, RefreshCw, Plus, Trash2, Pencil, Wand2, Terminal, Activity, Search, HelpCircle, ArrowDown, Microscope, HardDrive, ScrollText, Users, Inbox, Hash, History, Archive, BarChart3, ShieldCheck, ListChecks, Filter, ArrowUpDown } from 'lucide-react';
+import { IndexTree } from './components/IndexTree';
 import { TutorialModal } from './components/TutorialModal';
-import { EngineState, SimulationStep } from './types';
-import { initializeEngine, insertRecord, resetEngine, generateRandomData, simulateSelectQuery } from './services/innodb';
+import { SqlConsole } from './components/SqlConsole';
+import { BufferPoolPanel } from './components/BufferPoolPanel';
+import { RedoLogPanel } from './components/RedoLogPanel';
+import { ChangeBufferPanel } from './components/ChangeBufferPanel';
+import { AdaptiveHashPanel } from './components/AdaptiveHashPanel';
+import { TransactionsPanel } from './components/TransactionsPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { SnapshotPanel } from './components/SnapshotPanel';
+import { IndexStatsPanel } from './components/IndexStatsPanel';
+import { CheckTablePanel } from './components/CheckTablePanel';
+import { ScenarioPanel } from './components/ScenarioPanel';
+import { EngineState, HistoryState, SnapshotStatus, ScenarioRun, SimulationStep, PageData, FaultKind, RangeQuery, RowValues, SplitStrategy, PRIMARY_INDEX, PAGE_SIZE_OPTIONS, SNAPSHOT_HASH_PREFIX } from './types';
+import { initializeEngine, insertRecord, deleteRecord, updateRecord, resetEngine, generateRandomData, generateSequentialData, simulateSelectQuery, simulateRangeQuery, getTreeHeight, setBufferPoolSize, makeCheckpoint, simulateCrashRecovery, beginTransaction, commitTransaction, rollbackTransaction, setIsolationLevel, addSession, timeoutLockWait, mergeChangeBuffer, setAdaptiveHashIndex, setOptimizerSwitch, simulateTornWrite, setDoublewrite, loadSnapshot, getIndexStats, checkTable, injectFault } from './services/innodb';
 import { analyzeEngineState } from './services/gemini';
+import { executeSql } from './services/sql';
+import { serializeSnapshot, parseSnapshot, encodeSnapshotHash, decodeSnapshotHash, isAutosaveEnabled, setAutosaveEnabled, saveAutosave, loadAutosave } from './services/snapshot';
+import { createHistory, recordHistory, jumpToHistory, canRedo, diffPages } from './services/history';
+import { parseScenario, startScenario, runScenarioStep, isScenarioDone } from './services/scenario';
+import { BUNDLED_SCENARIOS } from './scenarios';
 
 const App: React.FC = () => {
-  const [engine, setEngine] = useState<EngineState>(initializeEngine());
+  // The last session comes back from the autosave, if there is a valid one
+  const [engine, setEngine] = useState<EngineState>(() => {
+    const saved = isAutosaveEnabled() ? loadAutosave() : null;
+    return saved?.ok ? loadSnapshot(saved.state, 'the last session', saved.savedAt) : initializeEngine();
+  });
   const [inputId, setInputId] = useState<string>('');
-  const [inputValue, setInputValue] = useState<string>('');
+  const [inputValues, setInputValues] = useState<Record<string, string>>({}); // Column name -> raw input
   const [isAutoInserting, setIsAutoInserting] = useState(false);
+  const [isSequentialAuto, setIsSequentialAuto] = useState(false); // Auto-increment ids instead of random ones
   const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [showTutorial, setShowTutorial] = useState(false);
+  const [showInternals, setShowInternals] = useState(false); // Expand every page to its record list / heap / directory
+  const [showBufferPool, setShowBufferPool] = useState(false); // LRU / flush list panel, pages outside the pool dimmed
+  const [showRedoLog, setShowRedoLog] = useState(false);
+  const [showChangeBuffer, setShowChangeBuffer] = useState(false); // Buffered secondary index changes and merges
+  const [showAdaptiveHash, setShowAdaptiveHash] = useState(false); // Hash entries and hash / non-hash search counters
+  const [showTransactions, setShowTransactions] = useState(false); // Sessions, read views and undo log; hidden columns on clustered records
+  const [activeSessionId, setActiveSessionId] = useState(1); // Session the SQL console, query bar and row buttons act in
+  const [recoveryPages, setRecoveryPages] = useState<PageData[] | null>(null); // Pages as rebuilt so far by a crash recovery replay
+  const [history, setHistory] = useState<HistoryState>(() => createHistory(engine)); // Every operation's resulting state, for undo / redo
+  const [showHistory, setShowHistory] = useState(false); // Timeline panel; the trees highlight what changed
+  const [pinnedHistoryId, setPinnedHistoryId] = useState<number | null>(null); // Entry diffed against instead of the previous one
+  const [isReplaying, setIsReplaying] = useState(false); // Stepping forward through the timeline
+  const [showSnapshots, setShowSnapshots] = useState(false); // Export / import / link / autosave panel
+  const [showStats, setShowStats] = useState(false); // Fill, height, splits / merges and page order per index
+  const [showCheck, setShowCheck] = useState(false); // CHECK TABLE after every change; the trees mark the broken pages
+  const [showScenario, setShowScenario] = useState(false); // Lesson scripts played step by step with their assertions
+  const [scenarioScript, setScenarioScript] = useState(() => BUNDLED_SCENARIOS[0]?.script ?? '');
+  const [scenarioRun, setScenarioRun] = useState<ScenarioRun | null>(null);
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
+  const [isScenarioPlaying, setIsScenarioPlaying] = useState(false);
+  const [autosave, setAutosave] = useState(isAutosaveEnabled);
+  const [snapshotStatus, setSnapshotStatus] = useState<SnapshotStatus | null>(null);
   
   // Query Sim State
   const [queryId, setQueryId] = useState('');
-  const [queryName, setQueryName] = useState('');
+  const [queryIndex, setQueryIndex] = useState('');
+  const [queryKey, setQueryKey] = useState<Record<string, string>>({}); // Key column -> raw input
+  const [rangeFrom, setRangeFrom] = useState('');
+  const [rangeTo, setRangeTo] = useState('');
+  const [likeColumn, setLikeColumn] = useState('');
+  const [likePrefix, setLikePrefix] = useState('');
   const [simSteps, setSimSteps] = useState<SimulationStep[]>([]);
   const [currentStepIndex, setCurrentStepIndex] = useState(-1);
   const [simMessage, setSimMessage] = useState('');
@@ -36,12 +84,16 @@ const App: React.FC = () => {
     let interval: ReturnType<typeof setInterval>;
     if (isAutoInserting) {
       interval = setInterval(() => {
-        const { id, val } = generateRandomData();
-        handleInsert(id, val);
+        // The row depends on the latest state (next id, current schema), so build it inside the updater
+        setSimSteps([]);
+        setEngine(prev => {
+          const { id, values } = isSequentialAuto ? generateSequentialData(prev) : generateRandomData(prev.schema);
+          return insertRecord(prev, id, values);
+        });
       }, 1500);
     }
     return () => clearInterval(interval);
-  }, [isAutoInserting, engine.pageCounter]); 
+  }, [isAutoInserting, isSequentialAuto, engine.pageCounter]); 
 
   // Simulation Player Effect
   useEffect(() => {
@@ -62,7 +114,7 @@ const App: React.FC = () => {
              setTimeout(() => {
                setEngine(prev => ({
                  ...prev,
-                 pages: prev.pages.map(p => ({...p, isHighlighted: false, records: p.records.map(r => ({...r, isHighlighted: false}))}))
+                 pages: prev.pages.map(p => ({...p, isHighlighted: false, highlightedSlot: undefined, records: p.records.map(r => ({...r, isHighlighted: false}))}))
                }));
                setSimMessage('');
              }, 2000);
@@ -73,8 +125,70 @@ const App: React.FC = () => {
     }
   }, [currentStepIndex, simSteps]);
 
+  // Every operation lands on the timeline; animation steps and time travel itself don't
+  useEffect(() => {
+    setHistory(prev => recordHistory(prev, engine));
+  }, [engine]);
+
+  // Autosave a moment after the engine settles, not on every animation step
+  useEffect(() => {
+    if (!autosave) return;
+    const timer = setTimeout(() => {
+      const error = saveAutosave(engine);
+      if (error) setSnapshotStatus({ type: 'error', message: error });
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [engine, autosave]);
+
+  // A shared link opens in the state it carries; the hash is removed so a refresh keeps later changes
+  useEffect(() => {
+    const { hash, pathname, search } = window.location;
+    if (!hash.startsWith(SNAPSHOT_HASH_PREFIX)) return;
+    window.history.replaceState(null, '', pathname + search);
+    decodeSnapshotHash(hash).then(result => {
+      if (result.ok === false) {
+        setSnapshotStatus({ type: 'error', message: result.error });
+        setShowSnapshots(true);
+        return;
+      }
+      setEngine(loadSnapshot(result.state, 'a link', result.savedAt));
+    });
+  }, []);
+
+  // Replay: one operation forward at a time, slow enough to follow a split
+  useEffect(() => {
+    if (!isReplaying) return;
+    if (!canRedo(history)) {
+      setIsReplaying(false);
+      return;
+    }
+    const timer = setTimeout(() => travelTo(history.index + 1), 1500);
+    return () => clearTimeout(timer);
+  }, [isReplaying, history]);
+
+  // Scenario playback: the next step once the previous statement's animation is over
+  useEffect(() => {
+    if (!isScenarioPlaying || simSteps.length > 0) return;
+    if (scenarioRun && isScenarioDone(scenarioRun)) {
+      setIsScenarioPlaying(false);
+      return;
+    }
+    const timer = setTimeout(handleScenarioStep, 1000);
+    return () => clearTimeout(timer);
+  }, [isScenarioPlaying, scenarioRun, simSteps]);
+
+  // A recovery replay shows its own pages only while it plays
+  useEffect(() => {
+    if (simSteps.length === 0) setRecoveryPages(null);
+  }, [simSteps]);
+
   const applySimulationStep = (step: SimulationStep) => {
     setSimMessage(step.message);
+
+    if (step.pages) {
+      setRecoveryPages(step.pages.map(p => ({ ...p, isHighlighted: p.id === step.targetPageId })));
+      return;
+    }
     
     setEngine(prev => {
         const newPages = prev.pages.map(p => {
@@ -85,48 +199,261 @@ const App: React.FC = () => {
                 ...r,
                 isHighlighted: isTargetPage && step.targetRecordId === r.id
             }));
-            return { ...p, isHighlighted: isTargetPage, records };
+            // Directory slot probed by a binary search step
+            const highlightedSlot = isTargetPage ? step.targetSlot : undefined;
+            return { ...p, isHighlighted: isTargetPage, highlightedSlot, records };
         });
         return { ...prev, pages: newPages };
     });
   };
 
-  const handleInsert = (id: number, val: string) => {
-    if (isNaN(id) || !val) return;
+  // Typed column values from the header inputs; empty inputs are left out
+  const getInputRow = (): RowValues => {
+    const values: RowValues = {};
+    engine.schema.columns.forEach(column => {
+      const raw = inputValues[column.name]?.trim();
+      if (!raw) return;
+      if (column.type === 'VARCHAR') values[column.name] = raw;
+      else if (!isNaN(Number(raw))) values[column.name] = Number(raw);
+    });
+    return values;
+  };
+
+  const clearInputs = () => {
+    setInputId('');
+    setInputValues({});
+  };
+
+  // A reset or CREATE TABLE closes the extra sessions: fall back to the first one
+  const sessionId = engine.sessions.some(s => s.id === activeSessionId) ? activeSessionId : engine.sessions[0].id;
+
+  const handleInsert = (id: number, values: RowValues) => {
+    if (isNaN(id)) return;
     // Stop sim if running
     setSimSteps([]); 
-    setEngine(prev => insertRecord(prev, id, val));
+    setEngine(prev => insertRecord(prev, id, values, sessionId));
+  };
+
+  const handleDelete = () => {
+    const id = parseInt(inputId);
+    if (isNaN(id)) return;
+    setSimSteps([]);
+    setEngine(prev => deleteRecord(prev, id, sessionId));
+    setInputId('');
+  };
+
+  // UPDATE ... SET col = ?, ... WHERE id = ? with every filled-in column, animated like a query
+  const handleUpdate = () => {
+    const id = parseInt(inputId);
+    const values = getInputRow();
+    if (isNaN(id) || Object.keys(values).length === 0) return;
+    const result = updateRecord(engine, id, { values }, sessionId);
+    setEngine(result.state);
+    setSimSteps(result.steps);
+    setCurrentStepIndex(0);
+    clearInputs();
   };
 
   const handleManualInsert = (e: React.FormEvent) => {
     e.preventDefault();
-    handleInsert(parseInt(inputId), inputValue || 'User Data');
-    setInputId('');
-    setInputValue('');
+    handleInsert(parseInt(inputId), getInputRow());
+    clearInputs();
   };
 
-  const runQuery = (type: 'BY_ID' | 'BY_NAME' | 'BY_NAME_COVERING') => {
+  // The index picked in the query bar (falls back to the first one if it was dropped)
+  const lookupIndex = engine.schema.indexes.find(index => index.name === queryIndex) ?? engine.schema.indexes[0];
+  // Leftmost prefix of the filled-in key columns
+  const lookupKey = (() => {
+    const key: (string | number)[] = [];
+    for (const columnName of lookupIndex?.columns ?? []) {
+      const raw = queryKey[columnName]?.trim();
+      if (!raw) break;
+      const column = engine.schema.columns.find(c => c.name === columnName);
+      key.push(column?.type === 'INT' ? Number(raw) : raw);
+    }
+    return key;
+  })();
+  const textColumns = engine.schema.columns.filter(c => c.type === 'VARCHAR').map(c => c.name);
+  const likeTarget = textColumns.includes(likeColumn) ? likeColumn : textColumns[0];
+
+  const runQuery = (indexName: string, key: (string | number)[], covering: boolean = false) => {
     // Clear old highlights
     setEngine(prev => ({
         ...prev,
-        pages: prev.pages.map(p => ({...p, isHighlighted: false, records: p.records.map(r => ({...r, isHighlighted: false}))}))
+        pages: prev.pages.map(p => ({...p, isHighlighted: false, highlightedSlot: undefined, records: p.records.map(r => ({...r, isHighlighted: false}))}))
     }));
 
-    const param = type === 'BY_ID' ? queryId : queryName;
-    if (!param) return;
+    if (key.length === 0 || key.some(v => typeof v === 'number' && isNaN(v))) return;
 
-    const steps = simulateSelectQuery(engine, type, param);
-    setSimSteps(steps);
+    // The lookup goes through the buffer pool, so keep the state it returns
+    const result = simulateSelectQuery(engine, { indexName, key, covering }, sessionId);
+    setEngine({
+        ...result.state,
+        pages: result.state.pages.map(p => ({...p, isHighlighted: false, highlightedSlot: undefined, records: p.records.map(r => ({...r, isHighlighted: false}))}))
+    });
+    setSimSteps(result.steps);
     setCurrentStepIndex(0);
   };
 
-  const handleReset = () => {
-    setEngine(resetEngine());
+  const runRangeQuery = (query: RangeQuery) => {
+    // Clear old highlights
+    setEngine(prev => ({
+        ...prev,
+        pages: prev.pages.map(p => ({...p, isHighlighted: false, highlightedSlot: undefined, records: p.records.map(r => ({...r, isHighlighted: false}))}))
+    }));
+
+    const result = simulateRangeQuery(engine, query, sessionId);
+    setEngine({
+        ...result.state,
+        pages: result.state.pages.map(p => ({...p, isHighlighted: false, highlightedSlot: undefined, records: p.records.map(r => ({...r, isHighlighted: false}))}))
+    });
+    setSimSteps(result.steps);
+    setCurrentStepIndex(0);
+  };
+
+  // SQL Console: run the statement, then animate its steps (SELECT / UPDATE)
+  const handleSql = (sql: string) => {
+    const result = executeSql(engine, sql, sessionId);
+    setEngine({
+        ...result.state,
+        pages: result.state.pages.map(p => ({...p, isHighlighted: false, highlightedSlot: undefined, records: p.records.map(r => ({...r, isHighlighted: false}))}))
+    });
+    setSimSteps(result.steps);
+    setCurrentStepIndex(result.steps.length > 0 ? 0 : -1);
+    return { output: result.output, error: result.error };
+  };
+
+  const handleReset = (pageSize: number = engine.pageSize) => {
+    setEngine(resetEngine(pageSize, engine.splitStrategy, engine.schema, engine.bufferPool.capacity));
     setAiAnalysis(null);
     setIsAutoInserting(false);
     setSimSteps([]);
     setQueryId('');
-    setQueryName('');
+    setQueryKey({});
+    setRangeFrom('');
+    setRangeTo('');
+    setLikePrefix('');
+  };
+
+  // Crash: the buffer pool is lost, then recovery replays the redo log page by page
+  const handleCrash = () => {
+    setIsAutoInserting(false);
+    const result = simulateCrashRecovery(engine);
+    setEngine(result.state);
+    setRecoveryPages(result.steps[0].pages!);
+    setSimSteps(result.steps);
+    setCurrentStepIndex(0);
+  };
+
+  // Torn write: the crash hits in the middle of a flush, recovery has to repair the half-written page first
+  const handleInjectFault = (fault: FaultKind) => {
+    setIsAutoInserting(false);
+    setEngine(prev => injectFault(prev, fault));
+  };
+
+  const handleTornWrite = () => {
+    setIsAutoInserting(false);
+    const result = simulateTornWrite(engine);
+    setEngine(result.state);
+    if (result.steps.length === 0) return;
+    setRecoveryPages(result.steps[0].pages!);
+    setSimSteps(result.steps);
+    setCurrentStepIndex(0);
+  };
+
+  // Time travel: show an earlier (or undone) state; the next operation drops the undone ones
+  const travelTo = (index: number) => {
+    const next = jumpToHistory(history, index);
+    setIsAutoInserting(false);
+    setSimSteps([]);
+    setSimMessage('');
+    setHistory(next);
+    setEngine(next.entries[next.index].state);
+  };
+
+  // Snapshots: the whole engine to a file or a link, and back
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([serializeSnapshot(engine)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `innodb-${engine.schema.name}-lsn${engine.lsn}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    setSnapshotStatus({ type: 'success', message: `Exported ${link.download}.` });
+  };
+
+  const handleImport = async (file: File) => {
+    const result = parseSnapshot(await file.text());
+    if (result.ok === false) {
+      setSnapshotStatus({ type: 'error', message: `${file.name}: ${result.error}` });
+      return;
+    }
+    setIsAutoInserting(false);
+    setIsReplaying(false);
+    setSimSteps([]);
+    setEngine(loadSnapshot(result.state, file.name, result.savedAt));
+    setSnapshotStatus({ type: 'success', message: `Loaded ${file.name}.` });
+  };
+
+  const handleCopyLink = async () => {
+    const { origin, pathname, search } = window.location;
+    const url = origin + pathname + search + await encodeSnapshotHash(engine);
+    try {
+      await navigator.clipboard.writeText(url);
+      setSnapshotStatus({ type: 'success', message: `Link copied (${(url.length / 1024).toFixed(1)} KB).` });
+    } catch {
+      setSnapshotStatus({ type: 'error', message: 'The browser did not allow copying to the clipboard.' });
+    }
+  };
+
+  const handleToggleAutosave = (enabled: boolean) => {
+    setAutosaveEnabled(enabled);
+    setAutosave(enabled);
+    setSnapshotStatus(enabled ? null : { type: 'success', message: 'Autosave off: the saved session was removed.' });
+  };
+
+  // Scenarios: a run plays on its own engine, which the trees show after every step
+  const beginScenario = (): ScenarioRun | null => {
+    const parsed = parseScenario(scenarioScript);
+    setScenarioError(parsed.ok === false ? parsed.error : null);
+    return parsed.ok === false ? null : startScenario(parsed.scenario);
+  };
+
+  const showScenarioRun = (run: ScenarioRun, animate: boolean) => {
+    setIsAutoInserting(false);
+    setScenarioRun(run);
+    setEngine({
+        ...run.state,
+        pages: run.state.pages.map(p => ({...p, isHighlighted: false, highlightedSlot: undefined, records: p.records.map(r => ({...r, isHighlighted: false}))}))
+    });
+    // A statement that was just run animates like it does from the SQL console
+    const lastStep = run.results[run.results.length - 1]?.step;
+    const steps = animate && lastStep?.kind === 'SQL' && run.last ? run.last.result.steps : [];
+    setSimSteps(steps);
+    setCurrentStepIndex(steps.length > 0 ? 0 : -1);
+  };
+
+  const handleScenarioStep = () => {
+    const run = scenarioRun ?? beginScenario();
+    if (!run) {
+      setIsScenarioPlaying(false);
+      return;
+    }
+    showScenarioRun(runScenarioStep(run), true);
+  };
+
+  const handleScenarioRunAll = () => {
+    let run = scenarioRun ?? beginScenario();
+    if (!run) return;
+    while (!isScenarioDone(run)) run = runScenarioStep(run);
+    showScenarioRun(run, false);
+  };
+
+  const handleScenarioScriptChange = (script: string) => {
+    setScenarioScript(script);
+    setScenarioRun(null);
+    setScenarioError(null);
+    setIsScenarioPlaying(false);
   };
 
   const handleAskAI = async () => {
@@ -137,8 +464,11 @@ const App: React.FC = () => {
   };
 
   // Sorting for display
-  const getSortedPages = (type: 'PRIMARY' | 'SECONDARY') => {
-    const pagesOfType = engine.pages.filter(p => p.indexType === type);
+  const displayedPages = recoveryPages ?? engine.pages;
+  // One level in linked-list order. A broken list (a cycle, pages the first page does not reach) is still drawn,
+  // the unreached pages last: it is the Check panel that reports and marks them
+  const getSortedPages = (indexName: string, level: number) => {
+    const pagesOfType = displayedPages.filter(p => p.indexName === indexName && p.level === level);
     const sorted = [];
     let current = pagesOfType.find(p => p.prevPageId === null);
     const visited = new Set();
@@ -155,8 +485,23 @@ const App: React.FC = () => {
     return [...sorted, ...remaining];
   };
 
-  const primaryPages = getSortedPages('PRIMARY');
-  const secondaryPages = getSortedPages('SECONDARY');
+  // Root level first, leaves last
+  const getTreeLevels = (indexName: string): PageData[][] => {
+    const height = getTreeHeight(displayedPages, indexName);
+    return Array.from({ length: height }, (_, i) => getSortedPages(indexName, height - 1 - i));
+  };
+
+  // Only dim the pages outside the buffer pool while its panel is open
+  const residentPageIds = showBufferPool ? engine.bufferPool.lru.map(frame => frame.pageId) : undefined;
+
+  // History diff: against the pinned entry, or the one before the current one
+  const pinnedIndex = history.entries.findIndex(entry => entry.id === pinnedHistoryId);
+  const compareIndex = pinnedIndex !== -1 ? pinnedIndex : history.index > 0 ? history.index - 1 : null;
+  const pageDiffs = showHistory && compareIndex !== null ? diffPages(history.entries[compareIndex].state.pages, engine.pages) : [];
+
+  const indexStats = showStats ? getIndexStats(engine) : [];
+  const checkReport = showCheck ? checkTable(engine) : null;
+  const violations = checkReport?.violations ?? [];
 
   // Determine if we should show the "Lookup" arrow
   const currentStep = simSteps[currentStepIndex];
@@ -176,6 +521,9 @@ const App: React.FC = () => {
             <h1 className="font-bold text-xs tracking-tight text-white flex items-center gap-2">
                 InnoDB Visualizer
             </h1>
+            <span className="text-[9px] font-mono text-slate-500">
+                {engine.schema.name}(id, {engine.schema.columns.map(c => c.name).join(', ')})
+            </span>
           </div>
         </div>
 
@@ -190,13 +538,16 @@ const App: React.FC = () => {
                   onChange={e => setInputId(e.target.value)}
                   className="w-12 bg-slate-900 border border-slate-700 rounded px-1.5 py-0.5 text-[10px] focus:border-blue-500 focus:outline-none"
                 />
-                <input 
-                  type="text" 
-                  placeholder="Name" 
-                  value={inputValue}
-                  onChange={e => setInputValue(e.target.value)}
-                  className="w-16 bg-slate-900 border border-slate-700 rounded px-1.5 py-0.5 text-[10px] focus:border-blue-500 focus:outline-none"
-                />
+                {engine.schema.columns.map(column => (
+                  <input 
+                    key={column.name}
+                    type={column.type === 'INT' ? 'number' : 'text'} 
+                    placeholder={column.name} 
+                    value={inputValues[column.name] ?? ''}
+                    onChange={e => setInputValues(prev => ({ ...prev, [column.name]: e.target.value }))}
+                    className={`${column.type === 'INT' ? 'w-10' : 'w-14'} bg-slate-900 border border-slate-700 rounded px-1.5 py-0.5 text-[10px] focus:border-blue-500 focus:outline-none`}
+                  />
+                ))}
                 <button 
                   type="submit" 
                   disabled={!inputId}
@@ -204,6 +555,24 @@ const App: React.FC = () => {
                 >
                   <Plus size={12} />
                 </button>
+                <button 
+                  type="button" 
+                  onClick={handleUpdate}
+                  disabled={!inputId || Object.keys(getInputRow()).length === 0}
+                  title="Update the filled-in columns by ID"
+                  className="p-1 bg-amber-600 hover:bg-amber-500 rounded text-white disabled:opacity-50"
+                >
+                  <Pencil size={12} />
+                </button>
+                <button 
+                  type="button" 
+                  onClick={handleDelete}
+                  disabled={!inputId}
+                  title="Delete by ID"
+                  className="p-1 bg-red-600 hover:bg-red-500 rounded text-white disabled:opacity-50"
+                >
+                  <Trash2 size={12} />
+                </button>
              </form>
            </div>
 
@@ -218,6 +587,156 @@ const App: React.FC = () => {
               <Play size={10} />
               {isAutoInserting ? 'Stop' : 'Auto'}
            </button>
+           <select
+              value={isSequentialAuto ? 'sequential' : 'random'}
+              onChange={e => setIsSequentialAuto(e.target.value === 'sequential')}
+              title="Ids generated by Auto"
+              className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-300 focus:outline-none"
+           >
+              <option value="random">Random ids</option>
+              <option value="sequential">Auto-increment</option>
+           </select>
+           <select
+              value={engine.splitStrategy}
+              onChange={e => setEngine(prev => ({ ...prev, splitStrategy: e.target.value as SplitStrategy }))}
+              title="How full pages are split (applies to the next split)"
+              className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-300 focus:outline-none"
+           >
+              <option value="INNODB">Split: InnoDB heuristic</option>
+              <option value="MIDPOINT">Split: 50/50</option>
+           </select>
+           <button
+              onClick={() => setShowInternals(prev => !prev)}
+              title="Show the record list, heap and page directory of every page"
+              className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium border transition-colors ${
+                showInternals
+                ? 'bg-yellow-500/10 border-yellow-500/50 text-yellow-300'
+                : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-300'
+              }`}
+           >
+              <Microscope size={10} />
+              Internals
+           </button>
+           <button
+              onClick={() => setShowBufferPool(prev => !prev)}
+              title="Show the buffer pool: LRU list, flush list and hit rate"
+              className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium border transition-colors ${
+                showBufferPool
+                ? 'bg-emerald-500/10 border-emerald-500/50 text-emerald-300'
+                : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-300'
+              }`}
+           >
+              <HardDrive size={10} />
+              Buffer Pool
+           </button>
+           <button
+              onClick={() => setShowRedoLog(prev => !prev)}
+              title="Show the redo log, the checkpoint and the crash button"
+              className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium border transition-colors ${
+                showRedoLog
+                ? 'bg-sky-500/10 border-sky-500/50 text-sky-300'
+                : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-300'
+              }`}
+           >
+              <ScrollText size={10} />
+              Redo Log
+           </button>
+           <button
+              onClick={() => setShowChangeBuffer(prev => !prev)}
+              title="Show the change buffer: secondary index changes waiting for their page"
+              className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium border transition-colors ${
+                showChangeBuffer
+                ? 'bg-teal-500/10 border-teal-500/50 text-teal-300'
+                : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-300'
+              }`}
+           >
+              <Inbox size={10} />
+              Change Buffer
+           </button>
+           <button
+              onClick={() => setShowAdaptiveHash(prev => !prev)}
+              title="Show the adaptive hash index: hashed pages and hash / non-hash searches"
+              className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium border transition-colors ${
+                showAdaptiveHash
+                ? 'bg-violet-500/10 border-violet-500/50 text-violet-300'
+                : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-300'
+              }`}
+           >
+              <Hash size={10} />
+              Adaptive Hash
+           </button>
+           <button
+              onClick={() => setShowTransactions(prev => !prev)}
+              title="Show sessions, transactions, read views and the undo log"
+              className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium border transition-colors ${
+                showTransactions
+                ? 'bg-amber-500/10 border-amber-500/50 text-amber-300'
+                : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-300'
+              }`}
+           >
+              <Users size={10} />
+              Transactions
+           </button>
+           <button
+              onClick={() => setShowHistory(prev => !prev)}
+              title="Show the operation timeline: undo / redo, replay and what each operation changed"
+              className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium border transition-colors ${
+                showHistory
+                ? 'bg-fuchsia-500/10 border-fuchsia-500/50 text-fuchsia-300'
+                : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-300'
+              }`}
+           >
+              <History size={10} />
+              History
+           </button>
+           <button
+              onClick={() => setShowSnapshots(prev => !prev)}
+              title="Export, import or link the engine state, and autosave it in this browser"
+              className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium border transition-colors ${
+                showSnapshots
+                ? 'bg-lime-500/10 border-lime-500/50 text-lime-300'
+                : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-300'
+              }`}
+           >
+              <Archive size={10} />
+              Snapshots
+           </button>
+           <button
+              onClick={() => setShowStats(prev => !prev)}
+              title="Show per index statistics: fill, height, splits and merges, records per page and page order"
+              className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium border transition-colors ${
+                showStats
+                ? 'bg-cyan-500/10 border-cyan-500/50 text-cyan-300'
+                : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-300'
+              }`}
+           >
+              <BarChart3 size={10} />
+              Stats
+           </button>
+           <button
+              onClick={() => setShowCheck(prev => !prev)}
+              title="Run CHECK TABLE after every change and inject faults to corrupt a page"
+              className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium border transition-colors ${
+                showCheck
+                ? 'bg-rose-500/10 border-rose-500/50 text-rose-300'
+                : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-300'
+              }`}
+           >
+              <ShieldCheck size={10} />
+              Check
+           </button>
+           <button
+              onClick={() => setShowScenario(prev => !prev)}
+              title="Play a lesson script step by step and check its assertions against the engine"
+              className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium border transition-colors ${
+                showScenario
+                ? 'bg-orange-500/10 border-orange-500/50 text-orange-300'
+                : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-300'
+              }`}
+           >
+              <ListChecks size={10} />
+              Scenario
+           </button>
            
            <div className="w-px h-4 bg-slate-700"></div>
 
@@ -229,8 +748,19 @@ const App: React.FC = () => {
               <span>Tutorial / Help</span>
            </button>
 
+           <select
+              value={engine.pageSize}
+              onChange={e => handleReset(Number(e.target.value))}
+              title="Page size (changing it resets the engine)"
+              className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-300 focus:outline-none"
+           >
+              {PAGE_SIZE_OPTIONS.map(size => (
+                 <option key={size} value={size}>{size}B pages</option>
+              ))}
+           </select>
+
            <button 
-              onClick={handleReset}
+              onClick={() => handleReset()}
               className="text-slate-400 hover:text-white"
               title="Reset"
            >
@@ -253,27 +783,120 @@ const App: React.FC = () => {
                 className="w-10 bg-slate-900 border border-slate-700 rounded px-1 text-[10px]" 
                 value={queryId} onChange={e => setQueryId(e.target.value)} 
             />
-            <button onClick={() => runQuery('BY_ID')} className="px-2 py-0.5 bg-blue-900/30 border border-blue-800 hover:bg-blue-800 text-blue-200 text-[9px] rounded">
+            <button onClick={() => runQuery(PRIMARY_INDEX, queryId ? [Number(queryId)] : [])} className="px-2 py-0.5 bg-blue-900/30 border border-blue-800 hover:bg-blue-800 text-blue-200 text-[9px] rounded">
                 Run
             </button>
         </div>
 
-        {/* Query Name */}
+        {/* Query through a Secondary Index: equality on a leftmost prefix of its key */}
+        {lookupIndex && (
         <div className="flex items-center gap-1 pl-3 border-l border-slate-800">
-            <span className="text-[10px] font-mono text-purple-400">WHERE Name=</span>
-            <input 
-                type="text" 
-                className="w-16 bg-slate-900 border border-slate-700 rounded px-1 text-[10px]" 
-                value={queryName} onChange={e => setQueryName(e.target.value)} 
-            />
-            <button onClick={() => runQuery('BY_NAME')} className="px-2 py-0.5 bg-purple-900/30 border border-purple-800 hover:bg-purple-800 text-purple-200 text-[9px] rounded">
+            <select
+                value={lookupIndex.name}
+                onChange={e => { setQueryIndex(e.target.value); setQueryKey({}); }}
+                className="bg-slate-900 border border-slate-700 rounded px-1 text-[10px] text-purple-300 focus:outline-none"
+            >
+                {engine.schema.indexes.map(index => (
+                    <option key={index.name} value={index.name}>{index.name}</option>
+                ))}
+            </select>
+            {lookupIndex.columns.map(column => (
+                <React.Fragment key={column}>
+                    <span className="text-[10px] font-mono text-purple-400">{column}=</span>
+                    <input 
+                        type="text" 
+                        className="w-12 bg-slate-900 border border-slate-700 rounded px-1 text-[10px]" 
+                        value={queryKey[column] ?? ''} onChange={e => setQueryKey(prev => ({ ...prev, [column]: e.target.value }))} 
+                    />
+                </React.Fragment>
+            ))}
+            <button onClick={() => runQuery(lookupIndex.name, lookupKey)} disabled={lookupKey.length === 0} className="px-2 py-0.5 bg-purple-900/30 border border-purple-800 hover:bg-purple-800 text-purple-200 text-[9px] rounded disabled:opacity-50">
                 Lookup (回表)
             </button>
-            <button onClick={() => runQuery('BY_NAME_COVERING')} className="px-2 py-0.5 bg-emerald-900/30 border border-emerald-800 hover:bg-emerald-800 text-emerald-200 text-[9px] rounded">
+            <button onClick={() => runQuery(lookupIndex.name, lookupKey, true)} disabled={lookupKey.length === 0} className="px-2 py-0.5 bg-emerald-900/30 border border-emerald-800 hover:bg-emerald-800 text-emerald-200 text-[9px] rounded disabled:opacity-50">
                 Covering
             </button>
         </div>
+        )}
         
+        {/* Range: ID BETWEEN */}
+        <div className="flex items-center gap-1 pl-3 border-l border-slate-800">
+            <span className="text-[10px] font-mono text-blue-400">ID BETWEEN</span>
+            <input 
+                type="number" 
+                className="w-10 bg-slate-900 border border-slate-700 rounded px-1 text-[10px]" 
+                value={rangeFrom} onChange={e => setRangeFrom(e.target.value)} 
+            />
+            <span className="text-[10px] font-mono text-blue-400">AND</span>
+            <input 
+                type="number" 
+                className="w-10 bg-slate-900 border border-slate-700 rounded px-1 text-[10px]" 
+                value={rangeTo} onChange={e => setRangeTo(e.target.value)} 
+            />
+            <button 
+                onClick={() => runRangeQuery({ conditions: [{ column: 'id', from: { value: Number(rangeFrom), inclusive: true }, to: { value: Number(rangeTo), inclusive: true } }] })}
+                disabled={!rangeFrom || !rangeTo}
+                className="px-2 py-0.5 bg-blue-900/30 border border-blue-800 hover:bg-blue-800 text-blue-200 text-[9px] rounded disabled:opacity-50"
+            >
+                Scan
+            </button>
+        </div>
+
+        {/* Range: LIKE prefix on a VARCHAR column */}
+        {likeTarget && (
+        <div className="flex items-center gap-1 pl-3 border-l border-slate-800">
+            <select
+                value={likeTarget}
+                onChange={e => setLikeColumn(e.target.value)}
+                className="bg-slate-900 border border-slate-700 rounded px-1 text-[10px] text-purple-300 focus:outline-none"
+            >
+                {textColumns.map(column => (
+                    <option key={column} value={column}>{column}</option>
+                ))}
+            </select>
+            <span className="text-[10px] font-mono text-purple-400">LIKE</span>
+            <input 
+                type="text" 
+                className="w-12 bg-slate-900 border border-slate-700 rounded px-1 text-[10px]" 
+                value={likePrefix} onChange={e => setLikePrefix(e.target.value)} 
+            />
+            <span className="text-[10px] font-mono text-purple-400">%</span>
+            <button 
+                onClick={() => runRangeQuery({ conditions: [{ column: likeTarget, prefix: likePrefix }] })}
+                disabled={!likePrefix}
+                className="px-2 py-0.5 bg-purple-900/30 border border-purple-800 hover:bg-purple-800 text-purple-200 text-[9px] rounded disabled:opacity-50"
+            >
+                Scan
+            </button>
+        </div>
+        )}
+
+        {/* optimizer_switch: how secondary range scans reach the clustered index */}
+        <div className="flex items-center gap-1 pl-3 border-l border-slate-800">
+            <button
+                onClick={() => setEngine(prev => setOptimizerSwitch(prev, { indexConditionPushdown: !prev.optimizerSwitch.indexConditionPushdown }))}
+                title="index_condition_pushdown: check the WHERE conditions on index columns against each entry, before its table lookup"
+                className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[9px] border ${
+                    engine.optimizerSwitch.indexConditionPushdown
+                        ? 'bg-purple-500/10 border-purple-500/50 text-purple-300'
+                        : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-400'
+                }`}
+            >
+                <Filter size={9} /> ICP {engine.optimizerSwitch.indexConditionPushdown ? 'ON' : 'OFF'}
+            </button>
+            <button
+                onClick={() => setEngine(prev => setOptimizerSwitch(prev, { mrr: !prev.optimizerSwitch.mrr }))}
+                title="mrr: collect the PKs of the matching entries, then do the table lookups in PK order, each clustered page once"
+                className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[9px] border ${
+                    engine.optimizerSwitch.mrr
+                        ? 'bg-purple-500/10 border-purple-500/50 text-purple-300'
+                        : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-400'
+                }`}
+            >
+                <ArrowUpDown size={9} /> MRR {engine.optimizerSwitch.mrr ? 'ON' : 'OFF'}
+            </button>
+        </div>
+
         {/* Simulation Message */}
         {simMessage && (
              <div className="ml-auto bg-yellow-500/10 text-yellow-400 border border-yellow-500/20 px-2 py-0.5 rounded text-[10px] font-mono flex items-center gap-2 animate-in fade-in slide-in-from-top-2">
@@ -287,38 +910,8 @@ const App: React.FC = () => {
       <main className="flex-1 flex flex-col relative overflow-hidden bg-[#0b1120]">
         
         {/* 1. TOP SECTION: CLUSTERED INDEX (Primary Key) */}
-        <div className="flex-1 relative border-b border-slate-800/50 bg-slate-900/10 flex flex-col justify-center">
-             {/* Label */}
-             <div className="absolute top-2 left-4">
-                <span className="px-1.5 py-0.5 rounded bg-blue-900/30 border border-blue-800 text-blue-300 text-[10px] font-bold uppercase tracking-wide">
-                    Clustered Index (Primary Key)
-                </span>
-             </div>
-
-             {/* Visual Root Node (Static Representation) */}
-             <div className="flex justify-center mb-4 relative z-10">
-                <div className="w-24 h-10 border border-blue-700 bg-blue-900/20 rounded flex flex-col items-center justify-center shadow-[0_0_15px_rgba(30,64,175,0.3)]">
-                    <span className="text-[8px] text-blue-200 font-bold">ROOT</span>
-                    <div className="flex gap-1 mt-1">
-                        <div className="w-3 h-3 bg-slate-800 border border-blue-800"></div>
-                        <div className="w-3 h-3 bg-slate-800 border border-blue-800"></div>
-                    </div>
-                </div>
-                {/* SVG Connectors to Leaves */}
-                <div className="absolute top-full left-0 w-full h-8 pointer-events-none">
-                    <svg width="100%" height="100%">
-                        <line x1="50%" y1="0" x2="20%" y2="100%" stroke="#1e3a8a" strokeWidth="1" strokeOpacity="0.4" />
-                        <line x1="50%" y1="0" x2="80%" y2="100%" stroke="#1e3a8a" strokeWidth="1" strokeOpacity="0.4" />
-                    </svg>
-                </div>
-             </div>
-
-             {/* Leaf Nodes Row */}
-             <div className="flex items-start px-8 overflow-x-auto pb-4 min-h-[160px] z-10">
-                {primaryPages.map((page, index) => (
-                    <PageCard key={page.id} page={page} isHead={index===0} isTail={index===primaryPages.length-1} />
-                ))}
-             </div>
+        <div className="flex-1 relative border-b border-slate-800/50 bg-slate-900/10 flex flex-col justify-center overflow-hidden">
+             <IndexTree indexName={PRIMARY_INDEX} label="Clustered Index (Primary Key)" levels={getTreeLevels(PRIMARY_INDEX)} showInternals={showInternals} residentPageIds={residentPageIds} showHiddenColumns={showTransactions} locks={engine.locks.filter(l => l.indexName === PRIMARY_INDEX)} hashEntries={engine.adaptiveHash.entries.filter(e => e.indexName === PRIMARY_INDEX)} pageDiffs={pageDiffs.filter(d => d.indexName === PRIMARY_INDEX)} violations={violations.filter(v => v.indexName === PRIMARY_INDEX)} />
         </div>
 
         {/* Lookup Animation Arrow (Absolute Overlay) */}
@@ -335,40 +928,98 @@ const App: React.FC = () => {
            </div>
         )}
 
-        {/* 2. BOTTOM SECTION: SECONDARY INDEX (Name) */}
-        <div className="flex-1 relative bg-slate-900/30 flex flex-col justify-center">
-            {/* Label */}
-            <div className="absolute top-2 left-4">
-                <span className="px-1.5 py-0.5 rounded bg-purple-900/30 border border-purple-800 text-purple-300 text-[10px] font-bold uppercase tracking-wide">
-                    Secondary Index (Name)
-                </span>
-             </div>
-
-             {/* Visual Root Node */}
-             <div className="flex justify-center mb-4 relative z-10">
-                <div className="w-24 h-10 border border-purple-700 bg-purple-900/20 rounded flex flex-col items-center justify-center shadow-[0_0_15px_rgba(147,51,234,0.3)]">
-                    <span className="text-[8px] text-purple-200 font-bold">ROOT (Name)</span>
-                    <div className="flex gap-1 mt-1">
-                         <div className="w-3 h-3 bg-slate-800 border border-purple-800"></div>
-                         <div className="w-3 h-3 bg-slate-800 border border-purple-800"></div>
-                    </div>
-                </div>
-                 {/* SVG Connectors to Leaves */}
-                 <div className="absolute top-full left-0 w-full h-8 pointer-events-none">
-                    <svg width="100%" height="100%">
-                        <line x1="50%" y1="0" x2="20%" y2="100%" stroke="#581c87" strokeWidth="1" strokeOpacity="0.4" />
-                        <line x1="50%" y1="0" x2="80%" y2="100%" stroke="#581c87" strokeWidth="1" strokeOpacity="0.4" />
-                    </svg>
-                </div>
-             </div>
+        {/* 2. BOTTOM SECTIONS: one per SECONDARY INDEX */}
+        {engine.schema.indexes.map(index => (
+          <div key={index.name} className="flex-1 relative border-b border-slate-800/50 bg-slate-900/30 flex flex-col justify-center overflow-hidden">
+               <IndexTree indexName={index.name} label={`${index.unique ? 'Unique ' : ''}Secondary Index ${index.name} (${index.columns.join(', ')})`} levels={getTreeLevels(index.name)} showInternals={showInternals} residentPageIds={residentPageIds} locks={engine.locks.filter(l => l.indexName === index.name)} bufferedChanges={engine.changeBuffer.entries.filter(c => c.indexName === index.name)} hashEntries={engine.adaptiveHash.entries.filter(e => e.indexName === index.name)} pageDiffs={pageDiffs.filter(d => d.indexName === index.name)} violations={violations.filter(v => v.indexName === index.name)} />
+          </div>
+        ))}
 
-             {/* Leaf Nodes Row */}
-             <div className="flex items-start px-8 overflow-x-auto pb-4 min-h-[160px] z-10">
-                {secondaryPages.map((page, index) => (
-                    <PageCard key={page.id} page={page} isHead={index===0} isTail={index===secondaryPages.length-1} />
-                ))}
-             </div>
-        </div>
+        {/* Scenario / Check / Stats / Snapshots / History / Buffer Pool / Redo Log / Change Buffer / Adaptive Hash / Transactions Panels */}
+        {(showScenario || showCheck || showStats || showSnapshots || showHistory || showBufferPool || showRedoLog || showChangeBuffer || showAdaptiveHash || showTransactions) && (
+          <div className="absolute top-2 right-4 w-72 z-40 max-h-[55%] overflow-y-auto space-y-2">
+            {showScenario && (
+              <ScenarioPanel
+                script={scenarioScript}
+                run={scenarioRun}
+                error={scenarioError}
+                isPlaying={isScenarioPlaying}
+                onScriptChange={handleScenarioScriptChange}
+                onStep={handleScenarioStep}
+                onTogglePlay={() => setIsScenarioPlaying(prev => !prev)}
+                onRunAll={handleScenarioRunAll}
+                onRestart={() => handleScenarioScriptChange(scenarioScript)}
+              />
+            )}
+            {checkReport && <CheckTablePanel report={checkReport} onInjectFault={handleInjectFault} />}
+            {showStats && <IndexStatsPanel stats={indexStats} />}
+            {showSnapshots && (
+              <SnapshotPanel
+                engine={engine}
+                autosave={autosave}
+                status={snapshotStatus}
+                onExport={handleExport}
+                onImport={handleImport}
+                onCopyLink={handleCopyLink}
+                onToggleAutosave={handleToggleAutosave}
+              />
+            )}
+            {showHistory && (
+              <HistoryPanel
+                history={history}
+                diffs={pageDiffs}
+                compareIndex={compareIndex}
+                pinnedId={pinnedHistoryId}
+                isReplaying={isReplaying}
+                onTravel={index => { setIsReplaying(false); travelTo(index); }}
+                onCompare={setPinnedHistoryId}
+                onToggleReplay={() => setIsReplaying(prev => !prev)}
+              />
+            )}
+            {showBufferPool && (
+              <BufferPoolPanel
+                pool={engine.bufferPool}
+                pages={engine.pages}
+                onResize={frames => setEngine(prev => setBufferPoolSize(prev, frames))}
+              />
+            )}
+            {showRedoLog && (
+              <RedoLogPanel
+                engine={engine}
+                onCheckpoint={() => setEngine(prev => makeCheckpoint(prev))}
+                onCrash={handleCrash}
+                onTornWrite={handleTornWrite}
+                onToggleDoublewrite={enabled => setEngine(prev => setDoublewrite(prev, enabled))}
+              />
+            )}
+            {showChangeBuffer && (
+              <ChangeBufferPanel
+                engine={engine}
+                onMerge={() => { setSimSteps([]); setEngine(prev => mergeChangeBuffer(prev)); }}
+              />
+            )}
+            {showAdaptiveHash && (
+              <AdaptiveHashPanel
+                engine={engine}
+                onToggle={enabled => setEngine(prev => setAdaptiveHashIndex(prev, enabled))}
+              />
+            )}
+            {showTransactions && (
+              <TransactionsPanel
+                engine={engine}
+                activeSessionId={sessionId}
+                highlightedUndoNo={currentStep?.undoNo}
+                onSelectSession={setActiveSessionId}
+                onIsolationChange={(id, level) => setEngine(prev => setIsolationLevel(prev, id, level))}
+                onBegin={id => setEngine(prev => beginTransaction(prev, id))}
+                onCommit={id => setEngine(prev => commitTransaction(prev, id))}
+                onRollback={id => { setSimSteps([]); setEngine(prev => rollbackTransaction(prev, id)); }}
+                onTimeout={id => setEngine(prev => timeoutLockWait(prev, id))}
+                onAddSession={() => setEngine(prev => addSession(prev))}
+              />
+            )}
+          </div>
+        )}
 
         {/* AI Assistant Box */}
         <div className="absolute bottom-40 right-4 w-72 z-40 flex flex-col gap-2">
@@ -393,26 +1044,30 @@ const App: React.FC = () => {
         </div>
 
         {/* Console / Logs Panel */}
-        <div className="h-24 bg-slate-950 border-t border-slate-800 flex flex-col flex-shrink-0 z-30">
-           <div className="h-5 bg-slate-900 border-b border-slate-800 px-4 flex items-center gap-2">
-              <Terminal size={10} className="text-slate-500" />
-              <span className="text-[9px] font-medium text-slate-400 uppercase tracking-wider">Engine Log</span>
-           </div>
-           <div 
-              ref={logContainerRef}
-              className="flex-1 overflow-y-auto p-2 font-mono text-[9px] space-y-0.5"
-           >
-              {[...engine.logs].reverse().map((log) => (
-                 <div key={log.id} className={`flex gap-2 ${
-                    log.type === 'error' ? 'text-red-400' :
-                    log.type === 'warning' ? 'text-orange-400' :
-                    log.type === 'success' ? 'text-emerald-400' :
-                    'text-slate-500'
-                 }`}>
-                    <span className="opacity-50 w-12 shrink-0">[{new Date(log.timestamp).toLocaleTimeString().split(' ')[0]}]</span>
-                    <span>{log.message}</span>
-                 </div>
-              ))}
+        <div className="h-40 bg-slate-950 border-t border-slate-800 flex flex-shrink-0 z-30">
+           <SqlConsole onExecute={handleSql} sessions={engine.sessions} activeSessionId={sessionId} onSessionChange={setActiveSessionId} />
+
+           <div className="flex-1 flex flex-col min-w-0">
+              <div className="h-5 bg-slate-900 border-b border-slate-800 px-4 flex items-center gap-2">
+                 <Terminal size={10} className="text-slate-500" />
+                 <span className="text-[9px] font-medium text-slate-400 uppercase tracking-wider">Engine Log</span>
+              </div>
+              <div 
+                 ref={logContainerRef}
+                 className="flex-1 overflow-y-auto p-2 font-mono text-[9px] space-y-0.5"
+              >
+                 {[...engine.logs].reverse().map((log) => (
+                    <div key={log.id} className={`flex gap-2 ${
+                       log.type === 'error' ? 'text-red-400' :
+                       log.type === 'warning' ? 'text-orange-400' :
+                       log.type === 'success' ? 'text-emerald-400' :
+                       'text-slate-500'
+                    }`}>
+                       <span className="opacity-50 w-12 shrink-0">[{new Date(log.timestamp).toLocaleTimeString().split(' ')[0]}]</span>
+                       <span>{log.message}</span>
+                    </div>
+                 ))}
+              </div>
            </div>
         </div>
       </main>
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Hash } from 'lucide-react';
+import { EngineState, AHI_BUILD_LIMIT, AHI_HASH_ANALYSIS } from '../types';
+import { formatValue, getIndexNames } from '../services/innodb';
+import { getHashedPageIds } from '../services/adaptiveHash';
+
+interface Props {
+  engine: EngineState;
+  onToggle: (enabled: boolean) => void;
+}
+
+/**
+ * The adaptive hash index: the hash / non-hash search counters of SHOW ENGINE INNODB STATUS,
+ * the access pattern it learned per index, and the entries of the hashed pages.
+ */
+export const AdaptiveHashPanel: React.FC<Props> = ({ engine, onToggle }) => {
+  const { adaptiveHash } = engine;
+  const searches = adaptiveHash.hashSearches + adaptiveHash.nonHashSearches;
+  const hitRate = searches > 0 ? (adaptiveHash.hashSearches / searches) * 100 : 0;
+  const hashedPages = getHashedPageIds(adaptiveHash);
+  const learned = getIndexNames(engine.schema).filter(indexName => adaptiveHash.info[indexName]);
+
+  return (
+    <div className="bg-slate-900/95 backdrop-blur border border-slate-700 p-2 rounded-lg shadow-2xl space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-slate-300 font-bold text-[9px] uppercase flex items-center gap-1">
+          <Hash size={10} /> Adaptive Hash Index
+        </h3>
+        <button
+          onClick={() => onToggle(!adaptiveHash.enabled)}
+          title="innodb_adaptive_hash_index: switching it off empties the hash index"
+          className={`px-1.5 py-0.5 rounded text-[9px] border ${
+            adaptiveHash.enabled
+              ? 'bg-violet-500/10 border-violet-500/50 text-violet-300'
+              : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-400'
+          }`}
+        >
+          {adaptiveHash.enabled ? 'ON' : 'OFF'}
+        </button>
+      </div>
+
+      {/* The two lines SHOW ENGINE INNODB STATUS prints, as totals instead of per-second rates */}
+      <div className="p-1 rounded border border-slate-800 bg-slate-950/50 font-mono text-[8px] text-slate-400 space-y-px">
+        <div title="Hash entries and the leaf pages they point into; the node heap grows with them">
+          Hash index: <span className="text-slate-200">{adaptiveHash.entries.length}</span> entries on <span className="text-violet-300">{hashedPages.length}</span> page(s)
+        </div>
+        <div>
+          <span className="text-emerald-400" title="Searches answered by a hash entry, without descending the tree">{adaptiveHash.hashSearches} hash searches</span>,{' '}
+          <span className="text-slate-300" title="Searches that descended the B+Tree from the root, including failed hash guesses">{adaptiveHash.nonHashSearches} non-hash searches</span>
+        </div>
+      </div>
+      <div title={`${hitRate.toFixed(1)}% of the searches skipped the descent`}>
+        <div className="h-1 rounded-full bg-slate-700 overflow-hidden">
+          <div className="h-full bg-violet-400" style={{ width: `${hitRate}%` }} />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-1 text-[8px] font-mono text-slate-400">
+        <span title="Pages hashed after lookups kept reaching them">built: <span className="text-emerald-400">{adaptiveHash.pagesBuilt}</span></span>
+        <span title="Hashed pages that were split, merged, freed or evicted">dropped: <span className="text-orange-400">{adaptiveHash.pagesDropped}</span></span>
+      </div>
+
+      {/* Access pattern per index: pages start counting helps after AHI_HASH_ANALYSIS lookups with one prefix */}
+      {learned.length > 0 && (
+        <div className="font-mono text-[8px] space-y-px" title={`After ${AHI_HASH_ANALYSIS} lookups in a row with the same prefix, a page reached ${AHI_BUILD_LIMIT} more times gets hashed`}>
+          {learned.map(indexName => {
+            const { nFields, potential } = adaptiveHash.info[indexName];
+            return (
+              <div key={indexName} className="flex justify-between text-slate-400">
+                <span className="truncate">{indexName}</span>
+                <span>
+                  {nFields} column(s), <span className={potential >= AHI_HASH_ANALYSIS ? 'text-violet-300' : 'text-slate-500'}>{potential}</span> in a row
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Hash entries: fold of a key prefix -> the first record with it on a page */}
+      <div className="max-h-40 overflow-y-auto font-mono text-[8px] space-y-px">
+        {adaptiveHash.entries.length === 0 ? (
+          <div className="text-slate-600 italic">
+            {adaptiveHash.enabled ? 'Empty: repeat a lookup to let the hash index learn it.' : 'Disabled: every search descends the tree.'}
+          </div>
+        ) : (
+          adaptiveHash.entries.map(entry => (
+            <div key={`${entry.pageId}-${entry.recordId}`} className="flex gap-1 text-slate-400 truncate">
+              <span className="text-violet-300">#</span>
+              <span className="truncate">{entry.indexName} ({entry.prefix.map(formatValue).join(', ')})</span>
+              <span className="ml-auto text-slate-500 shrink-0">PG#{entry.pageId} rec {entry.recordId}</span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
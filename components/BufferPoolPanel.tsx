@@ -0,0 +1,96 @@
+import React from 'react';
+import { HardDrive } from 'lucide-react';
+import { BufferPoolState, PageData, PRIMARY_INDEX, BUFFER_POOL_SIZE_OPTIONS } from '../types';
+import { getOldSublistLength } from '../services/bufferPool';
+
+interface Props {
+  pool: BufferPoolState;
+  pages: PageData[];
+  onResize: (frames: number) => void;
+}
+
+/**
+ * The buffer pool as InnoDB manages it: the LRU list split at the midpoint into a young and an old sublist,
+ * the flush list of dirty pages, and the hit / miss counters (SHOW ENGINE INNODB STATUS).
+ */
+export const BufferPoolPanel: React.FC<Props> = ({ pool, pages, onResize }) => {
+  const oldLength = getOldSublistLength(pool.lru.length);
+  const young = pool.lru.slice(0, pool.lru.length - oldLength);
+  const old = pool.lru.slice(pool.lru.length - oldLength);
+  const freeFrames = pool.capacity - pool.lru.length;
+  const reads = pool.hits + pool.misses;
+  const hitRate = reads === 0 ? '-' : `${((pool.hits / reads) * 100).toFixed(1)}%`;
+
+  const frameChip = (pageId: number) => {
+    const page = pages.find(p => p.id === pageId);
+    const color = page?.indexName === PRIMARY_INDEX
+      ? 'border-blue-800 bg-blue-900/30 text-blue-200'
+      : 'border-purple-800 bg-purple-900/30 text-purple-200';
+    return (
+      <span
+        key={pageId}
+        className={`relative px-1 py-0.5 rounded border font-mono text-[8px] ${color} ${page?.isHighlighted ? 'ring-1 ring-yellow-400' : ''}`}
+        title={`Page ${pageId} of ${page?.indexName ?? '?'} (level ${page?.level ?? '?'})${page?.isDirty ? ', dirty' : ''}`}
+      >
+        {pageId}
+        {page?.isDirty && <span className="absolute -top-0.5 -right-0.5 w-1.5 h-1.5 rounded-full bg-amber-400" />}
+      </span>
+    );
+  };
+
+  return (
+    <div className="bg-slate-900/95 backdrop-blur border border-slate-700 p-2 rounded-lg shadow-2xl space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-slate-300 font-bold text-[9px] uppercase flex items-center gap-1">
+          <HardDrive size={10} /> Buffer Pool
+        </h3>
+        <select
+          value={pool.capacity}
+          onChange={e => onResize(Number(e.target.value))}
+          title="Number of page frames (innodb_buffer_pool_size)"
+          className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[9px] text-slate-300 focus:outline-none"
+        >
+          {BUFFER_POOL_SIZE_OPTIONS.map(frames => (
+            <option key={frames} value={frames}>{frames} frames</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Counters */}
+      <div className="grid grid-cols-3 gap-1 text-[8px] font-mono text-slate-400">
+        <span title="Page accesses served from a frame">hits: <span className="text-emerald-400">{pool.hits}</span></span>
+        <span title="Page accesses that read the page from disk">misses: <span className="text-orange-400">{pool.misses}</span></span>
+        <span>hit rate: <span className="text-slate-200">{hitRate}</span></span>
+        <span title="Pages dropped from the LRU tail to free a frame">evicted: {pool.evictions}</span>
+        <span title="Dirty pages written back before their frame was reused">flushed: {pool.flushes}</span>
+        <span>used: {pool.lru.length}/{pool.capacity}</span>
+      </div>
+
+      {/* LRU list, head (most recently used) first */}
+      <div>
+        <div className="text-[8px] text-emerald-500/80 uppercase tracking-wider">Young sublist ({young.length})</div>
+        <div className="flex flex-wrap gap-0.5 min-h-[16px]">{young.map(frame => frameChip(frame.pageId))}</div>
+        <div className="my-1 border-t border-dashed border-slate-600 relative">
+          <span className="absolute -top-1.5 right-0 bg-slate-900 px-1 text-[7px] text-slate-500">midpoint</span>
+        </div>
+        <div className="text-[8px] text-orange-500/80 uppercase tracking-wider">Old sublist ({old.length})</div>
+        <div className="flex flex-wrap gap-0.5 min-h-[16px]">
+          {old.map(frame => frameChip(frame.pageId))}
+          {Array.from({ length: freeFrames }, (_, i) => (
+            <span key={`free-${i}`} className="px-1 py-0.5 rounded border border-dashed border-slate-700 text-[8px] font-mono text-slate-700">
+              free
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Flush list, oldest modification first */}
+      <div>
+        <div className="text-[8px] text-amber-500/80 uppercase tracking-wider">Flush list ({pool.flushList.length} dirty)</div>
+        <div className="text-[8px] font-mono text-slate-400 truncate">
+          {pool.flushList.length === 0 ? 'clean' : pool.flushList.join(' → ')}
+        </div>
+      </div>
+    </div>
+  );
+};
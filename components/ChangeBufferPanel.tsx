@@ -0,0 +1,86 @@
+import React from 'react';
+import { Inbox, Merge } from 'lucide-react';
+import { ChangeBufferOp, EngineState } from '../types';
+import { getChangeBufferBytes, getChangeBufferCapacity, formatKey } from '../services/innodb';
+import { formatChangeOp, getBufferedPageIds } from '../services/changeBuffer';
+
+interface Props {
+  engine: EngineState;
+  onMerge: () => void;
+}
+
+const OP_COLORS: Record<ChangeBufferOp, string> = {
+  INSERT: 'text-emerald-300',
+  DELETE_MARK: 'text-amber-300',
+  DELETE: 'text-red-300',
+};
+
+const formatCounts = (counts: Record<ChangeBufferOp, number>): string =>
+  (Object.keys(counts) as ChangeBufferOp[]).map(op => `${formatChangeOp(op)} ${counts[op]}`).join(' · ');
+
+/**
+ * The change buffer: secondary index changes waiting for their leaf page to be read,
+ * its size against innodb_change_buffer_max_size, and what was merged so far.
+ */
+export const ChangeBufferPanel: React.FC<Props> = ({ engine, onMerge }) => {
+  const { changeBuffer } = engine;
+  const bytes = getChangeBufferBytes(changeBuffer);
+  const capacity = getChangeBufferCapacity(engine);
+  const used = capacity > 0 ? (bytes / capacity) * 100 : 0;
+  const pageCount = getBufferedPageIds(changeBuffer).length;
+  const discarded = (Object.keys(changeBuffer.discarded) as ChangeBufferOp[]).some(op => changeBuffer.discarded[op] > 0);
+
+  return (
+    <div className="bg-slate-900/95 backdrop-blur border border-slate-700 p-2 rounded-lg shadow-2xl space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-slate-300 font-bold text-[9px] uppercase flex items-center gap-1">
+          <Inbox size={10} /> Change Buffer
+        </h3>
+        <button
+          onClick={onMerge}
+          disabled={changeBuffer.entries.length === 0}
+          title="Background merge: read every page with buffered changes and apply them"
+          className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[9px] bg-slate-800 border border-slate-700 hover:bg-slate-700 text-slate-300 disabled:opacity-40"
+        >
+          <Merge size={9} /> Merge
+        </button>
+      </div>
+
+      {/* Size and merge counters */}
+      <div className="grid grid-cols-3 gap-1 text-[8px] font-mono text-slate-400">
+        <span title="Buffered changes">entries: <span className="text-slate-200">{changeBuffer.entries.length}</span></span>
+        <span title="Leaf pages waiting for a merge">pages: <span className="text-teal-300">{pageCount}</span></span>
+        <span title="Pages merged so far">merges: <span className="text-emerald-400">{changeBuffer.merges}</span></span>
+      </div>
+      <div title={`${bytes}/${capacity} bytes of buffered entries; when the change buffer is full, changes go to their pages`}>
+        <div className="h-1 rounded-full bg-slate-700 overflow-hidden">
+          <div className={`h-full ${used >= 80 ? 'bg-orange-400' : 'bg-teal-400'}`} style={{ width: `${Math.min(used, 100)}%` }} />
+        </div>
+      </div>
+      <div className="text-[8px] font-mono text-slate-500" title="Merged operations by type">
+        merged: {formatCounts(changeBuffer.merged)}
+      </div>
+      {discarded && (
+        <div className="text-[8px] font-mono text-slate-500" title="Operations thrown away with a dropped index">
+          discarded: {formatCounts(changeBuffer.discarded)}
+        </div>
+      )}
+
+      {/* Buffered changes, oldest first: the order they are merged in */}
+      <div className="max-h-48 overflow-y-auto font-mono text-[8px] space-y-px">
+        {changeBuffer.entries.length === 0 ? (
+          <div className="text-slate-600 italic">Empty: every change reached its page.</div>
+        ) : (
+          changeBuffer.entries.map(change => (
+            <div key={change.seq} className="flex gap-1 text-slate-400 truncate">
+              <span className="text-slate-600 w-6 shrink-0 text-right">#{change.seq}</span>
+              <span className={OP_COLORS[change.op]}>{formatChangeOp(change.op)}</span>
+              <span className="text-slate-500">PG#{change.pageId}</span>
+              <span className="truncate">{change.indexName} {formatKey(change.indexName, change.entry)}</span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
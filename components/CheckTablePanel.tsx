@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { ShieldCheck, Bug } from 'lucide-react';
+import { CheckTableReport, FaultKind } from '../types';
+import { formatViolation } from '../services/innodb';
+
+interface Props {
+  report: CheckTableReport;
+  onInjectFault: (fault: FaultKind) => void;
+}
+
+const FAULTS: { kind: FaultKind, label: string }[] = [
+  { kind: 'NEXT_POINTER', label: 'Next pointer skips a leaf' },
+  { kind: 'PREV_POINTER', label: 'Prev pointer to the wrong leaf' },
+  { kind: 'LINK_CYCLE', label: 'Last leaf points back to the first' },
+  { kind: 'RECORD_ORDER', label: 'Two records swap places' },
+  { kind: 'RECORD_VALUE', label: 'Row value differs from its index entry' },
+  { kind: 'MISSING_ENTRY', label: 'Secondary index entry lost' },
+];
+
+/**
+ * CHECK TABLE on the current state, run again after every change, and the faults that
+ * corrupt a page behind the engine's back so there is something to find.
+ */
+export const CheckTablePanel: React.FC<Props> = ({ report, onInjectFault }) => {
+  const [fault, setFault] = useState<FaultKind>('NEXT_POINTER');
+  const { violations } = report;
+
+  return (
+    <div className="bg-slate-900/95 backdrop-blur border border-slate-700 p-2 rounded-lg shadow-2xl space-y-2">
+      <h3 className="text-slate-300 font-bold text-[9px] uppercase flex items-center gap-1">
+        <ShieldCheck size={10} /> Check Table
+      </h3>
+
+      <div className={`p-1 rounded border font-mono text-[8px] ${
+        violations.length === 0 ? 'border-emerald-800/60 bg-emerald-950/20 text-emerald-300' : 'border-red-800 bg-red-950/40 text-red-300'
+      }`}>
+        {violations.length === 0 ? 'OK' : `Corrupt: ${violations.length} problem(s)`}
+        <span className="text-slate-500"> ({report.pages} pages, {report.records} leaf records checked)</span>
+      </div>
+
+      {/* Violations, each against the page it was found on (also marked in the trees) */}
+      {violations.length > 0 && (
+        <div className="max-h-40 overflow-y-auto font-mono text-[8px] text-red-300/90 space-y-px">
+          {violations.map((violation, i) => (
+            <div key={i} className="break-words">{formatViolation(violation)}</div>
+          ))}
+        </div>
+      )}
+
+      {/* Fault injection: the page changes in memory only, without redo */}
+      <div className="flex items-center gap-1">
+        <select
+          value={fault}
+          onChange={e => setFault(e.target.value as FaultKind)}
+          title="Corruption to inject"
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[9px] text-slate-300 focus:outline-none"
+        >
+          {FAULTS.map(({ kind, label }) => <option key={kind} value={kind}>{label}</option>)}
+        </select>
+        <button
+          onClick={() => onInjectFault(fault)}
+          title="Corrupt a page in memory, behind the engine's back: no redo is written, so a crash undoes it unless a flush of the (dirty) page wrote it to disk first"
+          className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[9px] bg-rose-500/10 border border-rose-500/50 text-rose-300 hover:bg-rose-500/20"
+        >
+          <Bug size={9} /> Inject
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import React from 'react';
+import { History, Undo2, Redo2, Play, Pause, GitCompare } from 'lucide-react';
+import { HistoryState, PageDiff, HISTORY_LIMIT } from '../types';
+import { canRedo, canUndo } from '../services/history';
+
+interface Props {
+  history: HistoryState;
+  diffs: PageDiff[]; // Between the compared entry and the current one
+  compareIndex: number | null; // Entry the trees are diffed against; null when there is none before the current one
+  pinnedId: number | null; // Entry picked as the diff base, instead of the one before the current one
+  isReplaying: boolean;
+  onTravel: (index: number) => void;
+  onCompare: (entryId: number | null) => void; // null: always the entry before the current one
+  onToggleReplay: () => void;
+}
+
+// Pages allocated and freed by an operation, from the page counter and the page count
+const pageDelta = (history: HistoryState, index: number): string => {
+  if (index === 0) return '';
+  const before = history.entries[index - 1].state;
+  const after = history.entries[index].state;
+  const allocated = after.pageCounter - before.pageCounter;
+  const freed = allocated - (after.pages.length - before.pages.length);
+  return [allocated > 0 ? `+${allocated}pg` : '', freed > 0 ? `-${freed}pg` : ''].filter(Boolean).join(' ');
+};
+
+/**
+ * The timeline of operations: undo / redo, a scrubber over every kept engine state, a slow replay,
+ * and the pages the trees highlight as changed since the compared entry.
+ */
+export const HistoryPanel: React.FC<Props> = ({ history, diffs, compareIndex, pinnedId, isReplaying, onTravel, onCompare, onToggleReplay }) => {
+  const { entries, index } = history;
+  const added = diffs.filter(d => d.change === 'ADDED');
+  const changed = diffs.filter(d => d.change === 'CHANGED');
+  const removed = diffs.filter(d => d.change === 'REMOVED');
+  const rewired = diffs.filter(d => d.pointers.length > 0);
+
+  return (
+    <div className="bg-slate-900/95 backdrop-blur border border-slate-700 p-2 rounded-lg shadow-2xl space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-slate-300 font-bold text-[9px] uppercase flex items-center gap-1">
+          <History size={10} /> History
+        </h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onTravel(index - 1)}
+            disabled={!canUndo(history)}
+            title="Back to the state before the current operation"
+            className="p-0.5 rounded bg-slate-800 border border-slate-700 hover:bg-slate-700 text-slate-300 disabled:opacity-40"
+          >
+            <Undo2 size={10} />
+          </button>
+          <button
+            onClick={() => onTravel(index + 1)}
+            disabled={!canRedo(history)}
+            title="Forward to the next operation"
+            className="p-0.5 rounded bg-slate-800 border border-slate-700 hover:bg-slate-700 text-slate-300 disabled:opacity-40"
+          >
+            <Redo2 size={10} />
+          </button>
+          <button
+            onClick={onToggleReplay}
+            disabled={!isReplaying && !canRedo(history)}
+            title="Step forward through the following operations, one at a time"
+            className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[9px] border disabled:opacity-40 ${
+              isReplaying
+                ? 'bg-fuchsia-500/10 border-fuchsia-500/50 text-fuchsia-300'
+                : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-300'
+            }`}
+          >
+            {isReplaying ? <Pause size={9} /> : <Play size={9} />} Replay
+          </button>
+        </div>
+      </div>
+
+      {/* Scrubber: every kept state, the oldest on the left */}
+      <div className="flex items-center gap-1 text-[8px] font-mono text-slate-400">
+        <input
+          type="range"
+          min={0}
+          max={entries.length - 1}
+          value={index}
+          onChange={e => onTravel(Number(e.target.value))}
+          className="flex-1 accent-fuchsia-400"
+        />
+        <span className="w-10 text-right">{index}/{entries.length - 1}</span>
+      </div>
+
+      {/* Diff of the compared entry against the current one, also highlighted in the trees */}
+      <div className="p-1 rounded border border-slate-800 bg-slate-950/50 text-[8px] font-mono text-slate-400 space-y-px">
+        <div className="flex items-center gap-1">
+          <GitCompare size={9} className="text-fuchsia-300" />
+          {compareIndex === null ? (
+            <span className="text-slate-600 italic">Nothing to compare with yet.</span>
+          ) : (
+            <span className="truncate">
+              #{compareIndex} → #{index}: <span className="text-emerald-400">{added.length} new</span>, <span className="text-amber-300">{changed.length} changed</span>, <span className="text-red-400">{removed.length} freed</span> page(s)
+            </span>
+          )}
+        </div>
+        {rewired.length > 0 && (
+          <div title="Pages whose prev / next sibling link points elsewhere">
+            links: {rewired.map(d => `PG#${d.pageId} ${d.pointers.join('+')}`).join(', ')}
+          </div>
+        )}
+        {removed.length > 0 && (
+          <div className="text-red-400/80" title="Freed pages are no longer in the trees">
+            freed: {removed.map(d => `PG#${d.pageId} (${d.indexName})`).join(', ')}
+          </div>
+        )}
+      </div>
+
+      {/* Timeline, newest first: click an entry to go there, the compare icon pins it as the diff base */}
+      <div className="max-h-48 overflow-y-auto font-mono text-[8px] space-y-px">
+        {entries.map((entry, i) => ({ entry, i })).reverse().map(({ entry, i }) => {
+          const isPinned = entry.id === pinnedId;
+          return (
+            <div
+              key={entry.id}
+              onClick={() => onTravel(i)}
+              title={`${entry.label}\n${new Date(entry.timestamp).toLocaleTimeString()}`}
+              className={`flex items-center gap-1 px-1 rounded cursor-pointer truncate ${
+                i === index ? 'bg-fuchsia-500/15 text-fuchsia-200' : i > index ? 'text-slate-600 hover:bg-slate-800' : 'text-slate-400 hover:bg-slate-800'
+              }`}
+            >
+              <span className="w-5 shrink-0 text-right text-slate-600">{i}</span>
+              <span className="truncate">{entry.label}</span>
+              <span className="ml-auto shrink-0 text-orange-300">{pageDelta(history, i)}</span>
+              <button
+                onClick={e => { e.stopPropagation(); onCompare(isPinned ? null : entry.id); }}
+                title={isPinned ? 'Compared with the current state (click to compare with the previous entry again)' : 'Compare the current state with this one'}
+                className={`shrink-0 ${isPinned ? 'text-fuchsia-300' : 'text-slate-600 hover:text-slate-300'}`}
+              >
+                <GitCompare size={9} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      {entries[0].id > 0 && (
+        <div className="text-[8px] text-slate-600">Only the last {HISTORY_LIMIT} operations are kept.</div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React from 'react';
+import { BarChart3 } from 'lucide-react';
+import { IndexStats, PRIMARY_INDEX, MERGE_THRESHOLD } from '../types';
+
+interface Props {
+  stats: IndexStats[];
+}
+
+// Leaf page ids shown in key order before the list is cut short
+const LEAF_ORDER_LIMIT = 48;
+
+/**
+ * Per index numbers behind the colored fill bars of the pages: size and height, leaf fill,
+ * splits and merges since startup, records per leaf page, and how far the key order of the
+ * leaves strays from their order in the file.
+ */
+export const IndexStatsPanel: React.FC<Props> = ({ stats }) => (
+  <div className="bg-slate-900/95 backdrop-blur border border-slate-700 p-2 rounded-lg shadow-2xl space-y-2">
+    <h3 className="text-slate-300 font-bold text-[9px] uppercase flex items-center gap-1">
+      <BarChart3 size={10} /> Index Statistics
+    </h3>
+
+    {stats.map(index => {
+      const fragmentationPct = index.links > 0 ? (index.backwardLinks / index.links) * 100 : 0;
+      const mostPages = Math.max(1, ...index.recordsPerPage.map(bucket => bucket.pages));
+      const isUnderfilled = index.leafPages > 1 && index.minFillPct < MERGE_THRESHOLD;
+      return (
+        <div key={index.indexName} className="p-1 rounded border border-slate-800 bg-slate-950/50 font-mono text-[8px] text-slate-400 space-y-1">
+          <div className="flex justify-between">
+            <span className={`truncate font-bold ${index.indexName === PRIMARY_INDEX ? 'text-blue-300' : 'text-purple-300'}`}>{index.indexName}</span>
+            <span>
+              <span className="text-slate-200">{index.pages}</span> page(s), {index.leafPages} leaf, height <span className="text-slate-200">{index.height}</span>
+            </span>
+          </div>
+
+          {/* Leaf fill: record bytes against the usable bytes of the page */}
+          <div title="Record bytes of the leaf pages against their usable bytes (page size minus headers)">
+            <div className="h-1 rounded-full bg-slate-700 overflow-hidden">
+              <div className="h-full bg-cyan-400" style={{ width: `${Math.min(index.avgFillPct, 100)}%` }} />
+            </div>
+            <div className="flex justify-between mt-px">
+              <span>fill avg <span className="text-cyan-300">{index.avgFillPct.toFixed(1)}%</span></span>
+              <span title={`Emptiest leaf page; below MERGE_THRESHOLD (${MERGE_THRESHOLD}%) a delete merges or rebalances it`}>
+                min <span className={isUnderfilled ? 'text-orange-400' : 'text-slate-300'}>{index.minFillPct.toFixed(1)}%</span>
+              </span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-1">
+            <span title="Page splits since startup (index_page_splits)">splits: <span className="text-amber-300">{index.counters.splits}</span></span>
+            <span title="Page merges since startup (index_page_merge_successful)">merges: <span className="text-emerald-400">{index.counters.merges}</span></span>
+          </div>
+
+          {/* Records per leaf page */}
+          <div className="space-y-px" title="Leaf pages by number of records">
+            {index.recordsPerPage.map(bucket => (
+              <div key={bucket.min} className="flex items-center gap-1">
+                <span className="w-10 shrink-0 text-right text-slate-500">{bucket.min === bucket.max ? bucket.min : `${bucket.min}-${bucket.max}`} rec</span>
+                <div className="flex-1 h-1.5 bg-slate-800 rounded-sm overflow-hidden">
+                  <div className="h-full bg-cyan-600" style={{ width: `${(bucket.pages / mostPages) * 100}%` }} />
+                </div>
+                <span className="w-4 shrink-0 text-right text-slate-300">{bucket.pages}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* Logical (key) order vs physical (page id) order */}
+          <div title="Next pointers to a lower page id: a scan in key order jumps back in the file there">
+            backward links: <span className={index.backwardLinks > 0 ? 'text-orange-400' : 'text-slate-300'}>{index.backwardLinks}/{index.links}</span> ({fragmentationPct.toFixed(0)}%)
+          </div>
+          {index.leafOrder.length > 1 && (
+            <div className="flex flex-wrap gap-x-1 text-slate-500" title="Leaf pages in key order; orange ids come after a page with a higher id">
+              {index.leafOrder.slice(0, LEAF_ORDER_LIMIT).map((pageId, i) => (
+                <span key={pageId} className={i > 0 && pageId < index.leafOrder[i - 1] ? 'text-orange-400' : ''}>{pageId}</span>
+              ))}
+              {index.leafOrder.length > LEAF_ORDER_LIMIT && <span>…</span>}
+            </div>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,53 @@
+import React from 'react';
+import { AdaptiveHashEntry, BufferedChange, CheckViolation, PageData, PageDiff, RecordLock, PRIMARY_INDEX } from '../types';
+import { PageCard } from './PageCard';
+
+interface Props {
+  indexName: string;
+  label: string;
+  levels: PageData[][]; // Root level first, leaf level last. Each level in linked-list order.
+  showInternals?: boolean;
+  residentPageIds?: number[]; // Pages in the buffer pool; the rest are drawn as on disk only
+  showHiddenColumns?: boolean;
+  locks?: RecordLock[]; // Record locks on this index
+  bufferedChanges?: BufferedChange[]; // Change buffer entries for this index's leaf pages
+  hashEntries?: AdaptiveHashEntry[]; // Adaptive hash index entries for this index's leaf pages
+  pageDiffs?: PageDiff[]; // Changes since the state the history panel compares with
+  violations?: CheckViolation[]; // CHECK TABLE findings on this index's pages
+}
+
+export const IndexTree: React.FC<Props> = ({ indexName, label, levels, showInternals, residentPageIds, showHiddenColumns, locks, bufferedChanges = [], hashEntries = [], pageDiffs = [], violations = [] }) => {
+  const isPrimary = indexName === PRIMARY_INDEX;
+  const labelColor = isPrimary
+    ? 'bg-blue-900/30 border-blue-800 text-blue-300'
+    : 'bg-purple-900/30 border-purple-800 text-purple-300';
+
+  return (
+    <>
+      {/* Label */}
+      <div className="absolute top-2 left-4 flex items-center gap-2">
+        <span className={`px-1.5 py-0.5 rounded border text-[10px] font-bold uppercase tracking-wide ${labelColor}`}>
+          {label}
+        </span>
+        <span className="text-[9px] font-mono text-slate-500">height: {levels.length}</span>
+      </div>
+
+      {/* One row per B+Tree level, root on top */}
+      <div className="flex flex-col gap-2 pt-8 overflow-y-auto">
+        {levels.map(levelPages => {
+          const level = levelPages[0]?.level ?? 0;
+          return (
+            <div key={level} className="flex items-start">
+              <span className="w-8 shrink-0 pl-2 pt-1 text-[8px] font-mono text-slate-600">L{level}</span>
+              <div className={`flex items-start px-2 overflow-x-auto z-10 ${level === 0 ? 'pb-4 min-h-[120px]' : 'pb-1'}`}>
+                {levelPages.map((page, index) => (
+                  <PageCard key={page.id} page={page} isHead={index===0} isTail={index===levelPages.length-1} showInternals={showInternals} isResident={!residentPageIds || residentPageIds.includes(page.id)} showHiddenColumns={showHiddenColumns} locks={locks} bufferedChanges={bufferedChanges.filter(change => change.pageId === page.id)} hashEntries={hashEntries.filter(entry => entry.pageId === page.id)} diff={pageDiffs.find(d => d.pageId === page.id)} violations={violations.filter(v => v.pageId === page.id).map(v => v.message)} />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+};
@@ -1,25 +1,80 @@
-import React from 'react';
-import { PageData, PAGE_CAPACITY } from '../types';
-import { RecordRow } from './RecordRow';
-import { ArrowRight } from 'lucide-react';
+import React, { useState } from 'react';
+import { AdaptiveHashEntry, BufferedChange, PageData, PageDiff, RecordData, RecordLock, PRIMARY_INDEX } from '../types';
+import { RecordRow, LockBadge } from './RecordRow';
+import { isSameLockTarget, locksGap, toLockRecord } from '../services/locks';
+import { formatChangeOp } from '../services/changeBuffer';
+import { PageInternals, recordKeyLabel } from './PageInternals';
+import { ArrowRight, Hash, HardDrive, Microscope } from 'lucide-react';
 
 interface Props {
   page: PageData;
   isHead: boolean;
   isTail: boolean;
+  showInternals?: boolean; // Expand every page to its record list / heap / directory view
+  isResident?: boolean; // Held in a buffer pool frame; otherwise the page is only on disk
+  showHiddenColumns?: boolean; // Show DB_TRX_ID / DB_ROLL_PTR of clustered leaf records
+  locks?: RecordLock[]; // Record locks on this page's index (data_locks); drawn on leaf pages
+  bufferedChanges?: BufferedChange[]; // Change buffer entries waiting to be merged into this page
+  hashEntries?: AdaptiveHashEntry[]; // Adaptive hash index entries pointing into this page
+  diff?: PageDiff; // How the page changed since the state the history panel compares with
+  violations?: string[]; // What CHECK TABLE found wrong with the page
 }
 
-export const PageCard: React.FC<Props> = ({ page, isHead, isTail }) => {
-  const fillPercentage = (page.records.length / PAGE_CAPACITY) * 100;
-  const isFull = page.records.length >= PAGE_CAPACITY;
-  const isPrimary = page.indexType === 'PRIMARY';
+// The gap before a record (or before the supremum) with the locks that cover it
+const GapMarker: React.FC<{ locks: RecordLock[] }> = ({ locks }) => (
+  <div
+    className="flex items-center gap-0.5 mb-0.5 px-1 border-t border-dashed border-orange-500/60"
+    title="Locked gap: no other transaction can insert here"
+  >
+    <span className="text-[7px] text-orange-400/80 font-mono">gap</span>
+    {locks.map((lock, index) => <LockBadge key={index} lock={lock} />)}
+  </div>
+);
+
+// A change buffered for the page: it only reaches the records when the page is merged
+const BufferedChangeRow: React.FC<{ page: PageData, change: BufferedChange }> = ({ page, change }) => {
+  const color = change.op === 'INSERT' ? 'text-emerald-300' : change.op === 'DELETE_MARK' ? 'text-amber-300' : 'text-red-300';
+  return (
+    <div
+      className="flex items-center justify-between gap-1 px-1.5 py-px mb-0.5 rounded border border-dashed border-emerald-700/60 text-[8px] font-mono"
+      title={`Change buffer entry #${change.seq}: merged into the page the next time it is read`}
+    >
+      <span className={color}>{formatChangeOp(change.op)}</span>
+      <span className="text-slate-400 truncate">{recordKeyLabel(page, change.entry)}</span>
+    </div>
+  );
+};
+
+export const PageCard: React.FC<Props> = ({ page, isHead, isTail, showInternals, isResident = true, showHiddenColumns, locks = [], bufferedChanges = [], hashEntries = [], diff, violations = [] }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  // A directory search in progress always shows the slots being probed
+  const isInternalsVisible = showInternals || isExpanded || page.highlightedSlot !== undefined;
+  const fillPercentage = (page.usedBytes / (page.usedBytes + page.freeBytes)) * 100;
+  const isFull = fillPercentage >= 90;
+  const isPrimary = page.indexName === PRIMARY_INDEX;
+  const isLeaf = page.level === 0;
+  const directionLabel = page.direction === 'RIGHT' ? '→' : page.direction === 'LEFT' ? '←' : '·';
+  const lastInsertLabel = page.lastInsert === null ? '-' : recordKeyLabel(page, page.lastInsert);
+  // Locks are on index keys, so they follow a record across splits and merges
+  const locksOn = (record: RecordData | null) => isLeaf
+    ? locks.filter(l => isSameLockTarget(l, { indexName: page.indexName, record: record && toLockRecord(page.indexName, record) }))
+    : [];
+  const supremumLocks = page.nextPageId === null ? locksOn(null) : [];
 
   // Theme Colors
-  const borderColor = page.isHighlighted 
+  const borderColor = page.isCorrupted || violations.length > 0
+    ? 'border-red-600 ring-2 ring-red-600/60'
+    : page.isHighlighted 
     ? 'border-yellow-400 ring-2 ring-yellow-400/50' 
     : page.isSplitting 
         ? 'border-red-500 ring-2 ring-red-500/50 animate-pulse' 
-        : isPrimary ? 'border-blue-800' : 'border-purple-800';
+        : page.isMerging
+            ? 'border-cyan-400 ring-2 ring-cyan-400/50 animate-pulse'
+            : page.isIbufMerged
+                ? 'border-emerald-400 ring-2 ring-emerald-400/50'
+                : diff
+                    ? diff.change === 'ADDED' ? 'border-fuchsia-400 border-dashed ring-1 ring-fuchsia-400/50' : 'border-fuchsia-400/70'
+                    : isPrimary ? 'border-blue-800' : 'border-purple-800';
         
   const bgColor = page.isHighlighted ? 'bg-slate-800' : 'bg-slate-900';
   const headerColor = isPrimary ? 'bg-blue-900/30 text-blue-200' : 'bg-purple-900/30 text-purple-200';
@@ -27,46 +82,106 @@ export const PageCard: React.FC<Props> = ({ page, isHead, isTail }) => {
   return (
     <div className="flex items-center">
       <div className={`
-        relative flex flex-col w-36 border rounded-md shadow-lg transition-all duration-500
+        relative flex flex-col ${isInternalsVisible ? 'w-56' : 'w-36'} border rounded-md shadow-lg transition-all duration-500
         ${borderColor} ${bgColor}
-        ${page.isDirty ? 'scale-105' : ''}
-      `}>
+        ${isResident ? '' : 'opacity-40'}
+      `} title={isResident ? undefined : 'Not in the buffer pool: the next access reads it from disk'}>
         
         {/* Mini Header */}
         <div className={`
           px-2 py-1 rounded-t-[5px] flex items-center justify-between border-b border-slate-800
           ${headerColor}
         `}>
-          <span className="font-bold text-[9px] font-mono">
+          <span className="font-bold text-[9px] font-mono flex items-center gap-1">
              PG#{page.id}
+             {!isLeaf && <span className="font-normal opacity-60">non-leaf</span>}
+             {page.isDirty && <span className="w-1.5 h-1.5 rounded-full bg-amber-400" title="Dirty: modified in the buffer pool, not flushed to disk yet" />}
+             {!isResident && <span className="text-slate-400" title="Not cached: only on disk"><HardDrive size={9} /></span>}
+             {page.isCorrupted && <span className="font-normal text-red-400" title="Torn page: its checksum does not match its content and no doublewrite copy was found">corrupted</span>}
+             {violations.length > 0 && <span className="font-normal text-red-400" title={`CHECK TABLE:\n${violations.join('\n')}`}>✗{violations.length}</span>}
+             {hashEntries.length > 0 && (
+               <span
+                 className="flex items-center text-violet-300 font-normal"
+                 title={`Hashed by the adaptive hash index: ${hashEntries.map(entry => `(${entry.prefix.join(', ')}) -> ${entry.recordId}`).join(', ')}`}
+               >
+                 <Hash size={9} />{hashEntries.length}
+               </span>
+             )}
+             {diff && (
+               <span
+                 className="text-fuchsia-300 font-normal"
+                 title={diff.change === 'ADDED'
+                   ? 'Allocated since the compared state'
+                   : `Since the compared state: ${diff.addedRecords.length} record(s) added, ${diff.changedRecords.length} changed, ${diff.removedRecords.length} removed${diff.pointers.length > 0 ? `, ${diff.pointers.join(' and ')} link rewired` : ''}`}
+               >
+                 {diff.change === 'ADDED' ? 'new' : `Δ${diff.addedRecords.length + diff.changedRecords.length + diff.removedRecords.length}`}
+               </span>
+             )}
+             <button
+               onClick={() => setIsExpanded(prev => !prev)}
+               className={`${isInternalsVisible ? 'text-yellow-300' : 'opacity-50 hover:opacity-100'}`}
+               title="Page internals: record list, heap and page directory"
+             >
+               <Microscope size={9} />
+             </button>
           </span>
-          <div className="flex gap-0.5">
-             {[...Array(PAGE_CAPACITY)].map((_, i) => (
-                 <div key={i} className={`w-1 h-1 rounded-full ${i < page.records.length ? (isFull ? 'bg-orange-400' : 'bg-emerald-400') : 'bg-slate-700'}`} />
-             ))}
+          <div className="w-10 h-1 rounded-full bg-slate-700 overflow-hidden" title={`${Math.round(fillPercentage)}% full`}>
+             <div className={`h-full ${isFull ? 'bg-orange-400' : 'bg-emerald-400'}`} style={{ width: `${Math.min(fillPercentage, 100)}%` }} />
           </div>
         </div>
 
         {/* Records Container */}
-        <div className="p-1 flex-1 flex flex-col min-h-[80px] bg-slate-950/30">
+        <div className={`p-1 flex-1 flex flex-col bg-slate-950/30 ${isLeaf ? 'min-h-[80px]' : ''}`}>
           {page.records.length === 0 ? (
               <div className="flex-1 flex items-center justify-center text-slate-700 text-[8px] italic">
                   Empty
               </div>
           ) : (
-              page.records.map(record => (
-                  <RecordRow 
-                    key={`${page.id}-${record.id}`} 
-                    record={record} 
-                    isSecondary={!isPrimary}
-                  />
-              ))
+              page.records.map(record => {
+                  const recordLocks = locksOn(record);
+                  const gapLocks = recordLocks.filter(locksGap);
+                  return (
+                    <React.Fragment key={`${page.id}-${record.id}`}>
+                      {gapLocks.length > 0 && <GapMarker locks={gapLocks} />}
+                      <RecordRow 
+                        record={record} 
+                        isSecondary={!isPrimary}
+                        showHiddenColumns={showHiddenColumns && isPrimary && isLeaf}
+                        locks={recordLocks}
+                        diff={diff?.addedRecords.includes(record.id) ? 'ADDED' : diff?.changedRecords.includes(record.id) ? 'CHANGED' : undefined}
+                      />
+                    </React.Fragment>
+                  );
+              })
+          )}
+          {supremumLocks.length > 0 && (
+              <>
+                  <GapMarker locks={supremumLocks} />
+                  <div className="px-1.5 text-[7px] font-mono text-slate-600" title="Supremum pseudo-record: a lock on it locks the gap after the last record">supremum</div>
+              </>
           )}
+          {bufferedChanges.length > 0 && (
+              <div className="mt-1 pt-1 border-t border-slate-800">
+                  <div className="px-1 mb-0.5 text-[7px] uppercase tracking-wide text-emerald-500/80">change buffer</div>
+                  {bufferedChanges.map(change => <BufferedChangeRow key={change.seq} page={page} change={change} />)}
+              </div>
+          )}
+        </div>
+
+        {isInternalsVisible && <PageInternals page={page} />}
+
+        {/* Insert metadata (PAGE_LAST_INSERT / PAGE_DIRECTION / PAGE_N_DIRECTION) */}
+        <div
+          className="px-2 py-0.5 bg-slate-950 border-t border-slate-800 text-[7px] text-slate-500 font-mono truncate"
+          title="Last insert, insert direction and number of consecutive inserts in that direction, page LSN"
+        >
+          last:{lastInsertLabel} dir:{directionLabel}{page.nDirection > 0 ? `×${page.nDirection}` : ''} lsn:{page.lsn}
         </div>
 
         {/* Mini Footer */}
         <div className="px-2 py-0.5 bg-slate-950 rounded-b-[5px] border-t border-slate-800 flex justify-between items-center">
-             <span className="text-[7px] text-slate-600 font-mono">PTR:{page.nextPageId ?? 'NIL'}</span>
+             <span className={`text-[7px] font-mono ${diff?.pointers.includes('next') ? 'text-fuchsia-300' : 'text-slate-600'}`}>PTR:{page.nextPageId ?? 'NIL'}</span>
+             <span className="text-[7px] text-slate-600 font-mono">{page.usedBytes}B used · {page.freeBytes}B free</span>
         </div>
       </div>
 
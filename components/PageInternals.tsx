@@ -0,0 +1,87 @@
+import React from 'react';
+import { PageData, RecordData, PRIMARY_INDEX, PAGE_HEAP_NO_INFIMUM, PAGE_HEAP_NO_SUPREMUM } from '../types';
+
+interface Props {
+  page: PageData;
+}
+
+// Short key of a record: the PK on the clustered index, key columns + PK on a secondary index
+export const recordKeyLabel = (page: PageData, record: RecordData): string =>
+  page.indexName === PRIMARY_INDEX ? `${record.id}` : [...Object.values(record.values), record.id].join('/');
+
+/**
+ * The page as InnoDB lays it out: the record list in key order between the infimum and supremum,
+ * the heap in insertion order (with freed space), and the page directory slots over the record list.
+ */
+export const PageInternals: React.FC<Props> = ({ page }) => {
+  const { directory, highlightedSlot } = page;
+
+  // Full record list: infimum, user records, supremum. Each position belongs to exactly one slot.
+  const list = ['INF', ...page.records.map(r => recordKeyLabel(page, r)), 'SUP'];
+  const slotOf: number[] = directory.flatMap((nOwned, slot) => Array<number>(nOwned).fill(slot));
+  const isOwner = (position: number) => slotOf[position + 1] !== slotOf[position];
+
+  // Heap in physical order: what sits at every heap number handed out since the page was last reorganized
+  const byHeapNo = new Map<number, string>(page.records.map(r => [r.heapNo!, recordKeyLabel(page, r)]));
+  const heap = Array.from({ length: page.heapTop }, (_, heapNo) =>
+    heapNo === PAGE_HEAP_NO_INFIMUM ? 'INF' : heapNo === PAGE_HEAP_NO_SUPREMUM ? 'SUP' : byHeapNo.get(heapNo) ?? null
+  );
+
+  return (
+    <div className="px-1.5 py-1 bg-slate-950 border-t border-slate-800 text-[7px] font-mono space-y-1">
+      {/* Record list (next-record pointers, key order) */}
+      <div>
+        <div className="text-slate-600 uppercase tracking-wider">Record list (key order)</div>
+        <div className="flex flex-wrap items-center gap-x-0.5">
+          {list.map((label, position) => (
+            <React.Fragment key={position}>
+              {position > 0 && <span className="text-slate-700">→</span>}
+              <span
+                className={`px-0.5 rounded ${slotOf[position] === highlightedSlot ? 'bg-yellow-500/30 text-yellow-200' : 'text-slate-400'} ${isOwner(position) ? 'underline decoration-emerald-500' : ''}`}
+                title={isOwner(position) ? `Owner of slot ${slotOf[position]} (n_owned ${directory[slotOf[position]]})` : `In slot ${slotOf[position]}`}
+              >
+                {label}
+                {isOwner(position) && <sup className="text-emerald-500">{directory[slotOf[position]]}</sup>}
+              </span>
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+
+      {/* Heap (physical order = insertion order, until the page is reorganized) */}
+      <div>
+        <div className="text-slate-600 uppercase tracking-wider">Heap (insertion order)</div>
+        <div className="flex flex-wrap gap-0.5">
+          {heap.map((label, heapNo) => (
+            <span
+              key={heapNo}
+              className={`px-0.5 rounded border-[0.5px] ${label === null ? 'border-slate-800 text-slate-700 line-through' : 'border-slate-700 text-slate-400'}`}
+              title={label === null ? `Heap #${heapNo}: deleted, on the free list` : `Heap #${heapNo}`}
+            >
+              {label ?? 'free'}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Page directory: one slot per group, holding its owner record */}
+      <div>
+        <div className="text-slate-600 uppercase tracking-wider">Directory ({directory.length} slots)</div>
+        <div className="flex flex-wrap gap-0.5">
+          {directory.map((nOwned, slot) => {
+            const ownerPosition = directory.slice(0, slot + 1).reduce((sum, n) => sum + n, 0) - 1;
+            return (
+              <span
+                key={slot}
+                className={`px-0.5 rounded border-[0.5px] ${slot === highlightedSlot ? 'border-yellow-400 bg-yellow-500/30 text-yellow-200' : 'border-emerald-900 text-emerald-400/80'}`}
+                title={`Slot ${slot}: owns ${nOwned} record(s)`}
+              >
+                {slot}:{list[ownerPosition]}
+              </span>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
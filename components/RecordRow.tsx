@@ -1,12 +1,26 @@
 import React, { useEffect, useState } from 'react';
-import { RecordData } from '../types';
+import { RecordData, RecordLock } from '../types';
+import { formatLockMode, locksRecord } from '../services/locks';
 
 interface Props {
   record: RecordData;
   isSecondary?: boolean;
+  showHiddenColumns?: boolean; // Clustered leaf records: DB_TRX_ID and DB_ROLL_PTR
+  locks?: RecordLock[]; // Locks on this record; only the ones that cover the record itself get a badge
+  diff?: 'ADDED' | 'CHANGED'; // Inserted or modified since the state the history panel compares with
 }
 
-export const RecordRow: React.FC<Props> = ({ record, isSecondary }) => {
+// A lock as a small badge: the owning session and the lock mode, dashed while it is still waiting
+export const LockBadge: React.FC<{ lock: RecordLock }> = ({ lock }) => (
+  <span
+    className={`px-0.5 rounded border text-[7px] leading-none ${lock.mode === 'X' ? 'border-red-700 text-red-300' : 'border-sky-700 text-sky-300'} ${lock.granted ? '' : 'border-dashed opacity-60'}`}
+    title={`Session ${lock.sessionId}: ${formatLockMode(lock)} ${lock.granted ? 'granted' : 'waiting'}`}
+  >
+    S{lock.sessionId}:{lock.mode}
+  </span>
+);
+
+export const RecordRow: React.FC<Props> = ({ record, isSecondary, showHiddenColumns, locks = [], diff }) => {
   const [highlight, setHighlight] = useState(false);
 
   useEffect(() => {
@@ -18,6 +32,14 @@ export const RecordRow: React.FC<Props> = ({ record, isSecondary }) => {
   }, [record.isNew]);
 
   const isActive = highlight || record.isHighlighted;
+  const isNodePointer = record.childPageId !== undefined;
+  const columnText = Object.values(record.values).join(', ');
+  const hasHiddenColumns = showHiddenColumns && record.trxId !== undefined;
+  const recordLocks = locks.filter(locksRecord);
+  const title = [
+    record.isDeleteMarked ? 'Delete-marked: waiting for purge' : null,
+    hasHiddenColumns ? `DB_TRX_ID ${record.trxId}, DB_ROLL_PTR ${record.rollPtr === undefined ? 'none' : `undo record #${record.rollPtr}`}` : null,
+  ].filter(Boolean).join('\n') || undefined;
 
   return (
     <div className={`
@@ -25,24 +47,33 @@ export const RecordRow: React.FC<Props> = ({ record, isSecondary }) => {
       ${isActive
         ? 'bg-yellow-500/30 border-yellow-500 text-yellow-200 font-bold scale-105 z-10' 
         : 'bg-slate-800/40 border-slate-700/50 text-slate-400 hover:bg-slate-700/50'}
-    `}>
+      ${record.isDeleteMarked ? 'line-through opacity-40' : ''}
+      ${diff === 'ADDED' ? 'border-l-2 border-l-emerald-400' : diff === 'CHANGED' ? 'border-l-2 border-l-amber-400' : ''}
+    `} title={title}>
       <div className="flex items-center gap-1 min-w-0">
         {isSecondary ? (
-             // Secondary: Show Value first, then PK
+             // Secondary: Show the key columns first, then PK
              <>
-                <span className={`truncate max-w-[50px] ${isActive ? "text-yellow-200" : "text-purple-300"}`}>{record.value}</span>
+                <span className={`truncate max-w-[60px] ${isActive ? "text-yellow-200" : "text-purple-300"}`} title={columnText}>{columnText}</span>
              </>
         ) : (
              // Primary: Show PK
              <span className={isActive ? "text-yellow-200" : "text-blue-300"}>{record.id}</span>
         )}
+        {hasHiddenColumns && (
+             <span className="text-[7px] text-amber-500/80">t{record.trxId}·r{record.rollPtr ?? '-'}</span>
+        )}
+        {recordLocks.map((lock, index) => <LockBadge key={index} lock={lock} />)}
       </div>
       
       <div className="flex items-center gap-1 border-l border-slate-700/50 pl-1.5 ml-1">
-         {isSecondary ? (
+         {isNodePointer ? (
+            // Non-leaf: key + child page number
+            <span className="text-[8px] text-slate-500">&rarr;<span className="text-emerald-400">PG#{record.childPageId}</span></span>
+         ) : isSecondary ? (
             <span className="text-[8px] text-slate-500">id:<span className="text-blue-400">{record.id}</span></span>
          ) : (
-            <span className="truncate max-w-[50px] text-[8px] text-slate-500">{record.value}</span>
+            <span className="truncate max-w-[60px] text-[8px] text-slate-500" title={columnText}>{columnText}</span>
          )}
       </div>
     </div>
@@ -0,0 +1,109 @@
+import React from 'react';
+import { ScrollText, Save, Zap, Copy } from 'lucide-react';
+import { EngineState, REDO_LOG_CAPACITY } from '../types';
+
+interface Props {
+  engine: EngineState;
+  onCheckpoint: () => void;
+  onCrash: () => void;
+  onTornWrite: () => void;
+  onToggleDoublewrite: (enabled: boolean) => void;
+}
+
+// Newest records shown in the panel
+const VISIBLE_RECORDS = 40;
+
+/**
+ * The write-ahead log: the current LSN, the checkpoint recovery would start from,
+ * and the redo records written since then (newest first). Below it, the doublewrite
+ * buffer that protects the flushes against torn pages.
+ */
+export const RedoLogPanel: React.FC<Props> = ({ engine, onCheckpoint, onCrash, onTornWrite, onToggleDoublewrite }) => {
+  const { redoLog, lsn, checkpointLsn, doublewrite } = engine;
+  const used = (redoLog.length / REDO_LOG_CAPACITY) * 100;
+  const dirty = engine.pages.filter(p => p.isDirty).length;
+
+  return (
+    <div className="bg-slate-900/95 backdrop-blur border border-slate-700 p-2 rounded-lg shadow-2xl space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-slate-300 font-bold text-[9px] uppercase flex items-center gap-1">
+          <ScrollText size={10} /> Redo Log
+        </h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onCheckpoint}
+            title="Flush every dirty page and move the checkpoint to the current LSN"
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[9px] bg-slate-800 border border-slate-700 hover:bg-slate-700 text-slate-300"
+          >
+            <Save size={9} /> Checkpoint
+          </button>
+          <button
+            onClick={onCrash}
+            title="Lose the buffer pool (all unflushed changes), then replay the redo log"
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[9px] bg-red-900/40 border border-red-800 hover:bg-red-800/60 text-red-200"
+          >
+            <Zap size={9} /> Crash
+          </button>
+          <button
+            onClick={onTornWrite}
+            title="Crash in the middle of a flush: one page is only half written, then recovery runs"
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[9px] bg-red-900/40 border border-red-800 hover:bg-red-800/60 text-red-200"
+          >
+            <Zap size={9} /> Torn write
+          </button>
+        </div>
+      </div>
+
+      {/* LSNs */}
+      <div className="grid grid-cols-3 gap-1 text-[8px] font-mono text-slate-400">
+        <span title="LSN of the latest redo record">LSN: <span className="text-slate-200">{lsn}</span></span>
+        <span title="Recovery replays the redo after this LSN">checkpoint: <span className="text-emerald-400">{checkpointLsn}</span></span>
+        <span title="Pages whose changes only exist in memory and in the redo log">dirty: <span className="text-amber-400">{dirty}</span></span>
+      </div>
+      <div title={`${redoLog.length}/${REDO_LOG_CAPACITY} records since the checkpoint; a full log forces a checkpoint`}>
+        <div className="h-1 rounded-full bg-slate-700 overflow-hidden">
+          <div className={`h-full ${used >= 80 ? 'bg-orange-400' : 'bg-emerald-400'}`} style={{ width: `${Math.min(used, 100)}%` }} />
+        </div>
+      </div>
+
+      {/* Doublewrite buffer: every flush batch is written here first, so a torn page can be restored */}
+      <div className="flex items-center justify-between text-[8px] font-mono text-slate-400">
+        <button
+          onClick={() => onToggleDoublewrite(!doublewrite.enabled)}
+          title="innodb_doublewrite: without it a page torn by a crash cannot be repaired"
+          className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[9px] border ${
+            doublewrite.enabled
+              ? 'bg-sky-500/10 border-sky-500/50 text-sky-300'
+              : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-400'
+          }`}
+        >
+          <Copy size={9} /> Doublewrite {doublewrite.enabled ? 'ON' : 'OFF'}
+        </button>
+        <span title="Pages copied to the doublewrite buffer, and the flush batches they came in">
+          dblwr: <span className="text-slate-200">{doublewrite.pagesWritten}</span> pages / <span className="text-slate-200">{doublewrite.batches}</span> batches
+        </span>
+      </div>
+
+      {/* Records since the checkpoint, newest first */}
+      <div className="max-h-48 overflow-y-auto font-mono text-[8px] space-y-px">
+        {redoLog.length === 0 ? (
+          <div className="text-slate-600 italic">Empty: every change is on disk.</div>
+        ) : (
+          [...redoLog].reverse().slice(0, VISIBLE_RECORDS).map(record => (
+            <div key={record.lsn} className="flex gap-1 text-slate-400 truncate" title={record.message}>
+              <span className="text-slate-600 w-8 shrink-0 text-right">{record.lsn}</span>
+              <span className={record.type === 'PAGE_FREE' ? 'text-red-400' : record.type.startsWith('REC_') ? 'text-sky-400' : 'text-orange-300'}>
+                {record.type}
+              </span>
+              <span className="text-slate-500">PG#{record.pageId}</span>
+              <span className="truncate">{record.message}</span>
+            </div>
+          ))
+        )}
+        {redoLog.length > VISIBLE_RECORDS && (
+          <div className="text-slate-600">... {redoLog.length - VISIBLE_RECORDS} older record(s)</div>
+        )}
+      </div>
+    </div>
+  );
+};
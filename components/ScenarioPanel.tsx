@@ -0,0 +1,119 @@
+import React, { useRef } from 'react';
+import { ListChecks, StepForward, Play, Pause, FastForward, RotateCcw, Upload } from 'lucide-react';
+import { ScenarioRun } from '../types';
+import { countFailures, isScenarioDone } from '../services/scenario';
+import { BUNDLED_SCENARIOS } from '../scenarios';
+
+interface Props {
+  script: string;
+  run: ScenarioRun | null; // Null until the first step, and again after the script is edited
+  error: string | null; // Why the script does not parse
+  isPlaying: boolean;
+  onScriptChange: (script: string) => void;
+  onStep: () => void;
+  onTogglePlay: () => void;
+  onRunAll: () => void;
+  onRestart: () => void;
+}
+
+/**
+ * A lesson script played on the trees: one statement or assertion per step, or all at once.
+ * Each step shows whether it passed; a failed assertion says what the engine holds instead.
+ */
+export const ScenarioPanel: React.FC<Props> = ({ script, run, error, isPlaying, onScriptChange, onStep, onTogglePlay, onRunAll, onRestart }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const done = run !== null && isScenarioDone(run);
+  const failures = run ? countFailures(run) : 0;
+  const buttonClass = 'flex items-center justify-center gap-1 px-1.5 py-0.5 rounded text-[9px] bg-slate-800 border border-slate-700 hover:bg-slate-700 text-slate-300 disabled:opacity-40';
+
+  return (
+    <div className="bg-slate-900/95 backdrop-blur border border-slate-700 p-2 rounded-lg shadow-2xl space-y-2">
+      <h3 className="text-slate-300 font-bold text-[9px] uppercase flex items-center gap-1">
+        <ListChecks size={10} /> Scenario
+      </h3>
+
+      <div className="flex items-center gap-1">
+        <select
+          value=""
+          onChange={e => {
+            const bundled = BUNDLED_SCENARIOS.find(s => s.name === e.target.value);
+            if (bundled) onScriptChange(bundled.script);
+          }}
+          title="Load a scenario shipped with the visualizer"
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[9px] text-slate-300 focus:outline-none"
+        >
+          <option value="" disabled>Load a lesson…</option>
+          {BUNDLED_SCENARIOS.map(s => <option key={s.name} value={s.name}>{s.name}</option>)}
+        </select>
+        <button onClick={() => fileInputRef.current?.click()} title="Load a .scenario file" className={buttonClass}>
+          <Upload size={9} /> File
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".scenario,.txt,text/plain"
+          className="hidden"
+          onChange={async e => {
+            const file = e.target.files?.[0];
+            e.target.value = ''; // Picking the same file again still loads it
+            if (file) onScriptChange(await file.text());
+          }}
+        />
+      </div>
+
+      <textarea
+        value={script}
+        onChange={e => onScriptChange(e.target.value)}
+        spellCheck={false}
+        rows={8}
+        placeholder={'# Title\nRESET PAGE_SIZE 256\nINSERT INTO t VALUES (1, \'Alice\', 30, \'Paris\')\nEXPECT PAGE 1 IDS 1'}
+        className="w-full bg-slate-950 border border-slate-700 rounded p-1 font-mono text-[8px] text-slate-300 placeholder:text-slate-700 focus:outline-none resize-y"
+      />
+
+      <div className="grid grid-cols-4 gap-1">
+        <button onClick={onStep} disabled={done || isPlaying} title="Run the next statement or assertion (the first step starts on a fresh engine)" className={buttonClass}>
+          <StepForward size={9} /> Step
+        </button>
+        <button onClick={onTogglePlay} disabled={done} title="Step on its own, letting each statement's animation finish" className={buttonClass}>
+          {isPlaying ? <Pause size={9} /> : <Play size={9} />} {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <button onClick={onRunAll} disabled={done || isPlaying} title="Run the remaining steps at once" className={buttonClass}>
+          <FastForward size={9} /> All
+        </button>
+        <button onClick={onRestart} disabled={run === null} title="Forget the results; the next step starts over" className={buttonClass}>
+          <RotateCcw size={9} /> Restart
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-1 rounded border border-red-800 bg-red-950/40 text-red-300 text-[8px] font-mono break-words">{error}</div>
+      )}
+
+      {run && (
+        <>
+          <div className={`p-1 rounded border font-mono text-[8px] ${
+            failures > 0 ? 'border-red-800 bg-red-950/40 text-red-300' : 'border-emerald-800/60 bg-emerald-950/20 text-emerald-300'
+          }`}>
+            {run.scenario.title}: step {run.results.length}/{run.scenario.steps.length}
+            {failures > 0 ? `, ${failures} failed` : done ? ', all passed' : ''}
+          </div>
+
+          {/* Every step so far, with what a failed one found instead */}
+          <div className="max-h-40 overflow-y-auto font-mono text-[8px] space-y-px">
+            {run.results.map(({ step, passed, message }, i) => (
+              <div key={i} className={`break-words ${passed ? (step.kind === 'EXPECT' ? 'text-emerald-400/80' : 'text-slate-400') : 'text-red-300'}`}>
+                <span className="text-slate-600">{step.line}</span> {passed ? '✓' : '✗'} {step.kind === 'SQL' && step.sessionId !== 1 ? `@${step.sessionId} ` : ''}{step.text}
+                {!passed && message && <div className="pl-3 text-red-400/90">{message}</div>}
+              </div>
+            ))}
+            {!done && (
+              <div className="text-slate-600 break-words">
+                <span>{run.scenario.steps[run.results.length].line}</span> ▸ {run.scenario.steps[run.results.length].text}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
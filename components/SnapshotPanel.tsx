@@ -0,0 +1,88 @@
+import React, { useRef } from 'react';
+import { Archive, Download, Upload, Link } from 'lucide-react';
+import { EngineState, SnapshotStatus } from '../types';
+
+interface Props {
+  engine: EngineState;
+  autosave: boolean;
+  status: SnapshotStatus | null; // Outcome of the last export, import, link or autosave
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onCopyLink: () => void;
+  onToggleAutosave: (enabled: boolean) => void;
+}
+
+/**
+ * Saving and loading the whole engine: a JSON file, a link carrying the state in its URL hash,
+ * and the autosave that brings the last session back after a page refresh.
+ */
+export const SnapshotPanel: React.FC<Props> = ({ engine, autosave, status, onExport, onImport, onCopyLink, onToggleAutosave }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="bg-slate-900/95 backdrop-blur border border-slate-700 p-2 rounded-lg shadow-2xl space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-slate-300 font-bold text-[9px] uppercase flex items-center gap-1">
+          <Archive size={10} /> Snapshots
+        </h3>
+        <button
+          onClick={() => onToggleAutosave(!autosave)}
+          title="Save the engine in this browser after every change and restore it on the next visit"
+          className={`px-1.5 py-0.5 rounded text-[9px] border ${
+            autosave
+              ? 'bg-lime-500/10 border-lime-500/50 text-lime-300'
+              : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-400'
+          }`}
+        >
+          Autosave {autosave ? 'ON' : 'OFF'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-1">
+        <button
+          onClick={onExport}
+          title="Download the engine state as a JSON file"
+          className="flex items-center justify-center gap-1 px-1.5 py-0.5 rounded text-[9px] bg-slate-800 border border-slate-700 hover:bg-slate-700 text-slate-300"
+        >
+          <Download size={9} /> Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          title="Replace the engine with a JSON snapshot (undo it from the History panel)"
+          className="flex items-center justify-center gap-1 px-1.5 py-0.5 rounded text-[9px] bg-slate-800 border border-slate-700 hover:bg-slate-700 text-slate-300"
+        >
+          <Upload size={9} /> Import
+        </button>
+        <button
+          onClick={onCopyLink}
+          title="Copy a link that opens the visualizer in exactly this state"
+          className="flex items-center justify-center gap-1 px-1.5 py-0.5 rounded text-[9px] bg-slate-800 border border-slate-700 hover:bg-slate-700 text-slate-300"
+        >
+          <Link size={9} /> Copy link
+        </button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = ''; // Picking the same file again still loads it
+        }}
+      />
+
+      <div className="text-[8px] font-mono text-slate-500">
+        {engine.schema.name}: {engine.pages.length} pages, {engine.pageSize}B each, LSN {engine.lsn}
+      </div>
+      {status && (
+        <div className={`p-1 rounded border text-[8px] font-mono break-words ${
+          status.type === 'error' ? 'border-red-800 bg-red-950/40 text-red-300' : 'border-lime-800/60 bg-lime-950/20 text-lime-300'
+        }`}>
+          {status.message}
+        </div>
+      )}
+    </div>
+  );
+};
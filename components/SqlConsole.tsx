@@ -0,0 +1,112 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChevronRight, Code } from 'lucide-react';
+import { Session } from '../types';
+
+interface HistoryEntry {
+  id: number;
+  sql: string;
+  sessionId: number;
+  output: string[];
+  error?: string;
+}
+
+interface Props {
+  onExecute: (sql: string) => { output: string[], error?: string };
+  sessions: Session[];
+  activeSessionId: number; // Connection the statements run in
+  onSessionChange: (sessionId: number) => void;
+}
+
+export const SqlConsole: React.FC<Props> = ({ onExecute, sessions, activeSessionId, onSessionChange }) => {
+  const [input, setInput] = useState('');
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [recallIndex, setRecallIndex] = useState<number | null>(null);
+  const outputRef = useRef<HTMLDivElement>(null);
+
+  // Auto-scroll to the latest statement
+  useEffect(() => {
+    if (outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight;
+    }
+  }, [history]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const sql = input.trim();
+    if (!sql) return;
+
+    const result = onExecute(sql);
+    setHistory(prev => [...prev.slice(-49), { id: Date.now(), sql, sessionId: activeSessionId, ...result }]);
+    setInput('');
+    setRecallIndex(null);
+  };
+
+  // Up/Down arrows walk through previously executed statements
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (history.length === 0 || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
+    e.preventDefault();
+
+    const current = recallIndex ?? history.length;
+    const next = e.key === 'ArrowUp' ? Math.max(0, current - 1) : current + 1;
+    if (next >= history.length) {
+      setRecallIndex(null);
+      setInput('');
+    } else {
+      setRecallIndex(next);
+      setInput(history[next].sql);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-w-0 border-r border-slate-800">
+      <div className="h-5 bg-slate-900 border-b border-slate-800 px-4 flex items-center gap-2">
+        <Code size={10} className="text-slate-500" />
+        <span className="text-[9px] font-medium text-slate-400 uppercase tracking-wider">SQL Console</span>
+        <select
+          value={activeSessionId}
+          onChange={e => onSessionChange(Number(e.target.value))}
+          title="Client session the statements run in"
+          className="ml-auto bg-slate-800 border border-slate-700 rounded px-1 text-[9px] text-sky-300 focus:outline-none"
+        >
+          {sessions.map(session => (
+            <option key={session.id} value={session.id}>
+              Session {session.id}{session.pending ? ' (waiting for a lock)' : session.inTransaction ? ' (in transaction)' : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div ref={outputRef} className="flex-1 overflow-y-auto p-2 font-mono text-[9px] space-y-1">
+        {history.length === 0 && (
+          <div className="text-slate-600 italic">
+            Try: INSERT INTO t VALUES (1, 'Alice', 30, 'Paris'); CREATE INDEX idx_age ON t (age) ALGORITHM=COPY; EXPLAIN SELECT id FROM t WHERE city = 'Paris' AND age &gt; 25; BEGIN in one session, UPDATE in the other, SELECT again
+          </div>
+        )}
+        {history.map(entry => (
+          <div key={entry.id}>
+            <div className="text-blue-300"><span className="text-sky-500">[S{entry.sessionId}]</span> mysql&gt; {entry.sql}</div>
+            {entry.error ? (
+              <div className="text-red-400">{entry.error}</div>
+            ) : (
+              entry.output.map((line, i) => <div key={i} className="text-slate-400 whitespace-pre">{line}</div>)
+            )}
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex items-center gap-1 px-2 py-1 border-t border-slate-800">
+        <span className="text-[9px] font-mono text-sky-500 shrink-0">S{activeSessionId}</span>
+        <ChevronRight size={10} className="text-blue-400 shrink-0" />
+        <input
+          type="text"
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="SELECT * FROM t WHERE id = 1"
+          spellCheck={false}
+          className="flex-1 bg-transparent font-mono text-[10px] text-slate-200 placeholder:text-slate-700 focus:outline-none"
+        />
+      </form>
+    </div>
+  );
+};
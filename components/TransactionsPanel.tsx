@@ -0,0 +1,162 @@
+import React from 'react';
+import { Users, UserPlus, Lock, Hourglass } from 'lucide-react';
+import { EngineState, IsolationLevel, MAX_SESSIONS } from '../types';
+import { describeReadView } from '../services/mvcc';
+import { formatLockMode } from '../services/locks';
+import { formatKey, formatRow, describeLock } from '../services/innodb';
+
+interface Props {
+  engine: EngineState;
+  activeSessionId: number;
+  highlightedUndoNo?: number; // Undo record the current READ_UNDO step reached
+  onSelectSession: (sessionId: number) => void;
+  onIsolationChange: (sessionId: number, level: IsolationLevel) => void;
+  onBegin: (sessionId: number) => void;
+  onCommit: (sessionId: number) => void;
+  onRollback: (sessionId: number) => void;
+  onTimeout: (sessionId: number) => void; // Give up a lock wait (innodb_lock_wait_timeout)
+  onAddSession: () => void;
+}
+
+// Newest undo records shown in the panel
+const VISIBLE_UNDO = 40;
+
+/**
+ * Client sessions and their transactions (INFORMATION_SCHEMA.INNODB_TRX), with the read view each one reads through,
+ * the record locks they hold or wait for (performance_schema.data_locks) and the latest deadlock,
+ * and the undo log: the versions that active transactions can roll back and that old read views still need.
+ */
+export const TransactionsPanel: React.FC<Props> = ({
+  engine, activeSessionId, highlightedUndoNo, onSelectSession, onIsolationChange, onBegin, onCommit, onRollback, onTimeout, onAddSession,
+}) => {
+  const { sessions, undoLog, nextTrxId, locks, latestDeadlock } = engine;
+  const buttonClass = 'px-1 rounded border text-[8px] disabled:opacity-30';
+
+  return (
+    <div className="bg-slate-900/95 backdrop-blur border border-slate-700 p-2 rounded-lg shadow-2xl space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-slate-300 font-bold text-[9px] uppercase flex items-center gap-1">
+          <Users size={10} /> Transactions
+        </h3>
+        <button
+          onClick={onAddSession}
+          disabled={sessions.length >= MAX_SESSIONS}
+          title="Open another client connection"
+          className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[9px] bg-slate-800 border border-slate-700 hover:bg-slate-700 text-slate-300 disabled:opacity-30"
+        >
+          <UserPlus size={9} /> Session
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-1 text-[8px] font-mono text-slate-400">
+        <span title="Id the next read-write transaction gets (trx_sys->max_trx_id)">next trx id: <span className="text-slate-200">{nextTrxId}</span></span>
+        <span title="Undo records kept for rollback and for old read views until purge">undo records: <span className="text-amber-400">{undoLog.length}</span></span>
+      </div>
+
+
+      {/* Sessions */}
+      <div className="space-y-1">
+        {sessions.map(session => {
+          const waitingFor = locks.find(l => !l.granted && l.sessionId === session.id);
+          return (
+          <div
+            key={session.id}
+            onClick={() => onSelectSession(session.id)}
+            className={`p-1 rounded border cursor-pointer text-[8px] font-mono ${
+              session.id === activeSessionId ? 'border-sky-600 bg-sky-900/20' : 'border-slate-700 hover:bg-slate-800'
+            }`}
+          >
+            <div className="flex items-center gap-1">
+              <span className="text-sky-300 font-bold">S{session.id}</span>
+              <select
+                value={session.isolationLevel}
+                onClick={e => e.stopPropagation()}
+                onChange={e => onIsolationChange(session.id, e.target.value as IsolationLevel)}
+                disabled={session.inTransaction}
+                title="Transaction isolation level (applies from the next transaction)"
+                className="bg-slate-800 border border-slate-700 rounded px-0.5 text-[8px] text-slate-300 focus:outline-none disabled:opacity-50"
+              >
+                <option value="REPEATABLE_READ">REPEATABLE READ</option>
+                <option value="READ_COMMITTED">READ COMMITTED</option>
+              </select>
+              <span className={session.inTransaction ? 'text-amber-300' : 'text-slate-500'}>
+                {!session.inTransaction ? 'autocommit' : session.trxId === null ? 'trx (no id yet)' : `trx ${session.trxId}`}
+              </span>
+              <span className="ml-auto flex gap-0.5" onClick={e => e.stopPropagation()}>
+                <button onClick={() => onBegin(session.id)} disabled={!!waitingFor} className={`${buttonClass} border-slate-600 text-slate-300`}>BEGIN</button>
+                <button onClick={() => onCommit(session.id)} disabled={!session.inTransaction || !!waitingFor} className={`${buttonClass} border-emerald-800 text-emerald-300`}>COMMIT</button>
+                <button onClick={() => onRollback(session.id)} disabled={!session.inTransaction || !!waitingFor} className={`${buttonClass} border-red-800 text-red-300`}>ROLLBACK</button>
+              </span>
+            </div>
+            <div className="text-slate-500 truncate" title="Read view: changes of transactions at or above the low limit or in the active list are invisible">
+              read view: {session.readView ? describeReadView(session.readView) : 'none'}
+            </div>
+            {waitingFor && (
+              <div className="flex items-center gap-1 text-orange-300" title="The statement is blocked until the transaction holding the lock commits or rolls back">
+                <Hourglass size={8} className="shrink-0 animate-pulse" />
+                <span className="truncate">waiting for {describeLock(waitingFor)}</span>
+                <button
+                  onClick={e => { e.stopPropagation(); onTimeout(session.id); }}
+                  title="innodb_lock_wait_timeout: give up waiting, the statement fails and the transaction stays open"
+                  className={`${buttonClass} ml-auto shrink-0 border-orange-800 text-orange-300`}
+                >
+                  Time out
+                </button>
+              </div>
+            )}
+          </div>
+          );
+        })}
+      </div>
+
+      {/* Record locks (performance_schema.data_locks) */}
+      <div className="font-mono text-[8px] space-y-px">
+        <div className="text-slate-500 flex items-center gap-1"><Lock size={8} /> record locks: {locks.length}</div>
+        {locks.map((lock, index) => (
+          <div key={index} className={`flex gap-1 truncate ${lock.granted ? 'text-slate-400' : 'text-orange-300'}`} title={describeLock(lock)}>
+            <span className="text-sky-300 w-4 shrink-0">S{lock.sessionId}</span>
+            <span className={`w-16 shrink-0 truncate ${lock.mode === 'X' ? 'text-red-400' : 'text-sky-400'}`}>{formatLockMode(lock)}</span>
+            <span className="truncate">{lock.indexName} {lock.record ? formatKey(lock.indexName, lock.record) : 'supremum'}</span>
+            <span className="ml-auto shrink-0">{lock.granted ? 'GRANTED' : 'WAITING'}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* LATEST DETECTED DEADLOCK */}
+      {latestDeadlock && (
+        <div className="p-1 rounded border border-red-900 bg-red-950/30 font-mono text-[8px] space-y-px" title="SHOW ENGINE INNODB STATUS: LATEST DETECTED DEADLOCK">
+          <div className="text-red-300 font-bold">latest deadlock</div>
+          {latestDeadlock.cycle.map(entry => (
+            <div key={entry.sessionId} className="truncate text-slate-400" title={`Weight ${entry.weight}: undo records plus locks held`}>
+              <span className="text-sky-300">S{entry.sessionId}</span> trx {entry.trxId} (weight {entry.weight}) waits for {describeLock(entry.waitingFor)}
+            </div>
+          ))}
+          <div className="text-red-400">rolled back: S{latestDeadlock.victimSessionId}, the lighter transaction</div>
+        </div>
+      )}
+
+      {/* Undo log, newest first */}
+      <div className="max-h-40 overflow-y-auto font-mono text-[8px] space-y-px">
+        {undoLog.length === 0 ? (
+          <div className="text-slate-600 italic">Empty: no old version is needed.</div>
+        ) : (
+          [...undoLog].reverse().slice(0, VISIBLE_UNDO).map(undo => (
+            <div
+              key={undo.undoNo}
+              className={`flex gap-1 truncate ${undo.undoNo === highlightedUndoNo ? 'bg-yellow-500/20 text-yellow-200' : 'text-slate-400'}`}
+              title={undo.previous ? `Previous version: ${formatRow(undo.previous)}${undo.previous.isDeleteMarked ? ' (delete-marked)' : ''}` : 'Insert: there is no previous version'}
+            >
+              <span className="text-slate-600 w-6 shrink-0 text-right">#{undo.undoNo}</span>
+              <span className="text-amber-300">trx {undo.trxId}</span>
+              <span className={undo.type === 'INSERT_REC' ? 'text-emerald-400' : undo.type === 'DEL_MARK_REC' ? 'text-red-400' : 'text-sky-400'}>{undo.type}</span>
+              <span className="truncate">{undo.previous ? formatRow(undo.previous) : `row ${undo.rowId}`}</span>
+            </div>
+          ))
+        )}
+        {undoLog.length > VISIBLE_UNDO && (
+          <div className="text-slate-600">... {undoLog.length - VISIBLE_UNDO} older record(s)</div>
+        )}
+      </div>
+    </div>
+  );
+};
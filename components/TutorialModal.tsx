@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { X, ChevronRight, ChevronLeft, BookOpen, Database, Activity, Search, Layers, ArrowDown } from 'lucide-react';
+import { X, ChevronRight, ChevronLeft, BookOpen, Database, Activity, Search, Layers, ArrowDown, Microscope, HardDrive, ScrollText, Users, Lock, Inbox, Hash, Copy, ArrowUpNarrowWide, Calculator, Filter } from 'lucide-react';
 
 interface Props {
   onClose: () => void;
@@ -12,19 +12,19 @@ const concepts = [
     content: (
       <div className="space-y-3 text-sm text-slate-300">
         <p className="leading-relaxed">
-          This visualizer simulates the <strong>Leaf Nodes</strong> of the InnoDB storage engine. 
-          In InnoDB, data is stored in "Pages" (typically 16KB, here capacity is 4 records).
+          This visualizer simulates the <strong>B+Tree</strong> indexes of the InnoDB storage engine. 
+          In InnoDB, data is stored in "Pages" (typically 16KB, here 512 bytes by default so splits come quickly).
         </p>
         <ul className="list-disc pl-5 space-y-2 text-slate-400">
             <li>
                 <strong>Pages</strong> are connected in a <strong>Doubly Linked List</strong>.
             </li>
             <li>
-                We visualize two indexes simultaneously: The <strong>Clustered Index</strong> (Primary) and a <strong>Secondary Index</strong>.
+                We visualize every index of the table simultaneously: The <strong>Clustered Index</strong> (Primary) and one tree per <strong>Secondary Index</strong>.
             </li>
         </ul>
         <div className="bg-slate-800/50 p-3 rounded border-l-2 border-blue-500 text-xs">
-           <strong>Visual Note:</strong> We hide the upper "Branch Nodes" of the B+Tree to focus on how data is stored and chained at the bottom level.
+           <strong>Visual Note:</strong> Each index is drawn level by level. Non-leaf pages (top rows) hold <strong>node pointers</strong> (min key + child page number); every lookup descends from the root to a leaf.
         </div>
       </div>
     )
@@ -59,13 +59,15 @@ const concepts = [
             <strong className="text-purple-300">Bottom Row (Purple Pages)</strong>
         </div>
         <p>
-            Created when you add an index on a column (e.g., <code>Name</code>).
+            Created when you add an index on one or more columns (e.g., <code>idx_city_age (city, age)</code>).
         </p>
         <ul className="list-disc pl-5 space-y-1 text-slate-400">
-            <li>Records are sorted by the <strong>Indexed Value (Name)</strong>.</li>
+            <li>Records are sorted by the <strong>Indexed Columns</strong>, left to right, then by the primary key.</li>
             <li>CRITICAL: The leaf nodes <strong>DO NOT</strong> contain the full row.</li>
-            <li>They only store: <code>Value</code> + <code>Primary Key</code>.</li>
+            <li>They only store: <code>Key Columns</code> + <code>Primary Key</code>.</li>
             <li>It acts as a pointer system back to the Clustered Index.</li>
+            <li>A <strong>UNIQUE</strong> index searches the whole index for an equal key before every insert. If it finds one, the row already inserted into the Clustered Index is rolled back.</li>
+            <li><strong>Leftmost prefix:</strong> a composite index only helps when the query constrains its first column(s). <code>city = 'Paris' AND age &gt; 25</code> uses <code>(city, age)</code>; <code>age &gt; 25</code> alone cannot.</li>
         </ul>
       </div>
     )
@@ -79,7 +81,7 @@ const concepts = [
         <div className="bg-slate-950 p-3 rounded border border-slate-800 space-y-2 text-xs font-mono">
             <div className="flex items-center gap-2">
                 <span className="bg-purple-900/50 text-purple-300 px-1 rounded">1</span>
-                <span>Search Secondary Index for 'Alice' -> Found PK: 5</span>
+                <span>Search Secondary Index for 'Alice' &rarr; Found PK: 5</span>
             </div>
             <div className="flex items-center gap-2">
                 <span className="bg-yellow-900/50 text-yellow-300 px-1 rounded">2</span>
@@ -97,22 +99,265 @@ const concepts = [
     )
   },
   {
-    title: "4. Page Splitting (Limit 4)",
+    title: "4. Page Splitting (Bytes, not Rows)",
     icon: <Activity className="text-red-400" size={24} />,
     content: (
       <div className="space-y-3 text-sm text-slate-300">
         <p>
-            Pages have a fixed size. In this visualizer, capacity is <strong>4 records</strong>.
+            Pages have a fixed size in <strong>bytes</strong>. Each record costs a 5-byte header plus its column values
+            (clustered records also carry 13 bytes of hidden columns), so wide names mean fewer rows per page.
+            Every page footer shows bytes used and free.
         </p>
         <p><strong>When a page is full and you insert data:</strong></p>
         <ol className="list-decimal pl-5 space-y-2 text-slate-400">
             <li>The engine creates a new page.</li>
-            <li>It moves ~50% of the records to the new page.</li>
+            <li>It moves ~50% of the records to the new page, <em>unless</em> the inserts are sequential (see below).</li>
             <li>It updates the Linked List pointers (Next/Prev).</li>
+            <li>It pushes the new page's first key up into the parent as a node pointer.</li>
         </ol>
-        <p className="text-xs text-slate-500 mt-2">
-            (Real InnoDB splits are more complex, but the principle is the same).
+        <p className="text-slate-400">
+            If the <strong>root</strong> itself is full, its contents move to a new child page and the root gains a level: this is the only way the tree grows taller.
         </p>
+        <p className="text-slate-400">
+            Each page remembers its <strong>last insert</strong> and the insert <strong>direction</strong> (shown under the records).
+            When inserts keep going right, as with an auto-increment key, InnoDB splits at the insert point: the old page stays full and
+            the new record starts an almost empty page. Random keys get 50/50 splits and half-empty pages. Compare both with the split selector.
+        </p>
+      </div>
+    )
+  },
+  {
+    title: "5. Inside a Page: Heap and Page Directory",
+    icon: <Microscope className="text-emerald-400" size={24} />,
+    content: (
+      <div className="space-y-3 text-sm text-slate-300">
+        <p>
+            A page is not a sorted array. Records are written to the <strong>heap</strong> in insertion order,
+            and a singly linked <strong>next-record list</strong> strings them together in key order,
+            from the <code>infimum</code> pseudo-record to the <code>supremum</code>.
+        </p>
+        <ul className="list-disc pl-5 space-y-1 text-slate-400">
+            <li>A deleted record's space goes onto the page's <strong>free list</strong>, the next insert that fits reuses it. When only that garbage stands in the way, the page is <strong>reorganized</strong>.</li>
+            <li>The <strong>page directory</strong> splits the list into groups of 4-8 records. Each slot points to the last record of its group (the owner).</li>
+            <li>A lookup inside the page does a <strong>binary search over the slots</strong>, then walks at most a few records along the list.</li>
+        </ul>
+        <div className="bg-slate-800/50 p-3 rounded border-l-2 border-emerald-500 text-xs">
+           <strong>Try it:</strong> Toggle 'Internals' (or the microscope on a page) and run a query by ID: the probed slots light up one by one.
+        </div>
+      </div>
+    )
+  },
+  {
+    title: "6. Buffer Pool: Young and Old Pages",
+    icon: <HardDrive className="text-emerald-400" size={24} />,
+    content: (
+      <div className="space-y-3 text-sm text-slate-300">
+        <p>
+            InnoDB never works on the disk directly. Every page a statement touches is fetched into a frame of the
+            <strong> buffer pool</strong>; a page that is not there costs a read from disk (a <strong>miss</strong>).
+        </p>
+        <ul className="list-disc pl-5 space-y-1 text-slate-400">
+            <li>The frames form an <strong>LRU list</strong>. A page read from disk enters at the <strong>midpoint</strong>, the head of the <strong>old sublist</strong> (the last 37%), not at the top.</li>
+            <li>It only moves to the <strong>young sublist</strong> when a later statement uses it again. The pages of one big scan stay old and are the first ones evicted.</li>
+            <li>A modified page is <strong>dirty</strong> and joins the <strong>flush list</strong>. It must be written back before its frame can be reused.</li>
+        </ul>
+        <div className="bg-slate-800/50 p-3 rounded border-l-2 border-emerald-500 text-xs">
+           <strong>Try it:</strong> Open 'Buffer Pool', pick 8 frames and query a few IDs twice so they turn young. Then run a full range scan: it evicts only old pages and the hot set survives.
+        </div>
+      </div>
+    )
+  },
+  {
+    title: "7. Redo Log and Crash Recovery",
+    icon: <ScrollText className="text-sky-400" size={24} />,
+    content: (
+      <div className="space-y-3 text-sm text-slate-300">
+        <p>
+            Dirty pages are written back lazily, so a commit cannot wait for them. Instead every page change first
+            appends a <strong>redo record</strong> to the log (write-ahead logging), numbered by a growing <strong>LSN</strong>.
+            Each page remembers the LSN of its last change.
+        </p>
+        <ul className="list-disc pl-5 space-y-1 text-slate-400">
+            <li>A page split is several records: the new page, the records moved to it, the old page cut short, the sibling pointer and the node pointer in the parent.</li>
+            <li>A <strong>checkpoint</strong> flushes the dirty pages. Everything before its LSN is on disk, so that part of the log can be reused.</li>
+            <li>After a <strong>crash</strong>, recovery starts from the pages on disk and replays the redo after the checkpoint. A record is skipped when the page LSN shows the page already has it.</li>
+        </ul>
+        <div className="bg-slate-800/50 p-3 rounded border-l-2 border-sky-500 text-xs">
+           <strong>Try it:</strong> Insert rows until a few pages split, open 'Redo Log' and press 'Crash': the trees fall back to what was on disk, then the pages are rebuilt one by one.
+        </div>
+      </div>
+    )
+  },
+  {
+    title: "8. MVCC: Undo Logs and Read Views",
+    icon: <Users className="text-amber-400" size={24} />,
+    content: (
+      <div className="space-y-3 text-sm text-slate-300">
+        <p>
+            Readers never wait for writers. Every clustered record carries two hidden columns: <strong>DB_TRX_ID</strong>,
+            the transaction that last changed it, and <strong>DB_ROLL_PTR</strong>, a pointer to the <strong>undo record</strong>
+            holding the version before that change. Following the pointers gives the row's <strong>version chain</strong>.
+        </p>
+        <ul className="list-disc pl-5 space-y-1 text-slate-400">
+            <li>A plain SELECT reads through a <strong>read view</strong>: the transactions that had not committed when it was created. A version of such a transaction is skipped and the chain is followed to an older one.</li>
+            <li><strong>REPEATABLE READ</strong> creates the view at the first read of the transaction and keeps it. <strong>READ COMMITTED</strong> creates a new one for every statement.</li>
+            <li>DELETE only delete-marks the record. <strong>Purge</strong> removes it, and the old versions, once no transaction or read view can need them.</li>
+            <li><strong>ROLLBACK</strong> applies the transaction's undo records backwards.</li>
+        </ul>
+        <div className="bg-slate-800/50 p-3 rounded border-l-2 border-amber-500 text-xs">
+           <strong>Try it:</strong> Open 'Transactions'. In session 1 run BEGIN and SELECT * FROM t, switch the console to session 2 and UPDATE a row, then SELECT again in session 1: it still sees the old value, read from the undo log.
+        </div>
+      </div>
+    )
+  },
+  {
+    title: "9. Record Locks, Gaps and Deadlocks",
+    icon: <Lock className="text-red-400" size={24} />,
+    content: (
+      <div className="space-y-3 text-sm text-slate-300">
+        <p>
+            Writers do wait for writers. Locks are taken on <strong>index records</strong>, and a lock can also cover the
+            <strong> gap</strong> before its record, so a range stays the same for the rest of the transaction.
+        </p>
+        <ul className="list-disc pl-5 space-y-1 text-slate-400">
+            <li>A <strong>record lock</strong> (REC_NOT_GAP) covers one record. A <strong>gap lock</strong> covers only the gap before it. A <strong>next-key lock</strong> covers both.</li>
+            <li>UPDATE, DELETE and locking reads (FOR UPDATE, FOR SHARE) are <strong>current reads</strong>: they read the latest version and lock what they scan. Under REPEATABLE READ a range scan takes next-key locks, up to the first record past the range (or the <strong>supremum</strong>).</li>
+            <li>An INSERT asks for an <strong>insert intention</strong> lock on the gap it goes into. Gap locks never block each other, but they block insert intentions.</li>
+            <li>When two transactions wait for each other, the <strong>deadlock</strong> detector rolls back the one that did less work, so the other can go on.</li>
+        </ul>
+        <div className="bg-slate-800/50 p-3 rounded border-l-2 border-red-500 text-xs">
+           <strong>Try it:</strong> In session 1 run BEGIN and SELECT * FROM t WHERE id BETWEEN 10 AND 20 FOR UPDATE, then INSERT id 15 from session 2: it waits on the locked gap until session 1 commits.
+        </div>
+      </div>
+    )
+  },
+  {
+    title: "10. Change Buffer",
+    icon: <Inbox className="text-teal-400" size={24} />,
+    content: (
+      <div className="space-y-3 text-sm text-slate-300">
+        <p>
+            Every row change also changes every secondary index, and its entries land on pages all over the index.
+            Reading each of those leaf pages from disk just to add or mark one entry would cost a random read per index.
+        </p>
+        <ul className="list-disc pl-5 space-y-1 text-slate-400">
+            <li>If the leaf page of a <strong>non-unique</strong> secondary index is <strong>not cached</strong> in the buffer pool, the change is written to the <strong>change buffer</strong> instead: inserts, delete-marks and purge deletes.</li>
+            <li>A UNIQUE index cannot buffer: checking for duplicates needs the page anyway.</li>
+            <li>Buffering only happens when the change cannot split or empty the page, and only up to innodb_change_buffer_max_size (25% of the pool).</li>
+            <li>The next time the page is read, by a query or by the <strong>background merge</strong>, the buffered changes are <strong>merged</strong> into it in order. The change buffer is persistent, so it survives a crash.</li>
+        </ul>
+        <div className="bg-slate-800/50 p-3 rounded border-l-2 border-teal-500 text-xs">
+           <strong>Try it:</strong> Shrink the buffer pool to a few frames, insert some rows, then look up a name: the lookup merges the dashed change buffer entries into the page first.
+        </div>
+      </div>
+    )
+  },
+  {
+    title: "11. Adaptive Hash Index",
+    icon: <Hash className="text-violet-400" size={24} />,
+    content: (
+      <div className="space-y-3 text-sm text-slate-300">
+        <p>
+            Every point lookup descends the B+Tree from the root and binary searches the leaf. When the same kind of lookup keeps coming,
+            InnoDB builds an in-memory <strong>hash index</strong> on top of the tree that jumps straight to the record.
+        </p>
+        <ul className="list-disc pl-5 space-y-1 text-slate-400">
+            <li>It watches how many <strong>key columns</strong> the lookups of each index fix. After a few lookups in a row with the same prefix, the leaf pages they reach start counting.</li>
+            <li>A page reached often enough gets <strong>hashed</strong>: one entry per key prefix on the page, pointing at its first record.</li>
+            <li>The next lookup of a hashed prefix is an <strong>AHI hit</strong>: no root, no non-leaf pages, no directory search. A guess it cannot verify falls back to the tree.</li>
+            <li>Entries point at records on one page, so a page that <strong>splits, merges</strong> or leaves the buffer pool loses them.</li>
+            <li>SHOW ENGINE INNODB STATUS prints "hash searches/s" (hits) and "non-hash searches/s" (tree descents): a low hit share means the AHI costs more than it saves.</li>
+        </ul>
+        <div className="bg-slate-800/50 p-3 rounded border-l-2 border-violet-500 text-xs">
+           <strong>Try it:</strong> Look up the same ID five times: the last lookup is a single AHI hit step. Then insert rows until that page splits and watch its entries go.
+        </div>
+      </div>
+    )
+  },
+  {
+    title: "12. Doublewrite Buffer",
+    icon: <Copy className="text-sky-400" size={24} />,
+    content: (
+      <div className="space-y-3 text-sm text-slate-300">
+        <p>
+            A page is larger than what the disk writes atomically. If the power fails in the middle of a flush, a page can be left
+            <strong> torn</strong>: its first part new, the rest still old. Redo cannot fix that, because redo records only describe changes to an intact page.
+        </p>
+        <ul className="list-disc pl-5 space-y-1 text-slate-400">
+            <li>Every page on disk carries a <strong>checksum</strong> of its content. A torn page fails the check the next time it is read.</li>
+            <li>Before a flush batch is written in place, all its pages are written to the <strong>doublewrite buffer</strong> and synced.</li>
+            <li>At startup, recovery checks the pages first: a torn page is <strong>restored</strong> from its doublewrite copy, then the redo log is applied as usual.</li>
+            <li>With innodb_doublewrite OFF, nothing can repair a torn page: recovery cannot apply redo to it and the server refuses to start.</li>
+        </ul>
+        <div className="bg-slate-800/50 p-3 rounded border-l-2 border-sky-500 text-xs">
+           <strong>Try it:</strong> Insert some rows, open 'Redo Log' and press 'Torn write'. Then switch doublewrite OFF, insert again and tear another page: this time recovery fails.
+        </div>
+      </div>
+    )
+    },
+  {
+    title: "13. Sorted Index Builds",
+    icon: <ArrowUpNarrowWide className="text-purple-400" size={24} />,
+    content: (
+      <div className="space-y-3 text-sm text-slate-300">
+        <p>
+            Adding an index to a table that already holds rows does not have to insert the entries one by one.
+            InnoDB's <strong>sorted index build</strong> (ALGORITHM=INPLACE) scans the clustered index, sorts the entries and builds the tree <strong>bottom-up</strong>.
+        </p>
+        <ul className="list-disc pl-5 space-y-1 text-slate-400">
+            <li>The leaves are filled left to right up to <strong>innodb_fill_factor</strong>, always leaving 1/16 of each page free for later inserts.</li>
+            <li>The first key of every page becomes a node pointer on the level above, which is filled the same way, until one page is left: the root.</li>
+            <li>No page ever splits, and the new pages go straight to disk instead of through the redo log.</li>
+            <li>Row-by-row insertion (ALGORITHM=COPY) splits pages on the way: the tree ends up with more pages that are less full.</li>
+        </ul>
+        <div className="bg-slate-800/50 p-3 rounded border-l-2 border-purple-500 text-xs">
+           <strong>Try it:</strong> Insert a few hundred rows, then run <code>CREATE INDEX idx_a ON t (age)</code> and <code>ALTER TABLE t ADD INDEX idx_b (age), ALGORITHM=COPY</code> and compare the two trees. This is why bulk imports often drop the secondary indexes first and add them back at the end.
+        </div>
+      </div>
+    )
+  },
+  {
+    title: "14. Cost-Based Optimizer",
+    icon: <Calculator className="text-yellow-400" size={24} />,
+    content: (
+      <div className="space-y-3 text-sm text-slate-300">
+        <p>
+            Before a SELECT runs, the optimizer prices every way to read the rows and takes the <strong>cheapest</strong>.
+            It counts the records in range on the index (an <em>index dive</em>) and charges <strong>1.0</strong> per page read and <strong>0.1</strong> per row evaluated.
+        </p>
+        <ul className="list-disc pl-5 space-y-1 text-slate-400">
+            <li><strong>Full table scan</strong> (type ALL): every leaf of the clustered index, read one after the other.</li>
+            <li><strong>Secondary index + lookups</strong> (ref / range): few index pages, but one clustered page per match (回表).</li>
+            <li><strong>Covering index</strong> (Using index): the index holds every selected column, no lookups at all.</li>
+        </ul>
+        <p>
+            When many rows match, the lookups cost more than reading the whole table, and the index is skipped even though it is usable.
+        </p>
+        <div className="bg-slate-800/50 p-3 rounded border-l-2 border-yellow-500 text-xs">
+           <strong>Try it:</strong> Insert rows where most live in one city, then compare <code>EXPLAIN SELECT * FROM t WHERE city = 'Paris'</code> with a rare city, and with <code>SELECT city, age</code>. EXPLAIN lists every candidate, its cost and why it lost, then animates the chosen plan.
+        </div>
+      </div>
+    )
+  },
+  {
+    title: "15. Index Condition Pushdown & MRR",
+    icon: <Filter className="text-purple-400" size={24} />,
+    content: (
+      <div className="space-y-3 text-sm text-slate-300">
+        <p>
+            A range scan on <code>idx_city_age</code> for <code>city LIKE 'R%' AND age &lt; 35</code> can only use <code>city</code> to bound the scan.
+            Two <code>optimizer_switch</code> flags cut the table lookups (回表) it pays for the rest:
+        </p>
+        <ul className="list-disc pl-5 space-y-1 text-slate-400">
+            <li><strong>Index Condition Pushdown</strong> (Using index condition): <code>age</code> is in the index entry, so it is checked there. Entries that fail it never cost a lookup.</li>
+            <li><strong>Multi-Range Read</strong> (Using MRR): the PKs are collected first, sorted, and looked up in key order. Neighbouring PKs share a clustered page, which is read once instead of once per lookup; the rows come back in PK order.</li>
+        </ul>
+        <p>
+            The last step of the scan compares its lookups and clustered page reads with what they would be with each optimization on or off.
+        </p>
+        <div className="bg-slate-800/50 p-3 rounded border-l-2 border-purple-500 text-xs">
+           <strong>Try it:</strong> Toggle ICP and MRR in the query bar, or run <code>SET optimizer_switch = 'index_condition_pushdown=off,mrr=on'</code>, then <code>SELECT * FROM t WHERE city LIKE 'R%' AND age &lt; 35</code> and compare the steps and EXPLAIN.
+        </div>
       </div>
     )
   }
@@ -121,7 +366,19 @@ const concepts = [
 const guide = [
     {
         title: "How to Insert Data",
-        content: "Use the inputs at the top left to add a Record (ID + Name). Or click 'Auto' to let the simulator randomize data."
+        content: "Use the inputs at the top left to add a Record (ID + one input per column of the table). Or click 'Auto' to let the simulator randomize data."
+    },
+    {
+        title: "How to Delete Data",
+        content: "Enter an ID and click the red trash button. If a page drops below MERGE_THRESHOLD (50%), watch it merge with or borrow from a sibling page."
+    },
+    {
+        title: "How to Update Data",
+        content: "Enter an existing ID and new values for any columns, then click the amber pencil button. The Blue row changes in place, while in every Purple index containing a changed column the old entry is delete-marked (struck through) and the new one is inserted. Indexes on unchanged columns are not touched. Purge removes delete-marked entries before the next statement, unless an open transaction may still need them."
+    },
+    {
+        title: "SQL Console",
+        content: "Type SQL in the console at the bottom left: CREATE TABLE (INT/VARCHAR columns, id INT PRIMARY KEY, INDEX / UNIQUE clauses), CREATE [UNIQUE] INDEX ... [ALGORITHM=INPLACE|COPY] / DROP INDEX, ALTER TABLE ... ADD INDEX / DROP INDEX, INSERT (multi-row VALUES), SELECT with WHERE on any columns (=, <, >, BETWEEN, LIKE 'Al%'), ORDER BY, LIMIT, UPDATE ... WHERE id = ?, DELETE ... WHERE id = ?, EXPLAIN, CHECK TABLE, BEGIN / START TRANSACTION [WITH CONSISTENT SNAPSHOT], COMMIT, ROLLBACK, SET TRANSACTION ISOLATION LEVEL and SET optimizer_switch = 'index_condition_pushdown=on|off,mrr=on|off'. Add FOR UPDATE, FOR SHARE or LOCK IN SHARE MODE to a SELECT to lock what it reads. Use the Up/Down arrows to recall earlier statements."
     },
     {
         title: "Run Query: By ID",
@@ -129,11 +386,55 @@ const guide = [
     },
     {
         title: "Run Query: Lookup (回表)",
-        content: "Enter a Name and click 'Lookup'. Watch the simulation search the Purple pages, find the ID, then 'Jump' to the Blue pages."
+        content: "Pick a secondary index, fill in its key columns from the left (a leftmost prefix is enough) and click 'Lookup'. Watch the simulation search the Purple pages, find the IDs, then 'Jump' to the Blue pages."
+    },
+    {
+        title: "Run Query: Range Scan",
+        content: "Use 'ID BETWEEN' or LIKE on a text column. The engine descends the tree only once to the first matching leaf, then follows the nextPageId pointers of the leaf linked list. A range on a secondary index does one table lookup (回表) per matching entry."
     },
     {
         title: "Run Query: Covering Index",
         content: "Click 'Covering'. This simulates `SELECT id FROM ...`. Since the ID is already in the Purple pages, it never jumps to the Blue pages. Efficient!"
+    },
+    {
+        title: "Buffer Pool",
+        content: "Click 'Buffer Pool' to open the side panel: the LRU list (young and old sublists), the flush list of dirty pages (amber dot) and the hit / miss counters. Pages outside the pool are dimmed in the trees. Change the number of frames in the panel to watch evictions."
+    },
+    {
+        title: "Redo Log & Crash",
+        content: "Click 'Redo Log' to see the LSN, the checkpoint LSN and the redo records written since the checkpoint. 'Checkpoint' flushes every dirty page. 'Crash' throws away all unflushed changes and animates crash recovery page by page; every page shows its page LSN in its footer. 'Torn write' crashes halfway through a flush instead; the doublewrite toggle and counters sit below the LSNs."
+    },
+    {
+        title: "Transactions",
+        content: "Click 'Transactions' to see the sessions, their isolation level, transaction id and read view, and the undo log. Pick the session the console, the query bar and the row buttons act in from the panel or the console header. Clustered records show their hidden columns (t = DB_TRX_ID, r = DB_ROLL_PTR), and a SELECT that reaches an older version highlights the undo records it reads. The panel also lists the record locks each session holds or waits for; the trees show them as badges on records and as dashed gap markers. A statement that has to wait is parked until the lock is granted: commit or roll back the other session, or press 'Time out'. A deadlock rolls back one of the transactions and is shown in the panel."
+    },
+    {
+        title: "Change Buffer",
+        content: "Click 'Change Buffer' to see the secondary index changes waiting for their page, the buffer's size and the merge counters. Pages not cached in the buffer pool are dimmed and show a disk icon; the changes buffered for a page are listed as dashed rows under its records. A query that reads such a page merges them first (the page gets a green ring), and 'Merge' in the panel runs the background merge."
+    },
+    {
+        title: "Adaptive Hash Index",
+        content: "Click 'Adaptive Hash' to see the hash and non-hash search counters, the prefix each index's lookups use and the hash entries. Hashed pages show a # badge with their entry count. A lookup that hits the hash shows an 'AHI hit' step instead of the descent from the root. 'ON' / 'OFF' switches innodb_adaptive_hash_index; switching it off empties the hash index."
+    },
+    {
+        title: "History (Time Travel)",
+        content: "Click 'History' to see every operation as a timeline. Undo / redo, drag the scrubber or click an entry to bring back the engine exactly as it was after it; the next operation replaces the undone ones. 'Replay' steps forward one operation at a time, e.g. to rewind a split and watch it again. The trees highlight what changed since the previous entry: new pages get a dashed ring, changed pages a Δ badge, new and modified records a colored edge, and rewired next pointers are colored in the footer. Click the compare icon of an entry to diff against it instead."
+    },
+    {
+        title: "Snapshots",
+        content: "Click 'Snapshots' to save the whole engine: 'Export' downloads it as a JSON file, 'Import' loads one back (a malformed or incompatible file is rejected with the reason), and 'Copy link' copies a URL that opens the visualizer in exactly this state. With 'Autosave' ON, a page refresh brings back the last session. Loading a snapshot is an entry in the History panel, so it can be undone."
+    },
+    {
+        title: "Index Statistics",
+        content: "Click 'Stats' for the numbers behind the fill bars of the pages, per index: page count and height, average and minimum leaf fill (record bytes against the usable bytes of a page), splits and merges since startup (a crash resets them), a histogram of records per leaf page, and the leaf pages in key order. A next pointer to a lower page id is a backward link: a range scan reads the file backwards there. Run 'Auto' with 'Auto-increment' and then with 'Random ids': sequential inserts split at the insert point and leave full pages in file order, random inserts leave half-full pages and many backward links."
+    },
+    {
+        title: "Check Table (Corruption)",
+        content: "Click 'Check' to run CHECK TABLE after every change (or type CHECK TABLE t in the console). It verifies that the records of every page are in key order, also across page boundaries, that prev / next pointers are symmetric and form one list per level without cycles, that node pointers lead one level down, and that every secondary index entry matches exactly one clustered row and back. Each problem is listed against its page, and the page gets a red ring and a ✗ badge. Pick a fault and click 'Inject' to corrupt a page in memory: nothing is written to the redo log, so a crash brings the page back as it was on disk, unless the page was dirty and got flushed first."
+    },
+    {
+        title: "Scenarios (Lesson Scripts)",
+        content: "Click 'Scenario' to play a lesson script: one SQL statement per line (@2 in front runs it in session 2), RESET PAGE_SIZE 256 SPLIT MIDPOINT for a fresh engine, and EXPECT lines that check the result: EXPECT PAGE 3 IDS 5..8, EXPECT [NO] SPLIT [index], EXPECT [NO] MERGE, EXPECT PAGES_READ 2, EXPECT PAGES / HEIGHT <index> <n>, EXPECT ROWS 4, EXPECT ERROR \"Duplicate\", EXPECT LOG \"Split Complete\", EXPECT OUTPUT \"Using index\" and EXPECT CHECK OK. Load a lesson or a .scenario file, then Step through it, Play it with the animations or run All of it; a failed assertion turns red and says what the engine holds instead. npm run scenarios runs the same scripts without the UI and exits with an error when an assertion fails."
     }
 ];
 
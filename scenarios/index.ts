@@ -0,0 +1,185 @@
+// The lesson scenarios shipped with the visualizer (script format: services/scenario.ts).
+// Plain strings rather than .scenario files, so they load wherever the app runs, with or without a bundler.
+
+export const BUNDLED_SCENARIOS: { name: string, script: string }[] = [
+  {
+    name: 'sequential-split',
+    script: `# Sequential inserts: the page splits at the insert point, not in the middle
+# Ascending ids always land at the end of the last leaf. InnoDB sees the direction
+# (PAGE_LAST_INSERT / PAGE_DIRECTION) and moves only the new record to the new page,
+# leaving the old one full instead of half empty.
+RESET PAGE_SIZE 256 SPLIT INNODB
+
+INSERT INTO t VALUES (1, 'Alice', 31, 'Paris')
+INSERT INTO t VALUES (2, 'Bob', 32, 'Paris')
+INSERT INTO t VALUES (3, 'Carol', 33, 'Paris')
+EXPECT NO SPLIT PRIMARY
+EXPECT PAGE 1 IDS 1..3
+EXPECT HEIGHT PRIMARY 1
+
+# The fourth row does not fit: the root splits, the tree grows a level
+INSERT INTO t VALUES (4, 'Dave', 34, 'Paris')
+EXPECT SPLIT PRIMARY
+EXPECT LOG "Split Complete"
+EXPECT HEIGHT PRIMARY 2
+EXPECT PAGE 4 IDS 1..3
+EXPECT PAGE 5 IDS 4
+
+# Later pages stay full: only the newest row moves
+INSERT INTO t VALUES (5, 'Eve', 35, 'Paris')
+INSERT INTO t VALUES (6, 'Frank', 36, 'Paris')
+EXPECT NO SPLIT PRIMARY
+INSERT INTO t VALUES (7, 'Grace', 37, 'Paris')
+EXPECT SPLIT PRIMARY
+EXPECT PAGE 5 IDS 4..6
+EXPECT PAGE 1 IDS 1, 4, 7
+EXPECT CHECK OK
+`,
+  },
+  {
+    name: 'midpoint-split',
+    script: `# Midpoint splits: the same sequential inserts leave half-empty pages
+# With SPLIT MIDPOINT every split moves half of the bytes to the new page,
+# so ascending ids leave each left page about half full, for good.
+RESET PAGE_SIZE 256 SPLIT MIDPOINT
+
+INSERT INTO t VALUES (1, 'Alice', 31, 'Paris')
+INSERT INTO t VALUES (2, 'Bob', 32, 'Paris')
+INSERT INTO t VALUES (3, 'Carol', 33, 'Paris')
+INSERT INTO t VALUES (4, 'Dave', 34, 'Paris')
+EXPECT SPLIT PRIMARY
+EXPECT PAGE 4 IDS 1, 2
+EXPECT PAGE 5 IDS 3, 4
+
+INSERT INTO t VALUES (5, 'Eve', 35, 'Paris')
+INSERT INTO t VALUES (6, 'Frank', 36, 'Paris')
+EXPECT SPLIT PRIMARY
+EXPECT PAGE 5 IDS 3, 4
+EXPECT PAGES PRIMARY 4
+EXPECT CHECK OK
+`,
+  },
+  {
+    name: 'point-vs-range',
+    script: `# Point lookups read one page per level, range scans follow the leaf chain
+RESET PAGE_SIZE 256
+
+INSERT INTO t VALUES (1, 'Alice', 31, 'Paris'), (2, 'Bob', 32, 'Lyon'), (3, 'Carol', 33, 'Nice')
+INSERT INTO t VALUES (4, 'Dave', 34, 'Paris'), (5, 'Eve', 35, 'Lyon'), (6, 'Frank', 36, 'Nice')
+INSERT INTO t VALUES (7, 'Grace', 37, 'Paris'), (8, 'Heidi', 38, 'Lyon'), (9, 'Ivan', 39, 'Nice')
+EXPECT HEIGHT PRIMARY 2
+
+# Root, then one leaf
+SELECT * FROM t WHERE id = 5
+EXPECT ROWS 1
+EXPECT PAGES_READ 2
+
+# Root, the leaf holding 2, then next pointers to the leaf holding 8
+SELECT * FROM t WHERE id BETWEEN 2 AND 8
+EXPECT ROWS 7
+EXPECT PAGES_READ 4
+
+# A primary key is unique
+INSERT INTO t VALUES (5, 'Mallory', 40, 'Paris')
+EXPECT ERROR "Duplicate entry"
+EXPECT CHECK OK
+`,
+  },
+  {
+    name: 'delete-merge',
+    script: `# Deletes: an underfilled page merges into its neighbour
+# Below MERGE_THRESHOLD a page is merged into a sibling with room for its records
+# (btr_compress): its node pointer leaves the parent and the page is freed.
+RESET PAGE_SIZE 256
+
+INSERT INTO t VALUES (1, 'Alice', 31, 'Paris'), (2, 'Bob', 32, 'Lyon'), (3, 'Carol', 33, 'Nice')
+INSERT INTO t VALUES (4, 'Dave', 34, 'Paris'), (5, 'Eve', 35, 'Lyon'), (6, 'Frank', 36, 'Nice')
+EXPECT PAGES PRIMARY 3
+EXPECT PAGE 4 IDS 1..3
+EXPECT PAGE 5 IDS 4..6
+
+# Room on the left page, but the right one is still full enough
+DELETE FROM t WHERE id = 2
+DELETE FROM t WHERE id = 5
+EXPECT NO MERGE PRIMARY
+
+DELETE FROM t WHERE id = 6
+EXPECT MERGE PRIMARY
+EXPECT LOG "Merge Complete"
+# One leaf left: the root takes its records back and the tree shrinks a level
+EXPECT PAGE 1 IDS 1, 3, 4
+EXPECT HEIGHT PRIMARY 1
+EXPECT CHECK OK
+
+SELECT * FROM t
+EXPECT ROWS 3
+`,
+  },
+  {
+    name: 'optimizer-skips-index',
+    script: `# The optimizer skips an index when too many rows match
+# Each match through a secondary index costs a table lookup (回表) into the clustered index.
+# When most of the table matches, reading the whole table is cheaper, unless the index covers the query.
+RESET PAGE_SIZE 256
+
+INSERT INTO t VALUES (1, 'Alice', 31, 'Paris'), (2, 'Bob', 32, 'Paris'), (3, 'Carol', 33, 'Paris')
+INSERT INTO t VALUES (4, 'Dave', 34, 'Paris'), (5, 'Eve', 35, 'Paris'), (6, 'Frank', 36, 'Paris')
+INSERT INTO t VALUES (7, 'Grace', 37, 'Paris'), (8, 'Heidi', 38, 'Paris'), (9, 'Ivan', 39, 'Paris')
+INSERT INTO t VALUES (10, 'Judy', 40, 'Paris'), (11, 'Ken', 41, 'Rome'), (12, 'Liam', 42, 'Oslo')
+
+# 10 of 12 rows: 10 lookups cost more than the 4 leaves of the table
+EXPLAIN SELECT * FROM t WHERE city = 'Paris'
+EXPECT OUTPUT "| ALL |"
+EXPECT OUTPUT "skipped: 10 table lookup(s)"
+
+# 1 row: the index and a single lookup win
+EXPLAIN SELECT * FROM t WHERE city = 'Rome'
+EXPECT OUTPUT "| ref | idx_city_age | idx_city_age |"
+
+# Only indexed columns: no lookups, the index wins for Paris too
+EXPLAIN SELECT city, age FROM t WHERE city = 'Paris'
+EXPECT OUTPUT "Using index"
+
+SELECT city, age FROM t WHERE city = 'Paris'
+EXPECT ROWS 10
+`,
+  },
+  {
+    name: 'icp-and-mrr',
+    script: `# Index Condition Pushdown and Multi-Range Read
+# idx_city_age bounds the scan on city only; age < 45 is left for after the table lookup (回表).
+# ICP checks it on the index entry instead, MRR does the remaining lookups in PK order.
+RESET PAGE_SIZE 256
+
+INSERT INTO t VALUES (1, 'Alice', 31, 'Paris'), (2, 'Bob', 32, 'Oslo'), (3, 'Carol', 33, 'Paris')
+INSERT INTO t VALUES (4, 'Dave', 34, 'Oslo'), (5, 'Eve', 35, 'Paris'), (6, 'Frank', 36, 'Oslo')
+INSERT INTO t VALUES (7, 'Grace', 37, 'Paris'), (8, 'Heidi', 38, 'Oslo'), (9, 'Ivan', 39, 'Paris')
+INSERT INTO t VALUES (10, 'Judy', 40, 'Oslo'), (11, 'Ken', 41, 'Paris'), (12, 'Liam', 42, 'Oslo')
+INSERT INTO t VALUES (13, 'Mia', 43, 'Paris'), (14, 'Noah', 44, 'Oslo'), (15, 'Olga', 45, 'Paris')
+INSERT INTO t VALUES (16, 'Paul', 46, 'Rome'), (17, 'Quinn', 31, 'Rome'), (18, 'Rita', 44, 'Rome')
+
+# Without ICP all three Rome entries cost a lookup, Paul's only to be discarded
+SET optimizer_switch = 'index_condition_pushdown=off'
+EXPLAIN SELECT * FROM t WHERE city LIKE 'R%' AND age < 45
+EXPECT OUTPUT "Using where"
+SELECT * FROM t WHERE city LIKE 'R%' AND age < 45
+EXPECT ROWS 2
+EXPECT PAGES_READ 8
+
+# With ICP Paul's entry fails age < 45 in the index: one lookup less
+SET optimizer_switch = 'index_condition_pushdown=on'
+EXPLAIN SELECT * FROM t WHERE city LIKE 'R%' AND age < 45
+EXPECT OUTPUT "Using index condition"
+SELECT * FROM t WHERE city LIKE 'R%' AND age < 45
+EXPECT PAGES_READ 6
+
+# With MRR PKs 17 and 18 are looked up together: their clustered page is read once
+SET optimizer_switch = 'mrr=on'
+EXPLAIN SELECT * FROM t WHERE city LIKE 'R%' AND age < 45
+EXPECT OUTPUT "Using index condition; Using MRR"
+SELECT * FROM t WHERE city LIKE 'R%' AND age < 45
+EXPECT ROWS 2
+EXPECT PAGES_READ 4
+`,
+  },
+];
@@ -0,0 +1,34 @@
+// Scenarios that guard against regressions rather than teach: run by npm run scenarios, not offered as lessons.
+// Same script format as the lessons in ./index.ts.
+
+export const REGRESSION_SCENARIOS: { name: string, script: string }[] = [
+  {
+    name: 'check-min-rec',
+    script: `# CHECK TABLE on a 3-level index: the first node pointer of a level may keep a stale key
+# A split leaves the leftmost node pointer of a non-leaf level as it was (the min-rec, REC_INFO_MIN_REC_FLAG):
+# it stands for every key below its neighbour, whatever it says. Here one first page is left holding only it.
+# The rows come from a pseudo-random workload that leaves the first level-1 page of idx_city_age holding only
+# its min-rec; CHECK TABLE once compared that stale key with the next page and called the tree corrupt.
+RESET PAGE_SIZE 256 SPLIT INNODB BUFFER_POOL 8
+
+INSERT INTO t VALUES (673, 'Ann', 20, 'Nice'), (126, 'Ann', 52, 'Paris'), (825, 'Ann', 44, 'Lima'), (235, 'Ann', 52, 'Nice'), (395, 'Ann', 44, 'Lima'), (95, 'Ann', 20, 'Paris')
+INSERT INTO t VALUES (498, 'Ann', 44, 'Lima'), (884, 'Ann', 44, 'Paris'), (678, 'Ann', 28, 'Paris'), (301, 'Ann', 44, 'Lima'), (53, 'Ann', 20, 'Paris'), (166, 'Ann', 52, 'Nice')
+INSERT INTO t VALUES (534, 'Ann', 28, 'Paris'), (393, 'Ann', 52, 'Lima'), (879, 'Ann', 20, 'Paris'), (37, 'Ann', 20, 'Nice'), (728, 'Ann', 20, 'Paris'), (743, 'Ann', 20, 'Paris')
+INSERT INTO t VALUES (668, 'Ann', 36, 'Nice'), (734, 'Ann', 52, 'Paris'), (518, 'Ann', 28, 'Lima'), (735, 'Ann', 28, 'Nice'), (377, 'Ann', 44, 'Paris'), (688, 'Ann', 20, 'Paris')
+INSERT INTO t VALUES (364, 'Ann', 52, 'Lima'), (241, 'Ann', 20, 'Nice'), (180, 'Ann', 28, 'Paris'), (296, 'Ann', 28, 'Nice'), (313, 'Ann', 44, 'Nice'), (866, 'Ann', 28, 'Paris')
+INSERT INTO t VALUES (975, 'Ann', 20, 'Nice'), (898, 'Ann', 20, 'Paris'), (950, 'Ann', 20, 'Paris'), (914, 'Ann', 52, 'Paris'), (497, 'Ann', 28, 'Nice'), (789, 'Ann', 44, 'Nice')
+INSERT INTO t VALUES (797, 'Bob', 44, 'Nice'), (246, 'Ann', 44, 'Nice'), (348, 'Ann', 36, 'Nice'), (182, 'Ann', 52, 'Lima'), (812, 'Ann', 36, 'Nice'), (378, 'Ann', 36, 'Paris')
+INSERT INTO t VALUES (943, 'Ann', 20, 'Nice'), (986, 'Ann', 44, 'Paris'), (821, 'Ann', 28, 'Lima'), (376, 'Ann', 20, 'Nice'), (314, 'Ann', 28, 'Nice'), (776, 'Ann', 36, 'Paris')
+INSERT INTO t VALUES (725, 'Ann', 28, 'Nice'), (938, 'Ann', 28, 'Paris'), (605, 'Ann', 36, 'Lima'), (897, 'Ann', 44, 'Nice'), (41, 'Ann', 44, 'Nice'), (786, 'Ann', 36, 'Lima')
+INSERT INTO t VALUES (272, 'Ann', 28, 'Paris'), (51, 'Ann', 36, 'Nice'), (338, 'Ann', 44, 'Lima'), (280, 'Ann', 44, 'Lima'), (299, 'Ann', 36, 'Lima'), (901, 'Ann', 36, 'Paris')
+INSERT INTO t VALUES (929, 'Ann', 44, 'Nice'), (608, 'Ann', 20, 'Paris'), (297, 'Ann', 28, 'Lima'), (34, 'Ann', 36, 'Lima'), (496, 'Ann', 52, 'Lima'), (43, 'Ann', 28, 'Paris')
+INSERT INTO t VALUES (356, 'Ann', 36, 'Nice'), (239, 'Ann', 52, 'Nice'), (690, 'Ann', 52, 'Nice'), (58, 'Ann', 28, 'Lima'), (502, 'Ann', 28, 'Paris'), (842, 'Ann', 52, 'Paris')
+INSERT INTO t VALUES (575, 'Ann', 44, 'Paris'), (907, 'Ann', 20, 'Nice'), (281, 'Ann', 20, 'Lima'), (217, 'Ann', 44, 'Paris'), (91, 'Ann', 52, 'Lima'), (602, 'Ann', 36, 'Nice')
+INSERT INTO t VALUES (347, 'Ann', 20, 'Paris'), (952, 'Ann', 28, 'Paris'), (864, 'Ann', 28, 'Nice'), (487, 'Ann', 36, 'Lima')
+
+EXPECT HEIGHT idx_city_age 3
+CHECK TABLE t
+EXPECT CHECK OK
+`,
+  },
+];
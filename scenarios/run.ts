@@ -0,0 +1,35 @@
+import { readFileSync } from 'fs';
+import { parseScenario, runScenario, countFailures, formatStepResult } from '../services/scenario';
+import { BUNDLED_SCENARIOS } from './index';
+import { REGRESSION_SCENARIOS } from './regressions';
+
+/*
+ * Runs scenarios without the UI and fails when an assertion does:
+ *   npm run scenarios                      every lesson in scenarios/index.ts, then scenarios/regressions.ts
+ *   npm run scenarios -- my.scenario ...   the given files
+ */
+
+const files = process.argv.slice(2);
+const scenarios = files.length > 0
+  ? files.map(name => ({ name, script: readFileSync(name, 'utf8') }))
+  : [...BUNDLED_SCENARIOS, ...REGRESSION_SCENARIOS];
+
+let failed = 0;
+for (const { name, script } of scenarios) {
+  const parsed = parseScenario(script);
+  if (parsed.ok === false) {
+    console.log(`✗ ${name}: ${parsed.error}`);
+    failed++;
+    continue;
+  }
+
+  const run = runScenario(parsed.scenario);
+  const failures = run.results.filter(result => !result.passed);
+  const assertions = run.results.filter(result => result.step.kind === 'EXPECT').length;
+  console.log(`${failures.length === 0 ? '✓' : '✗'} ${name}: ${parsed.scenario.title} (${assertions} assertion(s))`);
+  failures.forEach(result => console.log(`    ${formatStepResult(result)}`));
+  if (countFailures(run) > 0) failed++;
+}
+
+console.log(`\n${scenarios.length - failed} of ${scenarios.length} scenario(s) passed.`);
+process.exitCode = failed > 0 ? 1 : 0;
@@ -0,0 +1,104 @@
+import { AdaptiveHashEntry, AdaptiveHashState, ColumnValue, PageData, RecordData, AHI_BUILD_LIMIT, AHI_HASH_ANALYSIS } from '../types';
+
+type PrefixFn = (record: RecordData, nFields: number) => ColumnValue[];
+
+export const createAdaptiveHash = (enabled: boolean = true): AdaptiveHashState => ({
+  enabled,
+  entries: [],
+  info: {},
+  pageHelps: {},
+  hashSearches: 0,
+  nonHashSearches: 0,
+  pagesBuilt: 0,
+  pagesDropped: 0,
+});
+
+const isSamePrefix = (a: ColumnValue[], b: ColumnValue[]): boolean =>
+  a.length === b.length && a.every((value, i) => value === b[i]);
+
+// ha_search_and_get_data: the entry folded from this prefix of the index, if any
+export const findHashEntry = (ahi: AdaptiveHashState, indexName: string, prefix: ColumnValue[]): AdaptiveHashEntry | undefined =>
+  ahi.entries.find(entry => entry.indexName === indexName && isSamePrefix(entry.prefix, prefix));
+
+export const getHashedPageIds = (ahi: AdaptiveHashState): number[] =>
+  [...new Set(ahi.entries.map(entry => entry.pageId))];
+
+// Key columns a hashed page was built on (block->curr_n_fields), null if it has no entries
+export const getPageHashFields = (ahi: AdaptiveHashState, pageId: number): number | null =>
+  ahi.entries.find(entry => entry.pageId === pageId)?.prefix.length ?? null;
+
+// One entry per distinct prefix on the page, pointing at the first record that has it
+const toPageEntries = (page: PageData, nFields: number, prefixOf: PrefixFn): AdaptiveHashEntry[] =>
+  page.records.reduce<AdaptiveHashEntry[]>((entries, record) => {
+    const prefix = prefixOf(record, nFields);
+    return entries.some(entry => isSamePrefix(entry.prefix, prefix))
+      ? entries
+      : [...entries, { indexName: page.indexName, prefix, pageId: page.id, recordId: record.id }];
+  }, []);
+
+const withPageEntries = (ahi: AdaptiveHashState, pageId: number, entries: AdaptiveHashEntry[]): AdaptiveHashState => ({
+  ...ahi,
+  entries: [...ahi.entries.filter(entry => entry.pageId !== pageId), ...entries],
+});
+
+/**
+ * btr_search_info_update: a lookup of an nFields-column prefix descended the tree to `pageId`.
+ * Once enough lookups in a row used the same prefix, every page they reach counts a help;
+ * `build` tells whether the page has helped often enough to be hashed on that prefix.
+ */
+export const recordTreeSearch = (
+  ahi: AdaptiveHashState,
+  indexName: string,
+  nFields: number,
+  pageId: number
+): { ahi: AdaptiveHashState, build: boolean } => {
+  const info = ahi.info[indexName];
+  const potential = info?.nFields === nFields ? info.potential + 1 : 1;
+  const helps = (ahi.pageHelps[pageId] ?? 0) + (potential >= AHI_HASH_ANALYSIS ? 1 : 0);
+  return {
+    ahi: {
+      ...ahi,
+      info: { ...ahi.info, [indexName]: { nFields, potential } },
+      pageHelps: { ...ahi.pageHelps, [pageId]: helps },
+      nonHashSearches: ahi.nonHashSearches + 1,
+    },
+    build: helps >= AHI_BUILD_LIMIT && getPageHashFields(ahi, pageId) !== nFields,
+  };
+};
+
+export const recordHashSearch = (ahi: AdaptiveHashState): AdaptiveHashState =>
+  ({ ...ahi, hashSearches: ahi.hashSearches + 1 });
+
+// btr_search_build_page_hash_index: hashes every record of the page on its nFields-column prefix
+export const buildPageHash = (ahi: AdaptiveHashState, page: PageData, nFields: number, prefixOf: PrefixFn): AdaptiveHashState => {
+  const { [page.id]: _helps, ...pageHelps } = ahi.pageHelps;
+  return { ...withPageEntries(ahi, page.id, toPageEntries(page, nFields, prefixOf)), pageHelps, pagesBuilt: ahi.pagesBuilt + 1 };
+};
+
+// btr_search_update_hash_on_insert / on_delete: the page keeps its prefix, its entries follow its records
+export const updatePageHash = (ahi: AdaptiveHashState, page: PageData, prefixOf: PrefixFn): AdaptiveHashState => {
+  const nFields = getPageHashFields(ahi, page.id);
+  return nFields === null ? ahi : withPageEntries(ahi, page.id, toPageEntries(page, nFields, prefixOf));
+};
+
+// btr_search_drop_page_hash_index: the pages' records moved or left memory, their entries are removed
+export const dropPageHash = (ahi: AdaptiveHashState, pageIds: number[]): AdaptiveHashState => {
+  const dropped = getHashedPageIds(ahi).filter(id => pageIds.includes(id));
+  if (dropped.length === 0) return ahi;
+  return {
+    ...ahi,
+    entries: ahi.entries.filter(entry => !dropped.includes(entry.pageId)),
+    pagesDropped: ahi.pagesDropped + dropped.length,
+  };
+};
+
+// The index is gone: its entries and its search info with it
+export const dropIndexHash = (ahi: AdaptiveHashState, indexName: string): AdaptiveHashState => {
+  const { [indexName]: _info, ...info } = ahi.info;
+  const pageIds = ahi.entries.filter(entry => entry.indexName === indexName).map(entry => entry.pageId);
+  return { ...dropPageHash(ahi, pageIds), info };
+};
+
+// btr_search_disable: switching the hash index off empties it, the counters stay
+export const disableAdaptiveHash = (ahi: AdaptiveHashState): AdaptiveHashState =>
+  ({ ...createAdaptiveHash(false), hashSearches: ahi.hashSearches, nonHashSearches: ahi.nonHashSearches, pagesBuilt: ahi.pagesBuilt, pagesDropped: ahi.pagesDropped });
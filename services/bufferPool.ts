@@ -0,0 +1,109 @@
+import { BufferPoolState, BufferFrame, PageData, PageAccess, BUFFER_POOL_OLD_BLOCKS_PCT } from '../types';
+
+export const createBufferPool = (capacity: number): BufferPoolState => ({
+  capacity,
+  lru: [],
+  flushList: [],
+  clock: 0,
+  hits: 0,
+  misses: 0,
+  evictions: 0,
+  flushes: 0,
+});
+
+// Number of frames at the tail of an LRU list of this length that form the old sublist
+export const getOldSublistLength = (lruLength: number): number =>
+  Math.round((lruLength * BUFFER_POOL_OLD_BLOCKS_PCT) / 100);
+
+export const isResident = (pool: BufferPoolState, pageId: number): boolean =>
+  pool.lru.some(frame => frame.pageId === pageId);
+
+// Starts a new statement: pages it reads in only become young when a later statement touches them again
+export const startStatement = (pool: BufferPoolState): BufferPoolState => ({ ...pool, clock: pool.clock + 1 });
+
+/**
+ * Evicts from the tail of the LRU list until at most `frames` frames are in use.
+ * A dirty victim is written back to disk first. Returns the ids of the pages written.
+ */
+const evictDownTo = (pool: BufferPoolState, frames: number): { pool: BufferPoolState, flushed: number[] } => {
+  let current = pool;
+  const flushed: number[] = [];
+  while (current.lru.length > frames) {
+    const victim = current.lru[current.lru.length - 1];
+    const isDirty = current.flushList.includes(victim.pageId);
+    if (isDirty) flushed.push(victim.pageId);
+    current = {
+      ...current,
+      lru: current.lru.slice(0, -1),
+      flushList: current.flushList.filter(id => id !== victim.pageId),
+      evictions: current.evictions + 1,
+      flushes: current.flushes + (isDirty ? 1 : 0),
+    };
+  }
+  return { pool: current, flushed };
+};
+
+/**
+ * One page access (buf_page_get):
+ * - a hit in the young sublist moves the page to the head of the LRU list
+ * - a hit in the old sublist only does so if an earlier statement read the page in (innodb_old_blocks_time),
+ *   so the repeated accesses of a single scan never push the hot pages out of the young sublist
+ * - a miss reads the page into a frame, evicting the LRU tail if the pool is full,
+ *   and inserts it at the midpoint: the head of the old sublist
+ * A page just created by a split needs a frame but no read.
+ */
+export const accessPage = (
+  pool: BufferPoolState,
+  pageId: number,
+  isNew: boolean = false
+): { pool: BufferPoolState, access: PageAccess, flushed: number[] } => {
+  const index = pool.lru.findIndex(frame => frame.pageId === pageId);
+  if (index !== -1) {
+    const frame = pool.lru[index];
+    const isOld = index >= pool.lru.length - getOldSublistLength(pool.lru.length);
+    const makeYoung = !isOld || frame.loadedAt < pool.clock;
+    const lru = makeYoung ? [frame, ...pool.lru.filter((_, i) => i !== index)] : pool.lru;
+    return { pool: { ...pool, lru, hits: pool.hits + 1 }, access: 'HIT', flushed: [] };
+  }
+
+  const { pool: roomy, flushed } = evictDownTo(pool, pool.capacity - 1);
+  const midpoint = roomy.lru.length + 1 - getOldSublistLength(roomy.lru.length + 1);
+  const frame: BufferFrame = { pageId, loadedAt: pool.clock };
+  return {
+    pool: {
+      ...roomy,
+      lru: [...roomy.lru.slice(0, midpoint), frame, ...roomy.lru.slice(midpoint)],
+      misses: roomy.misses + (isNew ? 0 : 1),
+    },
+    access: isNew ? 'CREATE' : 'MISS',
+    flushed,
+  };
+};
+
+export const accessPages = (pool: BufferPoolState, pageIds: number[]): { pool: BufferPoolState, flushed: number[] } =>
+  pageIds.reduce(
+    (acc, pageId) => {
+      const result = accessPage(acc.pool, pageId);
+      return { pool: result.pool, flushed: [...acc.flushed, ...result.flushed] };
+    },
+    { pool, flushed: [] as number[] }
+  );
+
+/**
+ * Brings the pool in line with the pages after a statement: frames of freed pages (merges, DROP INDEX) are released,
+ * and newly dirtied pages join the end of the flush list.
+ */
+export const syncBufferPool = (pool: BufferPoolState, pages: PageData[]): BufferPoolState => {
+  const dirtyIds = new Set(pages.filter(p => p.isDirty).map(p => p.id));
+  const existing = new Set(pages.map(p => p.id));
+  const flushList = pool.flushList.filter(id => dirtyIds.has(id));
+  return {
+    ...pool,
+    lru: pool.lru.filter(frame => existing.has(frame.pageId)),
+    flushList: [...flushList, ...[...dirtyIds].filter(id => !flushList.includes(id))],
+  };
+};
+
+// Changes the number of frames, evicting (and writing back) pages from the LRU tail if the pool shrinks
+export const resizeBufferPool = (pool: BufferPoolState, capacity: number): { pool: BufferPoolState, flushed: number[] } =>
+  evictDownTo({ ...pool, capacity }, capacity);
@@ -0,0 +1,56 @@
+import { BufferedChange, ChangeBufferOp, ChangeBufferState } from '../types';
+
+const countNone = (): Record<ChangeBufferOp, number> => ({ INSERT: 0, DELETE_MARK: 0, DELETE: 0 });
+
+const countOps = (counts: Record<ChangeBufferOp, number>, changes: BufferedChange[]): Record<ChangeBufferOp, number> =>
+  changes.reduce((acc, change) => ({ ...acc, [change.op]: acc[change.op] + 1 }), counts);
+
+export const createChangeBuffer = (): ChangeBufferState => ({
+  entries: [],
+  nextSeq: 1,
+  merges: 0,
+  merged: countNone(),
+  discarded: countNone(),
+});
+
+// Changes waiting for one page, in merge order
+export const getPageChanges = (buffer: ChangeBufferState, pageId: number): BufferedChange[] =>
+  buffer.entries.filter(change => change.pageId === pageId);
+
+export const hasBufferedChanges = (buffer: ChangeBufferState, pageId: number): boolean =>
+  buffer.entries.some(change => change.pageId === pageId);
+
+// Pages with buffered changes, in the order of their oldest change
+export const getBufferedPageIds = (buffer: ChangeBufferState): number[] =>
+  [...new Set(buffer.entries.map(change => change.pageId))];
+
+export const addChange = (buffer: ChangeBufferState, change: Omit<BufferedChange, 'seq'>): ChangeBufferState => ({
+  ...buffer,
+  entries: [...buffer.entries, { ...change, seq: buffer.nextSeq }],
+  nextSeq: buffer.nextSeq + 1,
+});
+
+// The page was merged: its changes leave the buffer (ibuf_merge_or_delete_for_page)
+export const removePageChanges = (buffer: ChangeBufferState, pageId: number): ChangeBufferState => {
+  const changes = getPageChanges(buffer, pageId);
+  if (changes.length === 0) return buffer;
+  return {
+    ...buffer,
+    entries: buffer.entries.filter(change => change.pageId !== pageId),
+    merges: buffer.merges + 1,
+    merged: countOps(buffer.merged, changes),
+  };
+};
+
+// The index is gone: its changes are thrown away without being merged
+export const discardIndexChanges = (buffer: ChangeBufferState, indexName: string): ChangeBufferState => {
+  const changes = buffer.entries.filter(change => change.indexName === indexName);
+  return {
+    ...buffer,
+    entries: buffer.entries.filter(change => change.indexName !== indexName),
+    discarded: countOps(buffer.discarded, changes),
+  };
+};
+
+export const formatChangeOp = (op: ChangeBufferOp): string =>
+  op === 'INSERT' ? 'insert' : op === 'DELETE_MARK' ? 'delete-mark' : 'purge';
@@ -0,0 +1,38 @@
+import { DoublewriteState, PageData } from '../types';
+
+export const createDoublewrite = (enabled: boolean = true): DoublewriteState => ({
+  enabled,
+  pages: [],
+  batches: 0,
+  pagesWritten: 0,
+});
+
+// FNV-1a over the page content, standing in for buf_calc_page_crc32
+export const computePageChecksum = (page: PageData): number => {
+  const content = JSON.stringify([
+    page.id, page.indexName, page.level, page.lsn, page.prevPageId, page.nextPageId, page.heapTop, page.directory, page.freeList,
+    page.records.map(r => [r.id, r.values, r.isDeleteMarked ?? false, r.childPageId, r.heapNo, r.trxId, r.rollPtr]),
+  ]);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+// buf_page_is_corrupted: the checksum stored in the page no longer matches its content
+export const isPageCorrupted = (page: PageData): boolean =>
+  page.checksum !== undefined && page.checksum !== computePageChecksum(page);
+
+// One flush batch reaches the doublewrite buffer (synced) before any of its pages is written in place
+export const writeDoublewriteBatch = (doublewrite: DoublewriteState, images: PageData[]): DoublewriteState => ({
+  ...doublewrite,
+  pages: images,
+  batches: doublewrite.batches + 1,
+  pagesWritten: doublewrite.pagesWritten + images.length,
+});
+
+// The copy of a page the doublewrite buffer can restore it from, if it holds an intact one
+export const findDoublewriteCopy = (doublewrite: DoublewriteState, pageId: number): PageData | undefined =>
+  doublewrite.pages.find(p => p.id === pageId && !isPageCorrupted(p));
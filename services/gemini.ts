@@ -12,22 +12,29 @@ export const analyzeEngineState = async (state: EngineState): Promise<string> =>
     // Prepare a simplified JSON representation for the LLM
     const simplePages = state.pages.map(p => ({
       page_id: p.id,
-      records: p.records.map(r => r.id),
+      index: p.indexName,
+      level: p.level,
+      records: p.records.map(r => {
+        const key = p.indexName === 'PRIMARY' ? `${r.id}` : [...Object.values(r.values), r.id].join(',');
+        return r.childPageId !== undefined ? `${key}->page ${r.childPageId}` : key;
+      }),
       next_page: p.nextPageId,
       prev_page: p.prevPageId,
-      status: p.records.length >= 4 ? "FULL" : "HAS_SPACE"
+      used_bytes: p.usedBytes,
+      free_bytes: p.freeBytes
     }));
 
     const prompt = `
-      You are an expert Database Engineer. Analyze the following simplified InnoDB Leaf Node structure (Linked List of Pages).
+      You are an expert Database Engineer. Analyze the following simplified InnoDB B+Tree structure (level 0 = leaf pages, higher levels hold node pointers).
+      Table: ${JSON.stringify(state.schema)} (PRIMARY is the clustered index on id, every other index stores its key columns plus id).
       State: ${JSON.stringify(simplePages, null, 2)}
       
       Explain the current state of the storage engine to a student.
       Focus on:
       1. How the data is distributed across pages.
-      2. The sorting order (Primary Key).
-      3. Any recent splits or full pages (Capacity is 4).
-      4. The structure of the Doubly Linked List.
+      2. The sorting order (Primary Key, or key columns then Primary Key for secondary indexes).
+      3. Any recent splits or full pages (Page size is ${state.pageSize} bytes; splits happen when a record no longer fits).
+      4. The tree height and the Doubly Linked List on each level.
       
       Keep it concise (max 3 sentences) and encouraging.
     `;
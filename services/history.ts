@@ -0,0 +1,85 @@
+import { EngineState, HistoryState, PageData, PageDiff, RecordData, HISTORY_LIMIT } from '../types';
+
+export const createHistory = (state: EngineState): HistoryState => ({
+  entries: [{ id: 0, label: 'Start', timestamp: Date.now(), state }],
+  index: 0,
+  nextId: 1,
+});
+
+// Animation steps only touch the pages' highlight flags: every operation changes something else too
+const isSameOperation = (a: EngineState, b: EngineState): boolean =>
+  (Object.keys(b) as (keyof EngineState)[]).every(key => key === 'pages' || a[key] === b[key]);
+
+// The first thing the operation logged, or what it changed when it logged nothing
+const describeChange = (before: EngineState, after: EngineState): string => {
+  const known = after.logs.findIndex(log => log.id === before.logs[0]?.id);
+  const newLogs = known === -1 ? after.logs : after.logs.slice(0, known);
+  if (newLogs.length > 0) return newLogs[newLogs.length - 1].message;
+  if (before.splitStrategy !== after.splitStrategy) return `Split strategy: ${after.splitStrategy}`;
+  return 'Page accesses only (buffer pool, adaptive hash)';
+};
+
+/**
+ * Adds the engine state as a new entry after the current one, unless it belongs to the current one.
+ * Entries that were undone are dropped: a new operation starts a new branch.
+ */
+export const recordHistory = (history: HistoryState, state: EngineState): HistoryState => {
+  const current = history.entries[history.index].state;
+  if (current === state || isSameOperation(current, state)) return history;
+  const entry = { id: history.nextId, label: describeChange(current, state), timestamp: Date.now(), state };
+  const entries = [...history.entries.slice(0, history.index + 1), entry].slice(-HISTORY_LIMIT);
+  return { entries, index: entries.length - 1, nextId: history.nextId + 1 };
+};
+
+// Moves along the timeline without changing it; the engine is set to entries[index].state
+export const jumpToHistory = (history: HistoryState, index: number): HistoryState =>
+  ({ ...history, index: Math.max(0, Math.min(index, history.entries.length - 1)) });
+
+export const canUndo = (history: HistoryState): boolean => history.index > 0;
+export const canRedo = (history: HistoryState): boolean => history.index < history.entries.length - 1;
+
+// Highlight and animation flags are left out: only what the record stores counts
+const isSameRecord = (a: RecordData, b: RecordData): boolean =>
+  a.childPageId === b.childPageId &&
+  (a.isDeleteMarked ?? false) === (b.isDeleteMarked ?? false) &&
+  a.trxId === b.trxId &&
+  a.rollPtr === b.rollPtr &&
+  Object.keys(b.values).length === Object.keys(a.values).length &&
+  Object.entries(b.values).every(([column, value]) => a.values[column] === value);
+
+const diffPage = (before: PageData | undefined, after: PageData): PageDiff | null => {
+  const base = { pageId: after.id, indexName: after.indexName, level: after.level };
+  if (!before) {
+    return { ...base, change: 'ADDED', addedRecords: after.records.map(r => r.id), removedRecords: [], changedRecords: [], pointers: [] };
+  }
+  const beforeRecords = new Map(before.records.map(r => [r.id, r]));
+  const afterIds = new Set(after.records.map(r => r.id));
+  const addedRecords = after.records.filter(r => !beforeRecords.has(r.id)).map(r => r.id);
+  const changedRecords = after.records.filter(r => beforeRecords.has(r.id) && !isSameRecord(beforeRecords.get(r.id)!, r)).map(r => r.id);
+  const removedRecords = before.records.filter(r => !afterIds.has(r.id)).map(r => r.id);
+  const pointers = [
+    ...(before.prevPageId !== after.prevPageId ? ['prev' as const] : []),
+    ...(before.nextPageId !== after.nextPageId ? ['next' as const] : []),
+  ];
+  const isChanged = addedRecords.length + changedRecords.length + removedRecords.length + pointers.length > 0 || before.level !== after.level;
+  return isChanged ? { ...base, change: 'CHANGED', addedRecords, removedRecords, changedRecords, pointers } : null;
+};
+
+/**
+ * What happened to the pages between two engine states: pages allocated or freed, records
+ * inserted, removed or modified, and sibling links that were rewired (a split or merge shows all four).
+ */
+export const diffPages = (before: PageData[], after: PageData[]): PageDiff[] => {
+  const beforeById = new Map(before.map(p => [p.id, p]));
+  const afterIds = new Set(after.map(p => p.id));
+  const changed = after.flatMap(page => {
+    const previous = beforeById.get(page.id);
+    const diff = previous === page ? null : diffPage(previous, page);
+    return diff ? [diff] : [];
+  });
+  const removed = before.filter(p => !afterIds.has(p.id)).map((page): PageDiff => ({
+    pageId: page.id, indexName: page.indexName, level: page.level, change: 'REMOVED',
+    addedRecords: [], removedRecords: page.records.map(r => r.id), changedRecords: [], pointers: [],
+  }));
+  return [...changed, ...removed];
+};
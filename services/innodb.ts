@@ -1,311 +1,3615 @@
-import { EngineState, PageData, RecordData, PAGE_CAPACITY, LogEntry, IndexType, SimulationStep } from '../types';
+import {
+  EngineState, PageData, RecordData, LogEntry, SimulationStep, StatementResult, RangeQuery, SplitStrategy,
+  TableSchema, IndexDef, IndexBuildAlgorithm, IndexBuildReport, IndexFill, IndexCounters, IndexStats, RecordsPerPageBucket, CheckTableReport, CheckViolation, FaultKind, ColumnValue, RowValues, RowChanges, ColumnCondition, IndexLookup, AccessPath, AccessPathCost, AccessType, QueryPlan, OptimizerSwitch,
+  BufferPoolState, BufferedChange, ChangeBufferOp, ChangeBufferState, RedoRecord, RedoType, Session, ReadView, UndoRecord, UndoType, IsolationLevel, LockMode, LockType, LockRequest, RecordLock, PendingStatement, DeadlockInfo, PRIMARY_INDEX, DEFAULT_SCHEMA, DEFAULT_SESSIONS, MAX_SESSIONS, DEFAULT_BUFFER_POOL_FRAMES, CHANGE_BUFFER_MAX_SIZE_PCT, AHI_BUILD_LIMIT, INDEX_FILL_FACTOR, REDO_LOG_CAPACITY, MERGE_THRESHOLD, PAGE_HEAP_NO_USER_LOW, PAGE_DIR_SLOT_MIN_N_OWNED, PAGE_DIR_SLOT_MAX_N_OWNED, DEFAULT_PAGE_SIZE, DEFAULT_OPTIMIZER_SWITCH, IO_BLOCK_READ_COST, ROW_EVALUATE_COST, PAGE_OVERHEAD_BYTES, REC_HEADER_BYTES, VARLEN_HEADER_BYTES, ID_BYTES, CHILD_PAGE_NO_BYTES, HIDDEN_COLUMN_BYTES,
+} from '../types';
+import { createBufferPool, startStatement, accessPage, accessPages, isResident, syncBufferPool, resizeBufferPool } from './bufferPool';
+import { createChangeBuffer, getPageChanges, hasBufferedChanges, getBufferedPageIds, addChange, removePageChanges, discardIndexChanges, formatChangeOp } from './changeBuffer';
+import { createAdaptiveHash, findHashEntry, getHashedPageIds, recordTreeSearch, recordHashSearch, buildPageHash, updatePageHash, dropPageHash, dropIndexHash, disableAdaptiveHash } from './adaptiveHash';
+import { createDoublewrite, computePageChecksum, isPageCorrupted, writeDoublewriteBatch, findDoublewriteCopy } from './doublewrite';
+import { createSession, createReadView, isVisible, describeVisibility, describeReadView, seesLatestVersions, getVersionChain, findVisibleVersion } from './mvcc';
+import { toLockRecord, isSameLockTarget, findBlockingLocks, grantLocks, findDeadlockCycle, formatLockMode } from './locks';
 
 // --- Helpers ---
 
-const createPage = (id: number, type: IndexType): PageData => ({
+type CompareFn = (a: RecordData, b: RecordData) => number;
+
+const createPage = (id: number, indexName: string, pageSize: number, level: number = 0): PageData => ({
   id,
-  indexType: type,
+  indexName,
+  level,
   records: [],
+  usedBytes: PAGE_OVERHEAD_BYTES,
+  freeBytes: pageSize - PAGE_OVERHEAD_BYTES,
   nextPageId: null,
   prevPageId: null,
+  lastInsert: null,
+  direction: 'NO_DIRECTION',
+  nDirection: 0,
+  heapTop: PAGE_HEAP_NO_USER_LOW,
+  freeList: [],
+  directory: [1, 1], // The infimum and the supremum each own their slot
+  lsn: 0,
+});
+
+const addLog = (logs: LogEntry[], message: string, type: LogEntry['type'] = 'info'): LogEntry[] => {
+  return [
+    { id: Math.random().toString(36).substr(2, 9), timestamp: Date.now(), message, type },
+    ...logs.slice(0, 49)
+  ];
+};
+
+// Reset per-operation animation flags before applying a new statement (isDirty stays until the page is flushed)
+const clearFlags = (pages: PageData[]): PageData[] =>
+  pages.map(p => ({ ...p, isSplitting: false, isMerging: false, isIbufMerged: false, isHighlighted: false, highlightedSlot: undefined, records: p.records.map(r => ({...r, isNew: false, isHighlighted: false})) }));
+
+// --- Space Accounting ---
+
+const byteLength = (text: string): number => new TextEncoder().encode(text).length;
+
+// INT columns are fixed-length, VARCHAR columns cost their bytes plus a length byte
+const getColumnBytes = (value: ColumnValue): number =>
+  typeof value === 'number' ? ID_BYTES : VARLEN_HEADER_BYTES + byteLength(value);
+
+/**
+ * Bytes one record takes on a page (compact row format).
+ * Clustered leaf records carry the hidden DB_TRX_ID/DB_ROLL_PTR columns, secondary records carry the PK,
+ * and node pointers carry the key plus the child page number.
+ */
+export const getRecordSize = (indexName: string, record: RecordData): number => {
+  const columnBytes = Object.values(record.values).reduce<number>((sum, v) => sum + getColumnBytes(v), 0);
+  if (record.childPageId !== undefined) {
+    return REC_HEADER_BYTES + columnBytes + ID_BYTES + CHILD_PAGE_NO_BYTES;
+  }
+  return REC_HEADER_BYTES + ID_BYTES + columnBytes + (indexName === PRIMARY_INDEX ? HIDDEN_COLUMN_BYTES : 0);
+};
+
+const getRecordsBytes = (indexName: string, records: RecordData[]): number =>
+  records.reduce((sum, r) => sum + getRecordSize(indexName, r), 0);
+
+// Space left for records once the fixed page headers are accounted for
+export const getUsableBytes = (pageSize: number): number => pageSize - PAGE_OVERHEAD_BYTES;
+
+// Like InnoDB, a page must hold at least two records, so one record may use at most half of it
+export const getMaxRecordSize = (pageSize: number): number => Math.floor(getUsableBytes(pageSize) / 2);
+
+/**
+ * Checks a row against the size limit in every structure it will be stored in.
+ */
+export const isRowTooLarge = (schema: TableSchema, pageSize: number, row: RecordData): boolean => {
+  const sizes = [
+    getRecordSize(PRIMARY_INDEX, row),
+    ...schema.indexes.flatMap(index => {
+      const entry = toIndexEntry(index, row);
+      return [getRecordSize(index.name, entry), getRecordSize(index.name, toNodePointer(index.name, entry, 0))];
+    }),
+  ];
+  return Math.max(...sizes) > getMaxRecordSize(pageSize);
+};
+
+const refreshSpace = (pages: PageData[], pageSize: number): PageData[] =>
+  pages.map(p => {
+    const usedBytes = PAGE_OVERHEAD_BYTES + getRecordsBytes(p.indexName, p.records);
+    return usedBytes === p.usedBytes ? p : { ...p, usedBytes, freeBytes: pageSize - usedBytes };
+  });
+
+const isOverflow = (page: PageData, pageSize: number): boolean =>
+  getRecordsBytes(page.indexName, page.records) > getUsableBytes(pageSize);
+
+const isUnderflow = (page: PageData, pageSize: number): boolean =>
+  getRecordsBytes(page.indexName, page.records) * 100 < getUsableBytes(pageSize) * MERGE_THRESHOLD;
+
+// Split point that balances the bytes of both halves as evenly as possible
+const findByteSplitIndex = (indexName: string, records: RecordData[]): number => {
+  const sizes = records.map(r => getRecordSize(indexName, r));
+  const total = sizes.reduce((sum, size) => sum + size, 0);
+  let best = 1;
+  let bestWorst = Infinity;
+  let left = 0;
+  for (let i = 1; i < records.length; i++) {
+    left += sizes[i - 1];
+    const worst = Math.max(left, total - left);
+    if (worst <= bestWorst) {
+      bestWorst = worst;
+      best = i;
+    }
+  }
+  return best;
+};
+
+// Like page_cur_insert_rec_low: an insert right after PAGE_LAST_INSERT continues a RIGHT run,
+// one right before it continues a LEFT run, anything else breaks the run.
+const trackInsertDirection = (
+  page: PageData,
+  records: RecordData[],
+  insertPos: number,
+  compareFn: CompareFn
+): Pick<PageData, 'lastInsert' | 'direction' | 'nDirection'> => {
+  const { lastInsert, direction, nDirection } = page;
+  const before = records[insertPos - 1];
+  const after = records[insertPos + 1];
+  const { id, values } = records[insertPos];
+
+  if (lastInsert && before && compareFn(before, lastInsert) === 0 && direction !== 'LEFT') {
+    return { lastInsert: { id, values }, direction: 'RIGHT', nDirection: nDirection + 1 };
+  }
+  if (lastInsert && after && compareFn(after, lastInsert) === 0 && direction !== 'RIGHT') {
+    return { lastInsert: { id, values }, direction: 'LEFT', nDirection: nDirection + 1 };
+  }
+  return { lastInsert: { id, values }, direction: 'NO_DIRECTION', nDirection: 0 };
+};
+
+/**
+ * Split point for a page that overflowed after inserting records[insertPos].
+ * Like btr_page_get_split_rec_to_right/left: while inserts run in one direction the page splits at the
+ * insert point, so the full half stays full and only the new record starts the next page
+ * (this is why auto-increment keys leave pages nearly full). Otherwise the bytes are split 50/50.
+ */
+const findSplitIndex = (
+  page: PageData,
+  insertPos: number,
+  strategy: SplitStrategy,
+  pageSize: number
+): { splitIndex: number, atInsertPoint: boolean } => {
+  const { indexName, records, direction } = page;
+  const usable = getUsableBytes(pageSize);
+
+  if (strategy === 'INNODB' && direction !== 'NO_DIRECTION') {
+    // RIGHT: the new record opens the new page. LEFT: it stays behind as the last record of the old page.
+    const splitIndex = direction === 'RIGHT' ? insertPos : insertPos + 1;
+    const fits = splitIndex > 0 && splitIndex < records.length
+      && getRecordsBytes(indexName, records.slice(0, splitIndex)) <= usable
+      && getRecordsBytes(indexName, records.slice(splitIndex)) <= usable;
+    if (fits) return { splitIndex, atInsertPoint: true };
+  }
+  return { splitIndex: findByteSplitIndex(indexName, records), atInsertPoint: false };
+};
+
+
+// --- Page Format: heap, record list and page directory ---
+// `records` is the singly linked record list in key order (infimum -> ... -> supremum).
+// The heap numbers give the physical order, the directory slots group the list for binary search.
+
+type PageFormat = Pick<PageData, 'records' | 'heapTop' | 'freeList' | 'directory'>;
+
+// Slot whose group holds the record at `position` of the full list (infimum = 0, supremum = records + 1)
+export const findOwnerSlot = (directory: number[], position: number): number => {
+  let slot = 0;
+  let end = directory[0];
+  while (end <= position) end += directory[++slot];
+  return slot;
+};
+
+/**
+ * Directory after inserting a record at `position` of the full list: it joins the group of the record that
+ * now follows it. A slot that grows past PAGE_DIR_SLOT_MAX_N_OWNED is split in two (page_dir_split_slot).
+ */
+const insertIntoDirectory = (directory: number[], position: number): number[] => {
+  const slots = [...directory];
+  const slot = findOwnerSlot(slots, position);
+  slots[slot]++;
+  if (slots[slot] > PAGE_DIR_SLOT_MAX_N_OWNED) {
+    const lower = Math.floor(slots[slot] / 2);
+    slots.splice(slot, 1, lower, slots[slot] - lower);
+  }
+  return slots;
+};
+
+/**
+ * Directory after deleting the record at `position` of the full list. A slot that drops below
+ * PAGE_DIR_SLOT_MIN_N_OWNED takes a record from the next slot, or merges with it if that one
+ * has none to spare (page_dir_balance_slot). The supremum slot is never balanced.
+ */
+const deleteFromDirectory = (directory: number[], position: number): number[] => {
+  const slots = [...directory];
+  const slot = findOwnerSlot(slots, position);
+  slots[slot]--;
+  const up = slot + 1;
+  if (slots[slot] < PAGE_DIR_SLOT_MIN_N_OWNED && up < slots.length) {
+    if (slots[up] > PAGE_DIR_SLOT_MIN_N_OWNED) {
+      slots[slot]++;
+      slots[up]--;
+    } else {
+      slots.splice(slot, 2, slots[slot] + slots[up]);
+    }
+  }
+  return slots;
+};
+
+/**
+ * Inserts `records[insertPos]` (already in its key position) into the page format.
+ * The record takes the most recently freed space if it fits there, otherwise the next heap number.
+ * If the freed space (garbage) is what stands in the way, the page is reorganized first (btr_page_reorganize).
+ */
+const formatInsert = (page: PageData, records: RecordData[], insertPos: number): PageFormat => {
+  const bytes = getRecordSize(page.indexName, records[insertPos]);
+  const free = page.freeList[page.freeList.length - 1];
+  const reuse = free !== undefined && free.bytes >= bytes;
+  const garbage = page.freeList.reduce((sum, f) => sum + f.bytes, 0);
+  const usable = page.usedBytes + page.freeBytes - PAGE_OVERHEAD_BYTES;
+  if (!reuse && garbage > 0 && getRecordsBytes(page.indexName, records) + garbage > usable) {
+    const reorganized = formatCopy(records.filter((_, i) => i !== insertPos));
+    const withRecord = [...reorganized.records.slice(0, insertPos), records[insertPos], ...reorganized.records.slice(insertPos)];
+    return formatInsert({ ...page, ...reorganized }, withRecord, insertPos);
+  }
+  const heapNo = reuse ? free.heapNo : page.heapTop;
+  return {
+    records: records.map((r, i) => (i === insertPos ? { ...r, heapNo } : r)),
+    heapTop: reuse ? page.heapTop : page.heapTop + 1,
+    freeList: reuse ? page.freeList.slice(0, -1) : page.freeList,
+    directory: insertIntoDirectory(page.directory, insertPos + 1),
+  };
+};
+
+// Removes the record at `removePos`, its heap space goes onto the free list
+const formatDelete = (page: PageData, removePos: number): PageFormat => {
+  const removed = page.records[removePos];
+  return {
+    records: page.records.filter((_, i) => i !== removePos),
+    heapTop: page.heapTop,
+    freeList: removed.heapNo === undefined
+      ? page.freeList
+      : [...page.freeList, { heapNo: removed.heapNo, bytes: getRecordSize(page.indexName, removed) }],
+    directory: deleteFromDirectory(page.directory, removePos + 1),
+  };
+};
+
+// Appends records one by one after the last one, like page_copy_rec_list_end into an existing page
+const formatAppend = (page: PageData, records: RecordData[]): PageFormat =>
+  records.reduce<PageFormat>(
+    (format, record) => formatInsert({ ...page, ...format }, [...format.records, record], format.records.length),
+    { records: page.records, heapTop: page.heapTop, freeList: page.freeList, directory: page.directory }
+  );
+
+// A freshly created (or emptied) page filled in key order: heap order equals key order
+const formatCopy = (records: RecordData[]): PageFormat => ({
+  records: records.map((r, i) => ({ ...r, heapNo: PAGE_HEAP_NO_USER_LOW + i })),
+  heapTop: PAGE_HEAP_NO_USER_LOW + records.length,
+  freeList: [],
+  directory: records.reduce((directory, _, i) => insertIntoDirectory(directory, i + 1), [1, 1]),
+});
+
+/**
+ * Keeps the first `keep` records and frees the rest (page_delete_rec_list_end).
+ * Slots past the cut disappear, the records left in the cut slot join the supremum slot.
+ */
+const formatTruncate = (page: PageData, keep: number): PageFormat => {
+  const directory: number[] = [];
+  let start = 0;
+  for (const nOwned of page.directory) {
+    if (start + nOwned > keep + 1) break;
+    directory.push(nOwned);
+    start += nOwned;
+  }
+  directory.push(keep + 1 - start + 1);
+
+  const freed = page.records.slice(keep).filter(r => r.heapNo !== undefined);
+  return {
+    records: page.records.slice(0, keep),
+    heapTop: page.heapTop,
+    freeList: [...page.freeList, ...freed.map(r => ({ heapNo: r.heapNo!, bytes: getRecordSize(page.indexName, r) }))],
+    directory,
+  };
+};
+
+// --- Keys and Comparators ---
+
+export const getColumnValue = (record: RecordData, column: string): ColumnValue =>
+  column === 'id' ? record.id : record.values[column];
+
+/**
+ * Orders two column values. Search keys use -Infinity / Infinity for the key columns
+ * they leave open, so they sort before / after every real value.
+ */
+export const compareValues = (a: ColumnValue, b: ColumnValue): number => {
+  if (a === b) return 0;
+  if (a === -Infinity || b === Infinity) return -1;
+  if (a === Infinity || b === -Infinity) return 1;
+  return typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b));
+};
+
+export const formatValue = (value: ColumnValue): string => (typeof value === 'string' ? `'${value}'` : `${value}`);
+
+export const getIndexDef = (schema: TableSchema, indexName: string): IndexDef | undefined =>
+  schema.indexes.find(index => index.name === indexName);
+
+// The clustered index first, then the secondary indexes in creation order
+export const getIndexNames = (schema: TableSchema): string[] => [PRIMARY_INDEX, ...schema.indexes.map(index => index.name)];
+
+// Key columns as stored: secondary keys end with the primary key
+export const getKeyColumns = (schema: TableSchema, indexName: string): string[] =>
+  indexName === PRIMARY_INDEX ? ['id'] : [...(getIndexDef(schema, indexName)?.columns ?? []), 'id'];
+
+const compareByColumns = (columns: string[]): CompareFn => (a, b) => {
+  for (const column of columns) {
+    const c = compareValues(getColumnValue(a, column), getColumnValue(b, column));
+    if (c !== 0) return c;
+  }
+  return 0;
+};
+
+const comparePrimary: CompareFn = compareByColumns(['id']);
+
+export const getComparator = (schema: TableSchema, indexName: string): CompareFn =>
+  indexName === PRIMARY_INDEX ? comparePrimary : compareByColumns(getKeyColumns(schema, indexName));
+
+/**
+ * Search key that fixes the leading key columns and sets the rest to `fill`
+ * (-Infinity: position before the first match, Infinity: after the last one).
+ */
+const makeSearchKey = (keyColumns: string[], prefix: ColumnValue[], fill: number): RecordData => {
+  const key: RecordData = { id: fill, values: {} };
+  keyColumns.forEach((column, i) => {
+    const value = i < prefix.length ? prefix[i] : fill;
+    if (column === 'id') key.id = value as number;
+    else key.values[column] = value;
+  });
+  return key;
+};
+
+// Secondary index entry for a row: the key columns (in index order) plus the primary key
+const toIndexEntry = (index: IndexDef, row: RecordData): RecordData => ({
+  id: row.id,
+  values: Object.fromEntries(index.columns.map(column => [column, row.values[column]])),
+});
+
+// --- B+Tree Navigation ---
+
+/**
+ * The root is the single page on the highest level of an index.
+ * Like InnoDB, the root keeps its page number for the lifetime of the index.
+ */
+export const getRootPage = (pages: PageData[], indexName: string): PageData | undefined => {
+  const indexPages = pages.filter(p => p.indexName === indexName);
+  return indexPages.reduce<PageData | undefined>((root, p) => (!root || p.level > root.level ? p : root), undefined);
+};
+
+export const getTreeHeight = (pages: PageData[], indexName: string): number => {
+  const root = getRootPage(pages, indexName);
+  return root ? root.level + 1 : 0;
+};
+
+/**
+ * Picks the node pointer to follow: the last one whose key is <= the search key.
+ * The leftmost pointer of a page acts as "minus infinity" (InnoDB's REC_INFO_MIN_REC_FLAG).
+ */
+const findChildPointer = (page: PageData, key: RecordData, compareFn: CompareFn): RecordData => {
+  let chosen = page.records[0];
+  for (const ptr of page.records.slice(1)) {
+    if (compareFn(ptr, key) > 0) break;
+    chosen = ptr;
+  }
+  return chosen;
+};
+
+/**
+ * Descends from the root to the leaf where `key` belongs.
+ * Returns the visited page ids (root first, leaf last) and the node pointer taken on each non-leaf page.
+ */
+export const findLeafPath = (
+  pages: PageData[],
+  indexName: string,
+  key: RecordData,
+  compareFn: CompareFn
+): { path: number[], pointers: RecordData[] } => {
+  const path: number[] = [];
+  const pointers: RecordData[] = [];
+  let current = getRootPage(pages, indexName);
+
+  while (current) {
+    path.push(current.id);
+    if (current.level === 0 || current.records.length === 0) break;
+    const ptr = findChildPointer(current, key, compareFn);
+    pointers.push(ptr);
+    current = pages.find(p => p.id === ptr.childPageId);
+  }
+
+  return { path, pointers };
+};
+
+/**
+ * Descends along the leftmost ('first') or rightmost ('last') node pointers to an edge leaf.
+ */
+export const findEdgeLeafPath = (
+  pages: PageData[],
+  indexName: string,
+  edge: 'first' | 'last'
+): { path: number[], pointers: RecordData[] } => {
+  const path: number[] = [];
+  const pointers: RecordData[] = [];
+  let current = getRootPage(pages, indexName);
+
+  while (current) {
+    path.push(current.id);
+    if (current.level === 0 || current.records.length === 0) break;
+    const ptr = edge === 'first' ? current.records[0] : current.records[current.records.length - 1];
+    pointers.push(ptr);
+    current = pages.find(p => p.id === ptr.childPageId);
+  }
+
+  return { path, pointers };
+};
+
+/**
+ * Columns whose values must be distinct in an index: the PK for the clustered index,
+ * the declared key columns for a UNIQUE secondary index, null if duplicates are allowed.
+ */
+export const getUniqueColumns = (schema: TableSchema, indexName: string): string[] | null => {
+  if (indexName === PRIMARY_INDEX) return ['id'];
+  const index = getIndexDef(schema, indexName);
+  return index?.unique ? index.columns : null;
+};
+
+// Key as MySQL prints it in "Duplicate entry" errors: the values joined with '-'
+export const formatUniqueKey = (record: RecordData, columns: string[]): string =>
+  columns.map(column => getColumnValue(record, column)).join('-');
+
+/**
+ * The next page on a level. A pointer back to a page the walk already passed ends the walk:
+ * only a corrupted list has one (see injectFault), and CHECK TABLE reports it.
+ */
+const getNextSibling = (pages: PageData[], page: PageData, walked: Set<number>): PageData | undefined => {
+  walked.add(page.id);
+  return page.nextPageId === null || walked.has(page.nextPageId) ? undefined : pages.find(p => p.id === page.nextPageId);
+};
+
+/**
+ * Searches the whole index for the entries with the same key columns as `entry` (clustered records: the same PK),
+ * delete-marked ones included. Equal keys can span a page boundary, so it descends to the first leaf where the key
+ * could start and follows the leaf chain until the keys get larger (like row_ins_scan_sec_index_for_duplicate).
+ */
+const findKeyEntries = (pages: PageData[], indexName: string, entry: RecordData, compareFn: CompareFn): RecordData[] => {
+  const first = indexName === PRIMARY_INDEX ? entry : { ...entry, id: -Infinity };
+  const last = indexName === PRIMARY_INDEX ? entry : { ...entry, id: Infinity };
+  const { path } = findLeafPath(pages, indexName, first, compareFn);
+  const entries: RecordData[] = [];
+  let leaf = pages.find(p => p.id === path[path.length - 1]);
+  const walked = new Set<number>();
+
+  while (leaf) {
+    for (const record of leaf.records) {
+      if (compareFn(record, last) > 0) return entries;
+      if (compareFn(record, first) >= 0) entries.push(record);
+    }
+    leaf = getNextSibling(pages, leaf, walked);
+  }
+  return entries;
+};
+
+// A live entry with the same unique key as `entry`. The row `ignoreId` never clashes with itself.
+const findDuplicateEntry = (
+  pages: PageData[],
+  indexName: string,
+  entry: RecordData,
+  compareFn: CompareFn,
+  ignoreId?: number
+): RecordData | undefined =>
+  findKeyEntries(pages, indexName, entry, compareFn).find(record => !record.isDeleteMarked && record.id !== ignoreId);
+
+/**
+ * Checks a row against every unique index (PRIMARY included). Returns a "Duplicate entry" message, or null if valid.
+ * Pass `ignoreId` when the row replaces an existing one (UPDATE) so its own entries are not reported.
+ */
+export const validateUniqueKeys = (pages: PageData[], schema: TableSchema, row: RecordData, ignoreId?: number): string | null => {
+  for (const indexName of getIndexNames(schema)) {
+    const columns = getUniqueColumns(schema, indexName);
+    if (!columns) continue;
+    const index = getIndexDef(schema, indexName);
+    const entry = index ? toIndexEntry(index, row) : row;
+    if (findDuplicateEntry(pages, indexName, entry, getComparator(schema, indexName), ignoreId)) {
+      return `Duplicate entry '${formatUniqueKey(row, columns)}' for key '${indexName}'.`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Checks that the existing rows allow a new UNIQUE index. Returns a "Duplicate entry" message, or null if valid.
+ */
+export const validateUniqueIndexData = (pages: PageData[], index: IndexDef): string | null => {
+  if (!index.unique) return null;
+  const seen = new Set<string>();
+  for (const row of getLeafRecords(pages, PRIMARY_INDEX)) {
+    const key = JSON.stringify(index.columns.map(column => row.values[column]));
+    if (seen.has(key)) return `Duplicate entry '${formatUniqueKey(row, index.columns)}' for key '${index.name}'.`;
+    seen.add(key);
+  }
+  return null;
+};
+
+// An index key as data_locks.LOCK_DATA shows it: the PK, or the key columns followed by the PK
+export const formatKey = (indexName: string, record: RecordData): string =>
+  indexName === PRIMARY_INDEX ? `${record.id}` : `(${[...Object.values(record.values).map(formatValue), record.id].join(', ')})`;
+
+export const formatRow = (row: RecordData): string =>
+  `(${[row.id, ...Object.values(row.values).map(formatValue)].join(', ')})`;
+
+// Clustered node pointers only need the PK, secondary ones keep the whole key
+const toNodePointer = (indexName: string, record: RecordData, childPageId: number): RecordData => ({
+  id: record.id,
+  values: indexName === PRIMARY_INDEX ? {} : record.values,
+  childPageId,
+});
+
+// The clustered record of a PK, delete-marked or not
+const findClusteredRecord = (pages: PageData[], id: number): RecordData | undefined => {
+  const { path } = findLeafPath(pages, PRIMARY_INDEX, { id, values: {} }, comparePrimary);
+  const leaf = pages.find(p => p.id === path[path.length - 1]);
+  return leaf?.records.find(r => r.id === id);
+};
+
+/**
+ * Point lookup in the Clustered Index, ignoring delete-marked records.
+ */
+export const findRecordById = (pages: PageData[], id: number): RecordData | undefined => {
+  const record = findClusteredRecord(pages, id);
+  return record?.isDeleteMarked ? undefined : record;
+};
+
+/**
+ * All live leaf records of an index, in key order (following the leaf linked list).
+ */
+export const getLeafRecords = (pages: PageData[], indexName: string): RecordData[] =>
+  getLeafChain(pages, indexName).flatMap(leaf => leaf.records.filter(r => !r.isDeleteMarked));
+
+// The leaf pages of an index, first to last
+const getLeafChain = (pages: PageData[], indexName: string): PageData[] => {
+  const leaves: PageData[] = [];
+  const { path } = findEdgeLeafPath(pages, indexName, 'first');
+  let leaf = pages.find(p => p.id === path[path.length - 1]);
+  const walked = new Set<number>();
+  while (leaf) {
+    leaves.push(leaf);
+    leaf = getNextSibling(pages, leaf, walked);
+  }
+  return leaves;
+};
+
+// --- Redo Log ---
+
+// A page as it is logged and written to disk: its content, without the animation flags
+const toPageImage = (page: PageData): PageData => ({
+  ...page,
+  isDirty: false,
+  isSplitting: false,
+  isMerging: false,
+  isIbufMerged: false,
+  isHighlighted: false,
+  highlightedSlot: undefined,
+  checksum: undefined,
+  records: page.records.map(r => ({ ...r, isNew: false, isHighlighted: false })),
+});
+
+/**
+ * Redo records of one statement, in the order its mini-transactions change pages.
+ * `write` stamps the changed page with the next LSN (FIL_PAGE_LSN) and logs its new image.
+ */
+const createRedoWriter = (state: EngineState) => {
+  const records: RedoRecord[] = [];
+  let lsn = state.lsn;
+
+  const write = (type: RedoType, page: PageData, message: string): PageData => {
+    lsn++;
+    const stamped = { ...page, lsn };
+    records.push({ lsn, type, pageId: page.id, message, image: toPageImage(stamped) });
+    return stamped;
+  };
+
+  const free = (pageId: number, message: string) => {
+    lsn++;
+    records.push({ lsn, type: 'PAGE_FREE', pageId, message });
+  };
+
+  // Page splits and merges of the statement (MONITOR_INC in btr_page_split_and_insert / btr_compress), counted when it commits
+  const counted: { indexName: string, event: keyof IndexCounters }[] = [];
+  const count = (indexName: string, event: keyof IndexCounters) => {
+    counted.push({ indexName, event });
+  };
+
+  // The statement commits: its redo reaches the log
+  const commit = (next: EngineState): EngineState => ({
+    ...next,
+    lsn,
+    redoLog: [...next.redoLog, ...records],
+    indexCounters: counted.reduce((counters, { indexName, event }) => {
+      const current = counters[indexName] ?? { splits: 0, merges: 0 };
+      return { ...counters, [indexName]: { ...current, [event]: current[event] + 1 } };
+    }, next.indexCounters),
+  });
+
+  return { write, free, count, commit };
+};
+
+type RedoWriter = ReturnType<typeof createRedoWriter>;
+
+// A page as it is written to disk: its image, stamped with the checksum of its content (buf_flush_init_for_writing)
+const toDiskImage = (page: PageData): PageData => {
+  const image = toPageImage(page);
+  return { ...image, checksum: computePageChecksum(image) };
+};
+
+type DiskState = Pick<EngineState, 'diskPages' | 'doublewrite'>;
+
+/**
+ * Writes pages to disk: their current image replaces the one in the tablespace.
+ * With innodb_doublewrite the batch reaches the doublewrite buffer first, so a write torn by a crash can be repaired.
+ */
+const writePages = (disk: DiskState, pages: PageData[], pageIds: number[]): DiskState => {
+  const images = pages.filter(p => pageIds.includes(p.id)).map(toDiskImage);
+  return {
+    diskPages: [...disk.diskPages.filter(p => !pageIds.includes(p.id)), ...images],
+    doublewrite: disk.doublewrite.enabled && images.length > 0 ? writeDoublewriteBatch(disk.doublewrite, images) : disk.doublewrite,
+  };
+};
+
+/**
+ * Sharp checkpoint (like log_make_checkpoint): every dirty page is written to disk,
+ * so recovery can start at the current LSN and the redo log before it is free again.
+ */
+export const makeCheckpoint = (state: EngineState, reason: string = 'requested'): EngineState => {
+  const flushed = state.bufferPool.flushList;
+  const { diskPages, doublewrite } = writePages(state, state.pages, flushed);
+  return {
+    ...state,
+    pages: state.pages.map(p => (p.isDirty ? { ...p, isDirty: false } : p)),
+    // Freed pages leave the tablespace for good
+    diskPages: diskPages.filter(p => state.pages.some(page => page.id === p.id)),
+    doublewrite,
+    bufferPool: { ...state.bufferPool, flushList: [], flushes: state.bufferPool.flushes + flushed.length },
+    redoLog: [],
+    checkpointLsn: state.lsn,
+    logs: addLog(state.logs, `Checkpoint at LSN ${state.lsn} (${reason}): flushed ${flushed.length} dirty page(s), ${state.redoLog.length} redo record(s) freed.`, 'info'),
+  };
+};
+
+// log_free_check: before the redo log runs out of space, a checkpoint makes room
+const checkRedoSpace = (state: EngineState): EngineState =>
+  state.redoLog.length > REDO_LOG_CAPACITY ? makeCheckpoint(state, 'redo log full') : state;
+
+// --- Buffer Pool ---
+
+/**
+ * Ends a statement in the buffer pool. Every page it dirtied must sit in a frame:
+ * pages allocated by the statement (ids above pageCounterBefore) get one without a read.
+ * Pages written back by an eviction are clean again, and the flush list picks up the rest.
+ */
+const finishBufferPool = (
+  pool: BufferPoolState,
+  flushed: number[],
+  pages: PageData[],
+  pageCounterBefore: number,
+  disk: DiskState
+): { pages: PageData[], bufferPool: BufferPoolState } & DiskState => {
+  // Register the new dirty pages first, so that making room for the others writes them back
+  let current = syncBufferPool(pool, pages);
+  const written = [...flushed];
+  pages
+    .filter(p => p.isDirty && !written.includes(p.id) && !isResident(current, p.id))
+    .forEach(p => {
+      const result = accessPage(current, p.id, p.id > pageCounterBefore);
+      current = result.pool;
+      written.push(...result.flushed);
+    });
+
+  const cleaned = pages.map(p => (p.isDirty && written.includes(p.id) ? { ...p, isDirty: false } : p));
+  return {
+    pages: cleaned,
+    bufferPool: syncBufferPool(current, cleaned),
+    ...writePages(disk, cleaned, written.filter(id => cleaned.some(p => p.id === id))),
+  };
+};
+
+// Runs a statement's page reads through the buffer pool, then registers the pages it dirtied.
+// A page that still has buffered changes was never read: reading it would have merged them.
+// The adaptive hash index follows the pages the statement moved or evicted.
+const trackPageAccesses = (before: EngineState, after: EngineState, reads: number[]): EngineState => {
+  const { pool, flushed } = accessPages(startStatement(before.bufferPool), reads.filter(id => !hasBufferedChanges(after.changeBuffer, id)));
+  return checkRedoSpace(syncAdaptiveHash(before, { ...after, ...finishBufferPool(pool, flushed, after.pages, before.pageCounter, after) }));
+};
+
+// innodb_buffer_pool_size: a smaller pool evicts from the LRU tail, writing back the dirty victims (and dropping their hash entries)
+export const setBufferPoolSize = (state: EngineState, frames: number): EngineState => {
+  const { pool, flushed } = resizeBufferPool(state.bufferPool, frames);
+  const flushInfo = flushed.length > 0 ? `, flushed dirty page(s) ${flushed.join(', ')}` : '';
+  return {
+    ...state,
+    pages: state.pages.map(p => (flushed.includes(p.id) ? { ...p, isDirty: false } : p)),
+    ...writePages(state, state.pages, flushed),
+    bufferPool: pool,
+    adaptiveHash: dropPageHash(state.adaptiveHash, getHashedPageIds(state.adaptiveHash).filter(id => !isResident(pool, id))),
+    logs: addLog(state.logs, `Buffer pool resized to ${frames} frames (${state.bufferPool.lru.length - pool.lru.length} page(s) evicted${flushInfo}).`, 'info'),
+  };
+};
+
+// Pages a row change reads: the root-to-leaf path to the row's entry in every index
+const getRowPaths = (pages: PageData[], schema: TableSchema, row: RecordData): number[] =>
+  [
+    findLeafPath(pages, PRIMARY_INDEX, row, comparePrimary).path,
+    ...schema.indexes.map(index => findLeafPath(pages, index.name, toIndexEntry(index, row), getComparator(schema, index.name)).path),
+  ].flat();
+
+// --- Change Buffer ---
+
+// innodb_change_buffer_max_size: the bytes of buffered entries the change buffer may hold
+export const getChangeBufferCapacity = (state: EngineState): number =>
+  Math.floor((state.bufferPool.capacity * state.pageSize * CHANGE_BUFFER_MAX_SIZE_PCT) / 100);
+
+export const getChangeBufferBytes = (buffer: ChangeBufferState): number =>
+  buffer.entries.reduce((sum, change) => sum + getRecordSize(change.indexName, change.entry), 0);
+
+// Whether any lock is on a record of the leaf, or on its supremum (lock_sys.get_first on the page)
+const hasPageLocks = (state: EngineState, pages: PageData[], leaf: PageData): boolean => {
+  const compareFn = getComparator(state.schema, leaf.indexName);
+  return state.locks.some(l => l.indexName === leaf.indexName && (l.record === null
+    ? leaf.nextPageId === null
+    : findLeafPath(pages, leaf.indexName, l.record, compareFn).path.includes(leaf.id)));
+};
+
+/**
+ * Applies the buffered changes of one leaf page in the order they were buffered (ibuf_merge_or_delete_for_page).
+ * An insert over an equal delete-marked entry clears its delete mark, a delete-mark or delete of an entry that is not there is skipped.
+ */
+const applyBufferedChanges = (page: PageData, changes: BufferedChange[], compareFn: CompareFn, redo: RedoWriter): PageData =>
+  changes.reduce((current, { op, indexName, entry }) => {
+    const pos = current.records.findIndex(r => compareFn(r, entry) === 0);
+    const message = `[${indexName}] change buffer merge: ${formatChangeOp(op)} ${formatKey(indexName, entry)}`;
+    if (op === 'INSERT' && pos !== -1) {
+      return redo.write('REC_DELETE_MARK', { ...current, records: current.records.map((r, i) => (i === pos ? { ...entry, heapNo: r.heapNo, isNew: true } : r)), isDirty: true }, message);
+    }
+    if (op === 'INSERT') {
+      const record = { ...entry, isNew: true };
+      const records = [...current.records, record].sort(compareFn);
+      const insertPos = records.indexOf(record);
+      return redo.write('REC_INSERT', {
+        ...current,
+        ...trackInsertDirection(current, records, insertPos, compareFn),
+        ...formatInsert(current, records, insertPos),
+        isDirty: true,
+      }, message);
+    }
+    if (pos === -1) return current;
+    if (op === 'DELETE_MARK') {
+      return redo.write('REC_DELETE_MARK', { ...current, records: current.records.map((r, i) => (i === pos ? { ...r, isDeleteMarked: true } : r)), isDirty: true }, message);
+    }
+    return redo.write('REC_DELETE', { ...current, ...formatDelete(current, pos), lastInsert: null, isDirty: true }, message);
+  }, page);
+
+/**
+ * Change buffering of one statement (ibuf_insert). `buffer` records a change to a leaf page of a non-unique secondary
+ * index instead of reading the page, if it is not in the buffer pool and the statement has not touched it yet
+ * (never the root: every descent reads it), and the change cannot alter the tree: an insert must fit next to the
+ * inserts already buffered for the page (the free space the ibuf bitmap tracks), a delete must leave a record
+ * on the page and no lock may be on it.
+ * Returns the page the change was buffered for, or null if the caller has to apply it.
+ * `merge` brings a page up to date before it is read or changed; the merge itself goes through the redo log.
+ * `preview` shows pages with every change buffered so far merged, without touching them.
+ */
+const createChangeBufferWriter = (state: EngineState, redo: RedoWriter) => {
+  let buffer = state.changeBuffer;
+  const touched = new Set<number>();
+  const messages: { message: string, type: LogEntry['type'] }[] = [];
+
+  const bufferChange = (op: ChangeBufferOp, pages: PageData[], index: IndexDef, entry: RecordData): number | null => {
+    if (index.unique) return null;
+    const { path } = findLeafPath(pages, index.name, entry, getComparator(state.schema, index.name));
+    const leaf = pages.find(p => p.id === path[path.length - 1]);
+    if (!leaf || path.length < 2 || leaf.isDirty || touched.has(leaf.id) || isResident(state.bufferPool, leaf.id)) return null;
+
+    const pending = getPageChanges(buffer, leaf.id);
+    const bytes = getRecordSize(index.name, entry);
+    if (op === 'INSERT' && pending.filter(c => c.op === 'INSERT').reduce((sum, c) => sum + getRecordSize(c.indexName, c.entry), bytes) > leaf.freeBytes) return null;
+    if (op === 'DELETE' && (leaf.records.length - pending.filter(c => c.op === 'DELETE').length < 2 || hasPageLocks(state, pages, leaf))) return null;
+    if (getChangeBufferBytes(buffer) + bytes > getChangeBufferCapacity(state)) return null;
+
+    buffer = addChange(buffer, { op, pageId: leaf.id, indexName: index.name, entry: { id: entry.id, values: entry.values } });
+    messages.push({ message: `[${index.name}] Page ${leaf.id} is not in the buffer pool: ${formatChangeOp(op)} of ${formatKey(index.name, entry)} buffered in the change buffer.`, type: 'info' });
+    return leaf.id;
+  };
+
+  const merge = (pages: PageData[], pageId: number): PageData[] => {
+    touched.add(pageId);
+    const changes = getPageChanges(buffer, pageId);
+    if (changes.length === 0) return pages;
+    buffer = removePageChanges(buffer, pageId);
+    const page = pages.find(p => p.id === pageId);
+    if (!page) return pages;
+
+    const merged = { ...applyBufferedChanges(page, changes, getComparator(state.schema, page.indexName), redo), isIbufMerged: true };
+    messages.push({ message: `[${page.indexName}] Change buffer merge: ${changes.length} buffered change(s) applied to Page ${pageId} (${changes.map(c => `${formatChangeOp(c.op)} ${formatKey(c.indexName, c.entry)}`).join(', ')}).`, type: 'success' });
+    return refreshSpace(pages.map(p => (p.id === pageId ? merged : p)), state.pageSize);
+  };
+
+  const preview = (pages: PageData[]): PageData[] =>
+    withBufferedChanges({ ...state, pages, changeBuffer: buffer }).pages;
+
+  const commit = (next: EngineState): EngineState => ({
+    ...next,
+    changeBuffer: buffer,
+    logs: messages.reduce((logs, { message, type }) => addLog(logs, message, type), next.logs),
+  });
+
+  return { buffer: bufferChange, merge, preview, commit };
+};
+
+type ChangeBufferWriter = ReturnType<typeof createChangeBufferWriter>;
+
+// The pages as they are once every buffered change is merged: what row locks are taken and passed on against
+const withBufferedChanges = (state: EngineState): EngineState => {
+  if (state.changeBuffer.entries.length === 0) return state;
+  const ibuf = createChangeBufferWriter(state, createRedoWriter(state));
+  return { ...state, pages: getBufferedPageIds(state.changeBuffer).reduce(ibuf.merge, state.pages) };
+};
+
+/**
+ * A query reads its pages through the buffer pool, and a leaf read from disk gets its buffered changes merged first.
+ * The query runs on the pages as they are; if it reached pages with buffered changes, they are merged
+ * and the query runs again, with one IBUF_MERGE step right after it first reaches each merged page.
+ */
+const mergeOnRead = <A extends unknown[]>(query: (state: EngineState, ...args: A) => StatementResult) =>
+  (state: EngineState, ...args: A): StatementResult => {
+    const result = query(state, ...args);
+    const read = new Set(result.steps.map(step => step.targetPageId));
+    const pageIds = getBufferedPageIds(state.changeBuffer).filter(id => read.has(id));
+    if (pageIds.length === 0) return result;
+
+    const redo = createRedoWriter(state);
+    const ibuf = createChangeBufferWriter(state, redo);
+    const counts = new Map(pageIds.map(id => [id, getPageChanges(state.changeBuffer, id).length]));
+    const merged = redo.commit(ibuf.commit({ ...state, pages: pageIds.reduce(ibuf.merge, state.pages) }));
+    const rerun = mergeOnRead(query)(merged, ...args);
+
+    const announced = new Set<number>();
+    const steps = rerun.steps.flatMap(step => {
+      const count = counts.get(step.targetPageId);
+      if (count === undefined || announced.has(step.targetPageId)) return [step];
+      announced.add(step.targetPageId);
+      const page = merged.pages.find(p => p.id === step.targetPageId);
+      const merge: SimulationStep = {
+        stepId: 0,
+        message: `Page ${step.targetPageId}${page ? ` (${page.indexName})` : ''} had ${count} buffered change(s): merged from the change buffer as the page is read.`,
+        targetPageId: step.targetPageId,
+        type: 'IBUF_MERGE',
+      };
+      return [step, merge];
+    });
+    return { state: rerun.state, steps: steps.map((step, stepId) => ({ ...step, stepId })) };
+  };
+
+/**
+ * Background merge (ibuf_merge_in_background): the master thread reads the pages with buffered changes
+ * and merges them, so the change buffer empties while nothing asks for those pages.
+ */
+export const mergeChangeBuffer = (state: EngineState): EngineState => {
+  const pageIds = getBufferedPageIds(state.changeBuffer);
+  if (pageIds.length === 0) return { ...state, logs: addLog(state.logs, 'Change buffer merge: nothing is buffered.', 'info') };
+
+  const redo = createRedoWriter(state);
+  const ibuf = createChangeBufferWriter(state, redo);
+  const count = state.changeBuffer.entries.length;
+  const pages = pageIds.reduce(ibuf.merge, clearFlags(state.pages));
+  const logs = addLog(state.logs, `Background change buffer merge: reading ${pageIds.length} page(s) to apply ${count} buffered change(s).`, 'info');
+  return trackPageAccesses(state, redo.commit(ibuf.commit({ ...state, pages, logs })), pageIds);
+};
+
+// --- Transactions (MVCC) ---
+
+const getSession = (state: EngineState, sessionId?: number): Session | undefined =>
+  sessionId === undefined ? undefined : state.sessions.find(s => s.id === sessionId);
+
+const updateSession = (sessions: Session[], sessionId: number, changes: Partial<Session>): Session[] =>
+  sessions.map(s => (s.id === sessionId ? { ...s, ...changes } : s));
+
+// A transaction with changes may still roll back and a read view may still read old versions: either one holds back purge
+const hasOpenTransactions = (sessions: Session[]): boolean =>
+  sessions.some(s => s.trxId !== null || s.readView !== null);
+
+/**
+ * The read view of a consistent read (a plain SELECT). Under REPEATABLE READ a transaction takes it at its first read
+ * and keeps it until it ends; READ COMMITTED and autocommit statements take a new one every time.
+ * Returns the sessions with the view stored where it outlives the statement.
+ */
+export const openReadView = (state: EngineState, sessionId?: number): { view: ReadView, sessions: Session[], reused: boolean } => {
+  const session = getSession(state, sessionId);
+  if (session?.readView) return { view: session.readView, sessions: state.sessions, reused: true };
+
+  const view = createReadView(state.sessions, state.nextTrxId, session?.trxId ?? null);
+  const keep = session?.inTransaction && session.isolationLevel === 'REPEATABLE_READ';
+  return { view, sessions: keep ? updateSession(state.sessions, session.id, { readView: view }) : state.sessions, reused: false };
+};
+
+// Rows a consistent read with this view returns, in PK order
+export const getVisibleRows = (state: EngineState, view: ReadView): RecordData[] =>
+  getLeafChain(state.pages, PRIMARY_INDEX)
+    .flatMap(leaf => leaf.records)
+    .flatMap(record => findVisibleVersion(state.undoLog, record, view) ?? []);
+
+const formatReadViewStep = (view: ReadView, reused: boolean): string =>
+  `Consistent read with ${reused ? "the transaction's read view" : 'a new read view'}: ${describeReadView(view)}.`;
+
+/**
+ * Undo records of one statement, in the transaction of its session. A transaction started with BEGIN gets its id
+ * at its first change and keeps it until COMMIT / ROLLBACK; in autocommit mode every statement commits by itself.
+ * `write` logs the row before a change and returns the hidden columns (DB_TRX_ID, DB_ROLL_PTR) of the new version.
+ */
+const createUndoWriter = (state: EngineState, sessionId?: number) => {
+  const session = getSession(state, sessionId);
+  const explicit = session?.inTransaction ?? false;
+  const records: UndoRecord[] = [];
+  let trxId = session?.trxId ?? null;
+  let { nextTrxId, nextUndoNo } = state;
+
+  // The purge view: old versions can only go once no transaction or read view may need them
+  const canPurge = !hasOpenTransactions(state.sessions);
+
+  const getTrxId = (): number => {
+    if (trxId === null) trxId = nextTrxId++;
+    return trxId;
+  };
+
+  const write = (type: UndoType, rowId: number, previous?: RecordData): { trxId: number, rollPtr: number } => {
+    const undoNo = nextUndoNo++;
+    records.push({ undoNo, trxId: getTrxId(), type, rowId, previous: previous && { ...previous, isNew: false, isHighlighted: false } });
+    return { trxId: getTrxId(), rollPtr: undoNo };
+  };
+
+  // The statement failed and took its changes back
+  const discard = () => { records.length = 0; };
+
+  // How the statement ends, for the engine log
+  const describe = (): string =>
+    explicit ? `Trx ${getTrxId()} (not committed yet)` : `Transaction ${getTrxId()} Committed`;
+
+  // Autocommit commits right away (insert undo is not needed after commit), an explicit transaction stays active.
+  // When purge ran, the history list it worked through is gone.
+  // A read view taken before the transaction's first change becomes its own (trx_set_rw_mode), so it sees that change.
+  const commit = (next: EngineState): EngineState => {
+    const kept = explicit ? records : records.filter(r => r.type !== 'INSERT_REC');
+    const readView = session?.readView ? { ...session.readView, creatorTrxId: trxId } : null;
+    return {
+      ...next,
+      undoLog: [...(canPurge ? [] : next.undoLog), ...kept],
+      nextTrxId,
+      nextUndoNo,
+      sessions: explicit && trxId !== null ? updateSession(next.sessions, session!.id, { trxId, readView }) : next.sessions,
+    };
+  };
+
+  return { write, discard, describe, commit, canPurge, explicit };
+};
+
+// --- Locks ---
+
+// Record locks name index keys rather than page positions, so page splits and merges never move them.
+
+export const describeLock = (lock: LockRequest): string =>
+  `${formatLockMode(lock)} lock on ${lock.indexName} ${lock.record ? formatKey(lock.indexName, lock.record) : 'supremum pseudo-record'}`;
+
+const recordLock = (indexName: string, record: RecordData | null, mode: LockMode, type: LockType): LockRequest =>
+  ({ indexName, record: record && toLockRecord(indexName, record), mode, type });
+
+// The first record of an index after `key`, delete-marked ones included, or null if only the supremum follows
+const findNextRecord = (pages: PageData[], indexName: string, key: RecordData, compareFn: CompareFn): RecordData | null => {
+  const { path } = findLeafPath(pages, indexName, key, compareFn);
+  let leaf = pages.find(p => p.id === path[path.length - 1]);
+  const walked = new Set<number>();
+  while (leaf) {
+    const next = leaf.records.find(r => compareFn(r, key) > 0);
+    if (next) return next;
+    leaf = getNextSibling(pages, leaf, walked);
+  }
+  return null;
+};
+
+/**
+ * Locks for inserting `entry` into one index (row_ins_clust_index_entry / row_ins_sec_index_entry):
+ * - an entry with the same key is a duplicate: the duplicate check takes a shared lock on it (and the insert fails),
+ *   unless it is delete-marked, then the insert takes it over with an exclusive record lock
+ * - on a UNIQUE index, a shared next-key lock on every other entry with the same unique key, delete-marked or not
+ * - otherwise an insert intention lock on the gap it goes into, which belongs to the next record
+ */
+const getInsertLocks = (state: EngineState, indexName: string, entry: RecordData, gapLocks: boolean): LockRequest[] => {
+  const compareFn = getComparator(state.schema, indexName);
+  const sameKey = findKeyEntries(state.pages, indexName, entry, compareFn);
+  const existing = sameKey.find(r => compareFn(r, entry) === 0);
+  if (existing?.isDeleteMarked) return [recordLock(indexName, existing, 'X', 'REC_NOT_GAP')];
+  if (existing) return [recordLock(indexName, existing, 'S', gapLocks || indexName !== PRIMARY_INDEX ? 'NEXT_KEY' : 'REC_NOT_GAP')];
+
+  const duplicates = getUniqueColumns(state.schema, indexName) ? sameKey : [];
+  return [
+    ...duplicates.map(r => recordLock(indexName, r, 'S', 'NEXT_KEY')),
+    recordLock(indexName, findNextRecord(state.pages, indexName, entry, compareFn), 'X', 'INSERT_INTENTION'),
+  ];
+};
+
+/**
+ * Locks of a locking read (row_search_mvcc with FOR UPDATE / FOR SHARE) on the index the scan uses:
+ * - REPEATABLE READ locks every record the scan reaches with a next-key lock, and the first record past the range too
+ *   (only its gap after an equality on a non-unique key), so no insert can add a row to the range.
+ *   An equality on a whole unique key only locks the record it finds, or the gap where it would be.
+ * - READ COMMITTED locks the matching records only, without their gaps
+ * A secondary index scan also locks the clustered record of every entry it takes.
+ */
+const getScanLocks = (state: EngineState, query: RangeQuery, mode: LockMode, gapLocks: boolean): LockRequest[] => {
+  const { pages, schema } = state;
+  const path = chooseAccessPath(state, query);
+  const { indexName, equalityParts, rangeColumn } = path;
+  const { residual, position } = splitConditions(path, query);
+  const uniqueColumns = getUniqueColumns(schema, indexName);
+  const uniqueSearch = !rangeColumn && uniqueColumns !== null && equalityParts >= uniqueColumns.length;
+  const limit = !isOrderedByPath(path, query.orderBy) || query.descending ? Infinity : query.limit ?? Infinity;
+  const requests: LockRequest[] = [];
+  let found = false;
+  let matches = 0;
+
+  const pastRange = (next: RecordData | null): LockRequest[] => {
+    if (!gapLocks || (uniqueSearch && found)) return requests;
+    const gapOnly = next !== null && (uniqueSearch || (!rangeColumn && equalityParts > 0));
+    return [...requests, recordLock(indexName, next, mode, gapOnly ? 'GAP' : 'NEXT_KEY')];
+  };
+
+  for (const record of getLeafChain(pages, indexName).flatMap(leaf => leaf.records)) {
+    const pos = position(record);
+    if (pos < 0) continue;
+    if (pos > 0) return pastRange(record);
+
+    found = true;
+    const row = indexName === PRIMARY_INDEX ? record : findClusteredRecord(pages, record.id);
+    const matching = !!row && !row.isDeleteMarked && matchesConditions(row, residual);
+    if (gapLocks || matching) {
+      requests.push(recordLock(indexName, record, mode, gapLocks && !uniqueSearch ? 'NEXT_KEY' : 'REC_NOT_GAP'));
+      if (indexName !== PRIMARY_INDEX && row) requests.push(recordLock(PRIMARY_INDEX, row, mode, 'REC_NOT_GAP'));
+    }
+    if (matching && ++matches >= limit) return requests;
+  }
+  return pastRange(null);
+};
+
+/**
+ * Every lock a statement needs, requested before it changes anything:
+ * - INSERT: the insert locks of each row in every index
+ * - UPDATE / DELETE: an exclusive record lock on the clustered record (under REPEATABLE READ, the gap where it would be
+ *   if it does not exist), and on each secondary entry the change delete-marks; entries an UPDATE adds need insert locks
+ * - locking read: the locks of its scan
+ * Gap locks are only taken under REPEATABLE READ.
+ */
+const getStatementLocks = (state: EngineState, statement: PendingStatement, session?: Session): LockRequest[] => {
+  const { pages, schema } = state;
+  const gapLocks = (session?.isolationLevel ?? 'REPEATABLE_READ') === 'REPEATABLE_READ';
+
+  switch (statement.kind) {
+    case 'INSERT':
+      return statement.rows.flatMap(({ id, values }) => {
+        const row = buildRow(schema, id, values);
+        return [
+          ...getInsertLocks(state, PRIMARY_INDEX, row, gapLocks),
+          ...schema.indexes.flatMap(index => getInsertLocks(state, index.name, toIndexEntry(index, row), gapLocks)),
+        ];
+      });
+
+    case 'UPDATE':
+    case 'DELETE': {
+      const record = findClusteredRecord(pages, statement.id);
+      if (!record) {
+        const key = { id: statement.id, values: {} };
+        return gapLocks ? [recordLock(PRIMARY_INDEX, findNextRecord(pages, PRIMARY_INDEX, key, comparePrimary), 'X', 'GAP')] : [];
+      }
+      const requests = [recordLock(PRIMARY_INDEX, record, 'X', 'REC_NOT_GAP')];
+      if (record.isDeleteMarked) return requests;
+
+      if (statement.kind === 'DELETE') {
+        return [...requests, ...schema.indexes.map(index => recordLock(index.name, toIndexEntry(index, record), 'X', 'REC_NOT_GAP'))];
+      }
+      const newRow: RecordData = { id: statement.changes.id ?? record.id, values: { ...record.values, ...statement.changes.values } };
+      const pkChanged = newRow.id !== record.id;
+      return [
+        ...requests,
+        ...(pkChanged ? getInsertLocks(state, PRIMARY_INDEX, newRow, gapLocks) : []),
+        ...schema.indexes
+          .filter(index => pkChanged || index.columns.some(column => compareValues(newRow.values[column], record.values[column]) !== 0))
+          .flatMap(index => [
+            recordLock(index.name, toIndexEntry(index, record), 'X', 'REC_NOT_GAP'),
+            ...getInsertLocks(state, index.name, toIndexEntry(index, newRow), gapLocks),
+          ]),
+      ];
+    }
+
+    case 'SELECT':
+      return getScanLocks(state, statement.query, statement.query.lock ?? 'S', gapLocks);
+  }
+};
+
+// Whether a statement of this session would have to wait for a lock right now
+export const isLockWaitNeeded = (state: EngineState, statement: PendingStatement, sessionId: number): boolean =>
+  getStatementLocks(withBufferedChanges(state), statement, getSession(state, sessionId)).some(lock => findBlockingLocks(state.locks, lock, sessionId).length > 0);
+
+// The session's transaction was just rolled back to break a deadlock
+export const isDeadlockVictim = (before: EngineState, after: EngineState, sessionId: number): boolean =>
+  after.latestDeadlock !== before.latestDeadlock && after.latestDeadlock?.victimSessionId === sessionId;
+
+/**
+ * Keeps the locks on the records a statement inserted and removed (lock_update_insert, lock_rec_inherit_to_gap):
+ * a record inserted into a locked gap takes over the gap locks of the next record, as its own gap was part of that one;
+ * the locks of a record removed for good (purge, or the rollback of an insert) pass to the next record as gap locks.
+ * Buffered changes count as made, so a merge is never taken for an insert. Also returns the records that were inserted.
+ */
+const syncLocks = (before: EngineState, after: EngineState): { locks: RecordLock[], inserted: LockRequest[] } => {
+  let locks = after.locks;
+  const oldPages = withBufferedChanges(before).pages;
+  const newPages = withBufferedChanges(after).pages;
+  const inserted: LockRequest[] = [];
+  const inherit = (heir: LockRequest['record'], indexName: string, donors: RecordLock[]) => {
+    donors.forEach(l => { locks = grantLocks(locks, [{ indexName, record: heir, mode: l.mode, type: 'GAP' }], l.sessionId); });
+  };
+
+  getIndexNames(after.schema).forEach(indexName => {
+    const compareFn = getComparator(after.schema, indexName);
+    const keysOf = (pages: PageData[]) => getLeafChain(pages, indexName).flatMap(leaf => leaf.records.map(r => toLockRecord(indexName, r)));
+    const identify = (key: RecordData) => JSON.stringify([key.id, key.values]);
+    const oldKeys = keysOf(oldPages);
+    const newKeys = keysOf(newPages);
+    const oldIds = new Set(oldKeys.map(identify));
+    const newIds = new Set(newKeys.map(identify));
+    const nextOf = (key: RecordData) => newKeys.find(k => compareFn(k, key) > 0) ?? null;
+
+    oldKeys.filter(key => !newIds.has(identify(key))).forEach(removed => {
+      const target = { indexName, record: removed };
+      const held = locks.filter(l => l.granted && isSameLockTarget(l, target));
+      locks = locks.filter(l => !held.includes(l));
+      inherit(nextOf(removed), indexName, held.filter(l => l.type !== 'INSERT_INTENTION'));
+    });
+
+    // Last one first, so that a run of inserted records passes the gap locks on
+    newKeys.filter(key => !oldIds.has(identify(key))).reverse().forEach(key => {
+      const next = nextOf(key);
+      inherit(key, indexName, locks.filter(l => l.granted && isSameLockTarget(l, { indexName, record: next }) && l.type !== 'INSERT_INTENTION' && (next === null || l.type !== 'REC_NOT_GAP')));
+      inserted.push({ indexName, record: key, mode: 'X', type: 'REC_NOT_GAP' });
+    });
+  });
+  return { locks, inserted };
+};
+
+/**
+ * The statement waits: its request joins the lock queue and the session blocks until it is granted.
+ * If the wait closes a cycle of waiting sessions, that is a deadlock: the transaction with the smallest weight
+ * (undo records plus locks held, like trx_weight_ge) is rolled back, which releases its locks.
+ * On a tie the session that just started waiting is the victim.
+ */
+const waitForLock = (state: EngineState, sessionId: number, lock: LockRequest, blockers: RecordLock[], statement: PendingStatement): EngineState => {
+  const waiting: EngineState = {
+    ...state,
+    locks: [...state.locks, { ...lock, sessionId, granted: false }],
+    sessions: updateSession(state.sessions, sessionId, { pending: statement }),
+    logs: addLog(state.logs, `Session ${sessionId} waits for ${describeLock(lock)}: ${blockers.map(l => `session ${l.sessionId} holds ${formatLockMode(l)}`).join(', ')}.`, 'warning'),
+  };
+  const cycle = findDeadlockCycle(waiting.locks, sessionId);
+  if (!cycle) return waiting;
+
+  const weigh = (id: number): number => {
+    const trxId = getSession(waiting, id)!.trxId;
+    return waiting.undoLog.filter(u => trxId !== null && u.trxId === trxId).length + waiting.locks.filter(l => l.granted && l.sessionId === id).length;
+  };
+  const victim = cycle.reduce((a, b) => (weigh(b) < weigh(a) ? b : a));
+  const latestDeadlock: DeadlockInfo = {
+    cycle: cycle.map(id => ({ sessionId: id, trxId: getSession(waiting, id)!.trxId, weight: weigh(id), waitingFor: waiting.locks.find(l => !l.granted && l.sessionId === id)! })),
+    victimSessionId: victim,
+  };
+  const path = [...cycle, sessionId].map(id => `session ${id}`).join(' -> ');
+  return rollbackTransaction({
+    ...waiting,
+    locks: waiting.locks.filter(l => l.granted || l.sessionId !== victim),
+    sessions: updateSession(waiting.sessions, victim, { pending: null }),
+    latestDeadlock,
+    logs: addLog(waiting.logs, `Deadlock found when trying to get lock (${path}): rolling back the transaction of session ${victim}, the lightest with weight ${weigh(victim)}.`, 'error'),
+  }, victim);
+};
+
+/**
+ * Row locks of one statement, requested before it changes anything: either all of them are granted, or the statement
+ * waits for the first one it cannot get and runs again from the start once it has it (the simulator holds nothing
+ * while it waits). Autocommit releases the locks at commit, a transaction keeps them until COMMIT / ROLLBACK,
+ * together with an exclusive lock on every record it inserted (InnoDB's implicit lock, shown as an explicit one).
+ */
+const createLockWriter = (state: EngineState, sessionId?: number) => {
+  const session = getSession(state, sessionId);
+  const granted: LockRequest[] = [];
+
+  // Returns the state of the blocked statement, or null if it can go on
+  const request = (statement: PendingStatement): EngineState | null => {
+    // Locks name the records as they are once the buffered changes are merged
+    for (const lock of getStatementLocks(withBufferedChanges(state), statement, session)) {
+      const blockers = findBlockingLocks(state.locks, lock, session?.id ?? 0);
+      if (blockers.length === 0) {
+        granted.push(lock);
+      } else if (!session) {
+        return { ...state, logs: addLog(state.logs, `Lock wait timeout exceeded; try restarting transaction (${describeLock(lock)} is held by session ${blockers[0].sessionId}).`, 'error') };
+      } else {
+        return waitForLock(state, session.id, lock, blockers, statement);
+      }
+    }
+    return null;
+  };
+
+  const commit = (next: EngineState): EngineState => {
+    if (next.locks.length === 0 && !session?.inTransaction) return next;
+    const { locks, inserted } = syncLocks(state, next);
+    return { ...next, locks: session?.inTransaction ? grantLocks(locks, [...granted, ...inserted], session.id) : locks };
+  };
+
+  return { request, commit, granted };
+};
+
+// --- Step Recording ---
+
+/**
+ * Collects SimulationSteps for the UI player.
+ * `descend` walks root -> leaf, emitting one step per non-leaf page, and returns the leaf.
+ * Every page it visits is fetched through the buffer pool (pages above pageCounter are allocated by the statement itself),
+ * except the leaf without `readLeaf`, for a change the change buffer takes instead;
+ * `finish` settles the buffer pool at the end of the statement.
+ * `readVersion` reads a clustered record through `view`, the read view of a consistent read that may not see the latest versions.
+ */
+const createStepRecorder = (state: EngineState, view?: ReadView) => {
+  const { schema, pageCounter } = state;
+  const steps: SimulationStep[] = [];
+  let stepId = 0;
+  let pool = startStatement(state.bufferPool);
+  const flushed: number[] = [];
+
+  // Returns a note for the step message when the page had to be read from disk
+  const fetchPage = (pageId: number): string => {
+    const result = accessPage(pool, pageId, pageId > pageCounter);
+    pool = result.pool;
+    flushed.push(...result.flushed);
+    return result.access === 'MISS' ? ' (buffer pool miss: read from disk)' : '';
+  };
+
+  const addStep = (msg: string, pageId: number, type: SimulationStep['type'], recordId?: number, slot?: number, undoNo?: number) => {
+    steps.push({ stepId: stepId++, message: msg, targetPageId: pageId, type, targetRecordId: recordId, targetSlot: slot, undoNo });
+  };
+
+  const recordDescent = (pages: PageData[], { path, pointers }: { path: number[], pointers: RecordData[] }, readLeaf: boolean = true): PageData | undefined => {
+    pointers.forEach((ptr, depth) => {
+      const page = pages.find(p => p.id === path[depth])!;
+      const role = depth === 0 ? 'Root' : 'Non-leaf';
+      const miss = fetchPage(page.id);
+      addStep(`${role} Page ${page.id} (level ${page.level})${miss}: following node pointer to Page ${ptr.childPageId}...`, page.id, 'SCAN_PAGE', ptr.id);
+    });
+    const leafId = path[path.length - 1];
+    if (!readLeaf) return pages.find(p => p.id === leafId);
+    const miss = fetchPage(leafId);
+    if (miss) addStep(`Leaf Page ${leafId}${miss}.`, leafId, 'SCAN_PAGE');
+    return pages.find(p => p.id === leafId);
+  };
+
+  const descend = (pages: PageData[], indexName: string, key: RecordData, readLeaf: boolean = true): PageData | undefined =>
+    recordDescent(pages, findLeafPath(pages, indexName, key, getComparator(schema, indexName)), readLeaf);
+
+  const descendToEdge = (pages: PageData[], indexName: string, edge: 'first' | 'last'): PageData | undefined =>
+    recordDescent(pages, findEdgeLeafPath(pages, indexName, edge));
+
+  /**
+   * Positions on the first record >= key inside one page, like page_cur_search_with_match:
+   * a binary search over the directory slots, then a short walk along the record list inside one slot's group.
+   */
+  const searchPage = (page: PageData, indexName: string, key: RecordData): RecordData | undefined => {
+    const compareFn = getComparator(schema, indexName);
+    // Owner of a slot = the last record of its group (full-list position, infimum = 0)
+    const ownerPosition = (slot: number) => page.directory.slice(0, slot + 1).reduce((sum, n) => sum + n, 0) - 1;
+    let low = 0;
+    let up = page.directory.length - 1;
+    addStep(`Page ${page.id}: binary search over ${page.directory.length} directory slots (slot 0 = infimum, slot ${up} = supremum)...`, page.id, 'SEARCH_DIRECTORY');
+
+    while (up - low > 1) {
+      const mid = Math.floor((low + up) / 2);
+      const owner = page.records[ownerPosition(mid) - 1];
+      if (compareFn(owner, key) < 0) {
+        low = mid;
+        addStep(`Slot ${mid} owner ${formatKey(indexName, owner)} < key: continue in slots ${mid}..${up}.`, page.id, 'SEARCH_DIRECTORY', owner.id, mid);
+      } else {
+        up = mid;
+        addStep(`Slot ${mid} owner ${formatKey(indexName, owner)} >= key: continue in slots ${low}..${mid}.`, page.id, 'SEARCH_DIRECTORY', owner.id, mid);
+      }
+    }
+
+    // Linear walk from the owner of `low` (exclusive) through the group of `up`
+    const groupRecords = page.records.slice(ownerPosition(low), ownerPosition(up));
+    const visited = groupRecords.findIndex(r => compareFn(r, key) >= 0);
+    const found = visited === -1 ? undefined : groupRecords[visited];
+    addStep(
+      `Slot ${up} owns the key: walked ${visited === -1 ? groupRecords.length : visited + 1} record(s) of its group along the next-record list${found ? `, positioned on ${formatKey(indexName, found)}` : ', reached the end of the page'}.`,
+      page.id, 'SEARCH_DIRECTORY', found?.id, up
+    );
+    return found;
+  };
+
+  /**
+   * Returns the version of a clustered record the read view sees, or null if the row does not exist for it.
+   * A record whose DB_TRX_ID is invisible is followed along DB_ROLL_PTR, one READ_UNDO step per undo record.
+   */
+  const readVersion = (record: RecordData, pageId: number): RecordData | null => {
+    if (!view || isVisible(view, record.trxId ?? 0)) return record.isDeleteMarked ? null : record;
+
+    const [, ...older] = getVersionChain(state.undoLog, record);
+    const next = older.length > 0 ? `following DB_ROLL_PTR to undo record #${older[0].undoNo}...` : 'and there is no older version: the row did not exist yet for this read view.';
+    addStep(`Record ${record.id} has DB_TRX_ID ${record.trxId}: not visible (${describeVisibility(view, record.trxId!)}), ${next}`, pageId, 'READ_UNDO', record.id, undefined, older[0]?.undoNo);
+    if (older.length === 0) return null;
+
+    for (const { version, undoNo } of older) {
+      const trxId = version.trxId ?? 0;
+      if (isVisible(view, trxId)) {
+        const deleted = version.isDeleteMarked ? ' It is delete-marked: the row was already deleted for this read view.' : '';
+        addStep(`Undo record #${undoNo}: version ${formatRow(version)} of trx ${trxId} is visible (${describeVisibility(view, trxId)}).${deleted}`, pageId, 'READ_UNDO', record.id, undefined, undoNo);
+        return version.isDeleteMarked ? null : version;
+      }
+      addStep(`Undo record #${undoNo}: version of trx ${trxId} is not visible either (${describeVisibility(view, trxId)}).`, pageId, 'READ_UNDO', record.id, undefined, undoNo);
+    }
+
+    addStep(`End of the version chain: no version of row ${record.id} is visible, the row did not exist yet for this read view.`, pageId, 'READ_UNDO', record.id);
+    return null;
+  };
+
+  const finish = (next: EngineState): EngineState =>
+    checkRedoSpace(syncAdaptiveHash(state, { ...next, ...finishBufferPool(pool, flushed, next.pages, pageCounter, next) }));
+
+  return { steps, addStep, descend, descendToEdge, searchPage, fetchPage, readVersion, finish };
+};
+
+type StepRecorder = ReturnType<typeof createStepRecorder>;
+
+// --- Adaptive Hash Index ---
+
+// Redo after which a page's hash entries no longer point at its records: they moved, or the page is gone
+const AHI_DROP_REDO: RedoType[] = ['PAGE_CREATE', 'PAGE_FREE', 'LIST_END_COPY', 'LIST_END_DELETE'];
+
+// The leading key columns of an index record: what the adaptive hash index folds
+const getKeyPrefix = (schema: TableSchema, indexName: string) => (record: RecordData, nFields: number): ColumnValue[] =>
+  getKeyColumns(schema, indexName).slice(0, nFields).map(column => getColumnValue(record, column));
+
+const formatPrefix = (prefix: ColumnValue[]): string => `(${prefix.map(formatValue).join(', ')})`;
+
+/**
+ * Ends a statement in the adaptive hash index. A hashed page the statement split, merged or freed loses its entries,
+ * and so does one that left the buffer pool; records inserted or deleted on a hashed page update its entries.
+ */
+const syncAdaptiveHash = (before: EngineState, after: EngineState): EngineState => {
+  const hashed = getHashedPageIds(after.adaptiveHash);
+  if (hashed.length === 0) return after;
+
+  const redo = after.redoLog.filter(r => r.lsn > before.lsn && hashed.includes(r.pageId));
+  const moved = [...new Set(redo.filter(r => AHI_DROP_REDO.includes(r.type)).map(r => r.pageId))];
+  const evicted = hashed.filter(id => !moved.includes(id) && !isResident(after.bufferPool, id));
+  const changed = [...new Set(redo.map(r => r.pageId))].filter(id => !moved.includes(id) && !evicted.includes(id));
+  const adaptiveHash = changed.reduce((ahi, id) => {
+    const page = after.pages.find(p => p.id === id)!;
+    return updatePageHash(ahi, page, getKeyPrefix(after.schema, page.indexName));
+  }, dropPageHash(after.adaptiveHash, [...moved, ...evicted]));
+
+  let { logs } = after;
+  if (moved.length > 0) logs = addLog(logs, `Adaptive hash index: dropped the entries of Page(s) ${moved.join(', ')}, their records moved (split, merge or page freed).`, 'info');
+  if (evicted.length > 0) logs = addLog(logs, `Adaptive hash index: dropped the entries of Page(s) ${evicted.join(', ')}, evicted from the buffer pool.`, 'info');
+  return { ...after, adaptiveHash, logs };
+};
+
+/**
+ * Point lookups through the adaptive hash index, on top of a statement's step recorder.
+ * `guess` tries the hash first (btr_search_guess_on_hash): a hit positions on the record without any descent,
+ * a guess that fails the check falls back to the tree. `learn` records a lookup that descended the tree,
+ * and hashes the leaf once the access pattern has reached it often enough.
+ */
+const createAdaptiveHashWriter = (state: EngineState, recorder: Pick<StepRecorder, 'addStep' | 'fetchPage'>) => {
+  const { schema } = state;
+  let ahi = state.adaptiveHash;
+
+  // btr_search_check_guess: a unique key matches once; a prefix must not start before the record,
+  // which cannot be checked when the record is the first on a page with a left neighbour
+  const checkGuess = (page: PageData, indexName: string, record: RecordData | undefined): string | null => {
+    if (!record) return 'the record is gone';
+    if (indexName === PRIMARY_INDEX) return null;
+    return page.records[0] === record && page.prevPageId !== null
+      ? 'the record is the first on its page and the previous page cannot be checked'
+      : null;
+  };
+
+  const guess = (pages: PageData[], indexName: string, prefix: ColumnValue[]): { leaf: PageData, record: RecordData } | null => {
+    const entry = ahi.enabled ? findHashEntry(ahi, indexName, prefix) : undefined;
+    const page = entry && pages.find(p => p.id === entry.pageId);
+    if (!entry || !page) return null;
+
+    const record = page.records.find(r => r.id === entry.recordId);
+    const failure = checkGuess(page, indexName, record);
+    if (failure || !record) {
+      recorder.addStep(`AHI guess for ${indexName} ${formatPrefix(prefix)} points at Page ${page.id}, but ${failure}: descending the tree instead.`, page.id, 'SCAN_PAGE');
+      return null;
+    }
+    ahi = recordHashSearch(ahi);
+    recorder.fetchPage(page.id);
+    recorder.addStep(`AHI hit: the hash of ${indexName} ${formatPrefix(prefix)} points at ${formatKey(indexName, record)} in Leaf Page ${page.id}. Skipping the descent from the root.`, page.id, 'AHI_HIT', record.id);
+    return { leaf: page, record };
+  };
+
+  const learn = (indexName: string, prefix: ColumnValue[], leaf: PageData) => {
+    if (!ahi.enabled) return;
+    const searched = recordTreeSearch(ahi, indexName, prefix.length, leaf.id);
+    ahi = searched.ahi;
+    if (!searched.build) return;
+    ahi = buildPageHash(ahi, leaf, prefix.length, getKeyPrefix(schema, indexName));
+    const count = ahi.entries.filter(entry => entry.pageId === leaf.id).length;
+    recorder.addStep(
+      `Adaptive hash index: ${ahi.info[indexName].potential} lookups in a row on ${indexName} fixed ${prefix.length} key column(s), and Page ${leaf.id} served ${AHI_BUILD_LIMIT} of them: hashed its ${count} prefix(es), the next lookup can skip the descent.`,
+      leaf.id, 'SCAN_PAGE'
+    );
+  };
+
+  // The statement ends: what it taught the hash index stays
+  const commit = (next: EngineState): EngineState => ({ ...next, adaptiveHash: ahi });
+
+  return { guess, learn, commit };
+};
+
+// innodb_adaptive_hash_index: switching it off empties the hash index
+export const setAdaptiveHashIndex = (state: EngineState, enabled: boolean): EngineState => {
+  if (enabled === state.adaptiveHash.enabled) return state;
+  const dropped = getHashedPageIds(state.adaptiveHash).length;
+  return {
+    ...state,
+    adaptiveHash: enabled ? { ...state.adaptiveHash, enabled } : disableAdaptiveHash(state.adaptiveHash),
+    logs: addLog(state.logs, enabled
+      ? 'Adaptive hash index enabled: it starts learning the lookups again.'
+      : `Adaptive hash index disabled: the entries of ${dropped} hashed page(s) are gone, every lookup descends the tree.`, 'info'),
+  };
+};
+
+// optimizer_switch: index_condition_pushdown and mrr, the flags the range scans honour
+export const setOptimizerSwitch = (state: EngineState, changes: Partial<OptimizerSwitch>): EngineState => {
+  const optimizerSwitch = { ...state.optimizerSwitch, ...changes };
+  const flag = (on: boolean) => (on ? 'on' : 'off');
+  return {
+    ...state,
+    optimizerSwitch,
+    logs: addLog(state.logs, `optimizer_switch: index_condition_pushdown=${flag(optimizerSwitch.indexConditionPushdown)}, mrr=${flag(optimizerSwitch.mrr)}.`, 'info'),
+  };
+};
+
+// --- Core Logic ---
+
+export const initializeEngine = (
+  pageSize: number = DEFAULT_PAGE_SIZE,
+  splitStrategy: SplitStrategy = 'INNODB',
+  schema: TableSchema = DEFAULT_SCHEMA,
+  bufferPoolFrames: number = DEFAULT_BUFFER_POOL_FRAMES
+): EngineState => {
+  // One root page per index: the Primary (clustered) Index first, then every Secondary Index.
+  // Each starts as a root page on level 0 (root and leaf at the same time).
+  const pages = getIndexNames(schema).map((indexName, i) => createPage(i + 1, indexName, pageSize));
+  const secondaryInfo = schema.indexes.length > 0
+    ? `Secondary Indexes ${schema.indexes.map(index => `${index.unique ? 'UNIQUE ' : ''}${index.name} (${index.columns.join(', ')})`).join(', ')}`
+    : 'no Secondary Index';
+  
+  return {
+    pages,
+    logs: addLog([], `InnoDB Engine Initialized (page size ${pageSize} bytes). Created table ${schema.name} with Primary Clustered Index and ${secondaryInfo}.`, 'success'),
+    pageCounter: pages.length,
+    pageSize,
+    splitStrategy,
+    schema,
+    bufferPool: createBufferPool(bufferPoolFrames),
+    changeBuffer: createChangeBuffer(),
+    adaptiveHash: createAdaptiveHash(),
+    // CREATE TABLE writes the empty root pages to disk: the log starts clean
+    diskPages: pages.map(toDiskImage),
+    doublewrite: createDoublewrite(),
+    redoLog: [],
+    lsn: 0,
+    checkpointLsn: 0,
+    sessions: Array.from({ length: DEFAULT_SESSIONS }, (_, i) => createSession(i + 1)),
+    nextTrxId: 1,
+    undoLog: [],
+    nextUndoNo: 1,
+    locks: [],
+    latestDeadlock: null,
+    indexCounters: {},
+    optimizerSwitch: DEFAULT_OPTIMIZER_SWITCH,
+  };
+};
+
+/**
+ * Generic function to insert a record into a specific B+Tree index
+ * and handle splitting logic on every level, up to raising the root.
+ * With `ibuf`, the leaves it changes get their buffered changes merged first.
+ */
+const insertIntoIndex = (
+  pages: PageData[],
+  indexName: string,
+  record: RecordData,
+  compareFn: CompareFn,
+  pageCounter: number,
+  logBuffer: LogEntry[],
+  pageSize: number,
+  splitStrategy: SplitStrategy,
+  redo: RedoWriter,
+  unique: boolean = false,
+  ibuf?: ChangeBufferWriter
+): { pages: PageData[], newPageCounter: number, logs: LogEntry[], inserted: boolean } => {
+  
+  let currentPages = [...pages];
+  let counter = pageCounter;
+  let logs = [...logBuffer];
+
+  // 1. Find Target Page: descend from the root through the node pointers
+  const { path } = findLeafPath(currentPages, indexName, record, compareFn);
+  if (path.length === 0) return { pages: currentPages, newPageCounter: counter, logs, inserted: false };
+
+  const targetPageId = path[path.length - 1];
+  if (ibuf) currentPages = ibuf.merge(currentPages, targetPageId);
+  const pageIndex = currentPages.findIndex(p => p.id === targetPageId);
+  const targetPage = currentPages[pageIndex];
+
+  // Duplicate check on the whole index: always for the PK, for secondary indexes only when UNIQUE
+  if (indexName === PRIMARY_INDEX || unique) {
+    const duplicate = findDuplicateEntry(currentPages, indexName, record, compareFn);
+    if (duplicate) {
+      const columns = indexName === PRIMARY_INDEX ? ['id'] : Object.keys(record.values);
+      logs = addLog(logs, `[${indexName}] Duplicate Key Error: entry '${formatUniqueKey(record, columns)}' exists (PK ${duplicate.id}).`, 'error');
+      return { pages: currentPages, newPageCounter: counter, logs, inserted: false };
+    }
+  }
+
+  // 2. Insert and Sort, remembering where the record landed for the split heuristic.
+  // An equal delete-marked record (kept for older read views) is overwritten in place instead (row_ins_*_index_entry_by_modify).
+  const markedPos = targetPage.records.findIndex(r => r.isDeleteMarked && compareFn(r, record) === 0);
+  let insertPos: number;
+  if (markedPos !== -1) {
+    insertPos = markedPos;
+    currentPages[pageIndex] = redo.write(indexName === PRIMARY_INDEX ? 'REC_UPDATE' : 'REC_DELETE_MARK', {
+      ...targetPage,
+      records: targetPage.records.map((r, i) => (i === markedPos ? { ...record, heapNo: r.heapNo } : r)),
+      isDirty: true,
+      isSplitting: false
+    }, `[${indexName}] insert ${formatKey(indexName, record)} over its delete-marked record`);
+  } else {
+    const updatedRecords = [...targetPage.records, record].sort(compareFn);
+    insertPos = updatedRecords.indexOf(record);
+
+    currentPages[pageIndex] = redo.write('REC_INSERT', {
+      ...targetPage,
+      ...trackInsertDirection(targetPage, updatedRecords, insertPos, compareFn),
+      ...formatInsert(targetPage, updatedRecords, insertPos),
+      isDirty: true,
+      isSplitting: false
+    }, `[${indexName}] insert ${formatKey(indexName, record)}`);
+  }
+
+  // 3. Check Split, walking back up the path while pages overflow
+  let depth = path.length - 1;
+  while (depth >= 0) {
+    const overflowId = path[depth];
+    const overflowIndex = currentPages.findIndex(p => p.id === overflowId);
+    const overflowPage = currentPages[overflowIndex];
+    if (!isOverflow(overflowPage, pageSize)) break;
+
+    // Root split: move the root's contents into a new child and raise the root by one level.
+    // The root page number never changes, the tree just gets taller.
+    if (depth === 0) {
+      counter++;
+      const childId = counter;
+      const child = redo.write('LIST_END_COPY', {
+        ...createPage(childId, indexName, pageSize, overflowPage.level),
+        ...formatCopy(overflowPage.records),
+        lastInsert: overflowPage.lastInsert,
+        direction: overflowPage.direction,
+        nDirection: overflowPage.nDirection,
+        isDirty: true,
+      }, `[${indexName}] root raise: new page with all ${overflowPage.records.length} records of root Page ${overflowId}`);
+      currentPages[overflowIndex] = redo.write('PAGE_CREATE', {
+        ...overflowPage,
+        level: overflowPage.level + 1,
+        ...formatCopy([toNodePointer(indexName, overflowPage.records[0], childId)]),
+        lastInsert: null,
+        direction: 'NO_DIRECTION',
+        nDirection: 0,
+        isDirty: true,
+      }, `[${indexName}] root raise: root re-created on level ${overflowPage.level + 1} with a node pointer to Page ${childId}`);
+      currentPages.push(child);
+      logs = addLog(logs, `[${indexName}] Root Page ${overflowId} full. Raising root: contents moved to Page ${childId}, tree height is now ${overflowPage.level + 2}.`, 'warning');
+
+      path.splice(1, 0, childId);
+      depth = 1;
+      continue;
+    }
+
+    const levelName = overflowPage.level === 0 ? 'Leaf' : 'Non-leaf';
+    const needed = getRecordsBytes(indexName, overflowPage.records);
+    logs = addLog(logs, `[${indexName}] ${levelName} Page ${overflowId} full (${needed}/${getUsableBytes(pageSize)} bytes). Splitting...`, 'warning');
+    
+    counter++;
+    const newPageId = counter;
+    const newPage = createPage(newPageId, indexName, pageSize, overflowPage.level);
+
+    const { splitIndex, atInsertPoint } = findSplitIndex(overflowPage, insertPos, splitStrategy, pageSize);
+    const keepRecords = overflowPage.records.slice(0, splitIndex);
+    const moveRecords = overflowPage.records.slice(splitIndex);
+    const insertMoved = insertPos >= splitIndex;
+    if (atInsertPoint) {
+      logs = addLog(logs, `[${indexName}] Sequential inserts (${overflowPage.direction} x${overflowPage.nDirection}): splitting at the insert point, ${keepRecords.length}/${moveRecords.length} records.`, 'info');
+    }
+
+    // Update Old Page (PAGE_LAST_INSERT follows the new record if it moves)
+    // Update New Page
+    Object.assign(newPage, formatCopy(moveRecords));
+    if (insertMoved) newPage.lastInsert = overflowPage.lastInsert;
+    newPage.nextPageId = overflowPage.nextPageId;
+    newPage.prevPageId = overflowPage.id;
+    newPage.isDirty = true;
+    currentPages.push(redo.write('LIST_END_COPY', newPage, `[${indexName}] split: ${moveRecords.length} record(s) copied from Page ${overflowId}`));
+
+    currentPages[overflowIndex] = redo.write('LIST_END_DELETE', {
+      ...overflowPage,
+      ...formatTruncate(overflowPage, splitIndex),
+      ...(insertMoved ? { lastInsert: null, direction: 'NO_DIRECTION', nDirection: 0 } : {}),
+      isSplitting: true,
+      isDirty: true,
+      nextPageId: newPageId
+    }, `[${indexName}] split: ${moveRecords.length} record(s) moved to Page ${newPageId}`);
+
+    // Fix pointer of the page after the new one (if exists)
+    if (overflowPage.nextPageId !== null) {
+      if (ibuf) currentPages = ibuf.merge(currentPages, overflowPage.nextPageId);
+      const nextNextPageIndex = currentPages.findIndex(p => p.id === overflowPage.nextPageId);
+      if (nextNextPageIndex !== -1) {
+        currentPages[nextNextPageIndex] = redo.write('FIL_PTR', {
+          ...currentPages[nextNextPageIndex],
+          prevPageId: newPageId,
+          isDirty: true,
+        }, `[${indexName}] split: prev page pointer -> Page ${newPageId}`);
+      }
+    }
+
+    // Push the separator key (first key of the new page) up into the parent,
+    // right after the pointer to the split page (the leftmost pointer's key may be stale, so no re-sort)
+    const parentId = path[depth - 1];
+    const parentIndex = currentPages.findIndex(p => p.id === parentId);
+    const parent = currentPages[parentIndex];
+    const separator = toNodePointer(indexName, moveRecords[0], newPageId);
+    const ptrIndex = parent.records.findIndex(r => r.childPageId === overflowId);
+    const parentRecords = [...parent.records.slice(0, ptrIndex + 1), separator, ...parent.records.slice(ptrIndex + 1)];
+    insertPos = ptrIndex + 1;
+    currentPages[parentIndex] = redo.write('REC_INSERT', {
+      ...parent,
+      ...trackInsertDirection(parent, parentRecords, insertPos, compareFn),
+      ...formatInsert(parent, parentRecords, insertPos),
+      isDirty: true,
+    }, `[${indexName}] split: node pointer to Page ${newPageId}`);
+
+    logs = addLog(logs, `[${indexName}] Split Complete. Page ${overflowId} -> Page ${newPageId}. Node pointer pushed up to Page ${parentId}.`, 'success');
+    redo.count(indexName, 'splits');
+    depth--;
+  }
+
+  return { pages: refreshSpace(currentPages, pageSize), newPageCounter: counter, logs, inserted: true };
+};
+
+/**
+ * Full clustered row for a (possibly partial) set of column values.
+ * Columns left out get their type's default: 0 for INT, '' for VARCHAR.
+ */
+export const buildRow = (schema: TableSchema, id: number, values: RowValues): RecordData => ({
+  id,
+  values: Object.fromEntries(schema.columns.map(column => [column.name, values[column.name] ?? (column.type === 'INT' ? 0 : '')])),
+});
+
+export const insertRecord = (state: EngineState, id: number, values: RowValues, sessionId?: number): EngineState => {
+  let { pages, pageCounter, logs } = state;
+  const { pageSize, schema } = state;
+  const row = buildRow(schema, id, values);
+  const locks = createLockWriter(state, sessionId);
+  const waiting = locks.request({ kind: 'INSERT', rows: [{ id, values }] });
+  if (waiting) return waiting;
+  const redo = createRedoWriter(state);
+  const ibuf = createChangeBufferWriter(state, redo);
+  const undo = createUndoWriter(state, sessionId);
+  
+  // Clean flags, then let purge catch up on delete-marked records no transaction needs anymore
+  pages = clearFlags(pages);
+  if (undo.canPurge) ({ pages, logs } = purgeDeleteMarked(pages, logs, pageSize, schema, redo, ibuf));
+
+  if (isRowTooLarge(schema, pageSize, row)) {
+    logs = addLog(logs, `Row size too large: ${formatRow(row)} needs ${getRecordSize(PRIMARY_INDEX, row)} bytes, the maximum is ${getMaxRecordSize(pageSize)} on a ${pageSize}-byte page.`, 'error');
+    return trackPageAccesses(state, locks.commit(undo.commit(redo.commit(ibuf.commit({ ...state, pages, logs })))), []);
+  }
+
+  // The pages this statement reads, before it changes them
+  const reads = getRowPaths(pages, schema, row);
+
+  // A delete-marked row with this PK is still there for older read views: the insert overwrites it,
+  // so its unique keys are checked up front instead of rolling back halfway
+  const existing = findClusteredRecord(pages, id);
+  const duplicate = existing?.isDeleteMarked ? validateUniqueKeys(pages, schema, row) : null;
+  if (duplicate) {
+    logs = addLog(logs, `Insert Failed: ${duplicate}`, 'error');
+    return trackPageAccesses(state, locks.commit(undo.commit(redo.commit(ibuf.commit({ ...state, pages, logs })))), reads);
+  }
+  const hidden = !existing ? undo.write('INSERT_REC', id) : existing.isDeleteMarked ? undo.write('UPD_DEL_REC', id, existing) : {};
+
+  // 1. Insert into Clustered Index (Primary) - Sorted by ID
+  const primaryResult = insertIntoIndex(
+    pages, 
+    PRIMARY_INDEX, 
+    { ...row, ...hidden, isNew: true }, 
+    comparePrimary, 
+    pageCounter, 
+    logs,
+    pageSize,
+    state.splitStrategy,
+    redo
+  );
+
+  pages = primaryResult.pages;
+  pageCounter = primaryResult.newPageCounter;
+  logs = primaryResult.logs;
+  if (!primaryResult.inserted) return trackPageAccesses(state, locks.commit(undo.commit(redo.commit(ibuf.commit({ ...state, pages, logs, pageCounter })))), reads);
+
+  // 2. Insert into every Secondary Index - Sorted by its key columns, then ID.
+  // A secondary entry only stores the key columns and the PK. The change buffer may take it instead.
+  const inserted = [{ indexName: PRIMARY_INDEX, entry: row }];
+  for (const index of schema.indexes) {
+    const entry = toIndexEntry(index, row);
+    if (ibuf.buffer('INSERT', pages, index, entry) !== null) {
+      inserted.push({ indexName: index.name, entry });
+      continue;
+    }
+    const secondaryResult = insertIntoIndex(
+      pages,
+      index.name,
+      { ...entry, isNew: true },
+      getComparator(schema, index.name),
+      pageCounter,
+      logs,
+      pageSize,
+      state.splitStrategy,
+      redo,
+      index.unique,
+      ibuf
+    );
+
+    pages = secondaryResult.pages;
+    pageCounter = secondaryResult.newPageCounter;
+    logs = secondaryResult.logs;
+
+    if (!secondaryResult.inserted) {
+      // 3. Roll back (like row_undo_ins): remove the entries inserted so far, newest first, ending with the clustered row
+      [...inserted].reverse().forEach(({ indexName, entry: undoEntry }) => {
+        const result = deleteFromIndex(pages, indexName, undoEntry, getComparator(schema, indexName), logs, pageSize, redo, ibuf);
+        pages = result.pages;
+        logs = addLog(result.logs, `[${indexName}] Rollback: removed ${formatKey(indexName, undoEntry)}.`, 'warning');
+      });
+      logs = addLog(logs, `${undo.explicit ? 'Statement' : 'Transaction'} Rolled Back: ${formatRow(row)} violates UNIQUE index ${index.name}. The entries already inserted were removed.`, 'error');
+      undo.discard();
+      return trackPageAccesses(state, locks.commit(undo.commit(redo.commit(ibuf.commit({ ...state, pages, logs, pageCounter })))), reads);
+    }
+    inserted.push({ indexName: index.name, entry });
+  }
+  
+  logs = addLog(logs, `${undo.describe()}: Inserted ${formatRow(row)}.`, 'info');
+
+  return trackPageAccesses(state, locks.commit(undo.commit(redo.commit(ibuf.commit({
+    ...state,
+    pages,
+    logs,
+    pageCounter
+  })))), reads);
+};
+
+/**
+ * Removes one record from a B+Tree index, then rebalances bottom-up:
+ * an underflowing page is merged into a sibling when both fit in one page, otherwise it borrows a record.
+ * Only siblings under the same parent are considered, left sibling first (like btr_compress).
+ */
+const deleteFromIndex = (
+  pages: PageData[],
+  indexName: string,
+  key: RecordData,
+  compareFn: CompareFn,
+  logBuffer: LogEntry[],
+  pageSize: number,
+  redo: RedoWriter,
+  ibuf?: ChangeBufferWriter
+): { pages: PageData[], logs: LogEntry[], deleted: boolean } => {
+
+  let currentPages = [...pages];
+  let logs = [...logBuffer];
+
+  // Every page change goes through the redo log, every page it reads first gets its buffered changes
+  const getPage = (id: number) => {
+    if (ibuf) currentPages = ibuf.merge(currentPages, id);
+    return currentPages.find(p => p.id === id)!;
+  };
+  const setPage = (type: RedoType, page: PageData, message: string) => {
+    const stamped = redo.write(type, page, `[${indexName}] ${message}`);
+    currentPages = currentPages.map(p => (p.id === page.id ? stamped : p));
+  };
+  const freePage = (id: number, message: string) => {
+    redo.free(id, `[${indexName}] ${message}`);
+    currentPages = currentPages.filter(p => p.id !== id);
+  };
+
+  // 1. Find the leaf holding the record
+  const { path } = findLeafPath(currentPages, indexName, key, compareFn);
+  if (path.length === 0) return { pages: currentPages, logs, deleted: false };
+
+  const leaf = getPage(path[path.length - 1]);
+  if (!leaf.records.some(r => compareFn(r, key) === 0)) {
+    return { pages: currentPages, logs, deleted: false };
+  }
+
+  // 2. Remove it (like page_cur_delete_rec, this forgets PAGE_LAST_INSERT)
+  setPage('REC_DELETE', { ...leaf, ...formatDelete(leaf, leaf.records.findIndex(r => compareFn(r, key) === 0)), lastInsert: null, isDirty: true }, `delete ${formatKey(indexName, key)}`);
+
+  // 3. Rebalance, walking back up the path while pages underflow
+  for (let depth = path.length - 1; depth > 0; depth--) {
+    const page = getPage(path[depth]);
+    if (!isUnderflow(page, pageSize)) break;
+
+    const parent = getPage(path[depth - 1]);
+    const ptrIndex = parent.records.findIndex(r => r.childPageId === page.id);
+    const leftId = parent.records[ptrIndex - 1]?.childPageId;
+    const rightId = parent.records[ptrIndex + 1]?.childPageId;
+    const left = leftId !== undefined ? getPage(leftId) : undefined;
+    const right = rightId !== undefined ? getPage(rightId) : undefined;
+
+    const usable = getUsableBytes(pageSize);
+    const pageBytes = getRecordsBytes(indexName, page.records);
+    const fits = (sibling: PageData) => getRecordsBytes(indexName, sibling.records) + pageBytes <= usable;
+    logs = addLog(logs, `[${indexName}] Page ${page.id} below MERGE_THRESHOLD (${pageBytes}/${usable} bytes).`, 'warning');
+
+    // Merge: the right-hand page of the pair is emptied into the left-hand one and freed
+    const mergePair = left && fits(left)
+      ? [left, page]
+      : right && fits(right)
+        ? [page, right]
+        : null;
+
+    if (mergePair) {
+      const [into, from] = mergePair;
+      setPage('LIST_END_COPY', { ...into, ...formatAppend(into, from.records), nextPageId: from.nextPageId, isMerging: true, isDirty: true }, `merge: ${from.records.length} record(s) copied from Page ${from.id}`);
+      if (from.nextPageId !== null) {
+        const after = getPage(from.nextPageId);
+        setPage('FIL_PTR', { ...after, prevPageId: into.id, isDirty: true }, `merge: prev page pointer -> Page ${into.id}`);
+      }
+      freePage(from.id, `merge: page freed after moving its records to Page ${into.id}`);
+
+      // The parent loses the node pointer to the freed page
+      const currentParent = getPage(parent.id);
+      setPage('REC_DELETE', { ...currentParent, ...formatDelete(currentParent, currentParent.records.findIndex(r => r.childPageId === from.id)), isDirty: true }, `merge: node pointer to Page ${from.id} removed`);
+      logs = addLog(logs, `[${indexName}] Merge Complete. Page ${from.id} merged into Page ${into.id} and freed. Node pointer removed from Page ${parent.id}.`, 'success');
+      redo.count(indexName, 'merges');
+      continue;
+    }
+
+    // Borrow: move one record across the boundary and fix the separator key in the parent
+    if (left) {
+      const borrowed = left.records[left.records.length - 1];
+      setPage('REC_DELETE', { ...left, ...formatDelete(left, left.records.length - 1), isDirty: true }, `borrow: ${formatKey(indexName, borrowed)} lent to Page ${page.id}`);
+      setPage('REC_INSERT', { ...page, ...formatInsert(page, [borrowed, ...page.records], 0), isMerging: true, isDirty: true }, `borrow: ${formatKey(indexName, borrowed)} from Page ${left.id}`);
+      setPage('NODE_PTR_UPDATE', {
+        ...parent,
+        records: parent.records.map(r => (r.childPageId === page.id ? { ...r, ...toNodePointer(indexName, borrowed, page.id) } : r)),
+        isDirty: true,
+      }, `borrow: separator of Page ${page.id} updated`);
+      logs = addLog(logs, `[${indexName}] Borrowed 1 record from left sibling Page ${left.id} into Page ${page.id}.`, 'success');
+    } else if (right) {
+      const borrowed = right.records[0];
+      const remaining = right.records.slice(1);
+      setPage('REC_DELETE', { ...right, ...formatDelete(right, 0), isDirty: true }, `borrow: ${formatKey(indexName, borrowed)} lent to Page ${page.id}`);
+      setPage('REC_INSERT', { ...page, ...formatInsert(page, [...page.records, borrowed], page.records.length), isMerging: true, isDirty: true }, `borrow: ${formatKey(indexName, borrowed)} from Page ${right.id}`);
+      setPage('NODE_PTR_UPDATE', {
+        ...parent,
+        records: parent.records.map(r => (r.childPageId === right.id ? { ...r, ...toNodePointer(indexName, remaining[0], right.id) } : r)),
+        isDirty: true,
+      }, `borrow: separator of Page ${right.id} updated`);
+      logs = addLog(logs, `[${indexName}] Borrowed 1 record from right sibling Page ${right.id} into Page ${page.id}.`, 'success');
+    }
+    break;
+  }
+
+  // 4. Lower the root while it only points to a single child (like btr_lift_page_up)
+  let root = getPage(path[0]);
+  while (root.level > 0 && root.records.length === 1) {
+    const child = getPage(root.records[0].childPageId!);
+    setPage('LIST_END_COPY', { ...root, level: child.level, ...formatCopy(child.records), isMerging: true, isDirty: true }, `root lift: all records of Page ${child.id} copied into the root`);
+    freePage(child.id, `root lift: page freed`);
+    root = getPage(root.id);
+    logs = addLog(logs, `[${indexName}] Root Page ${root.id} has a single child. Page ${child.id} lifted into the root and freed, tree height is now ${root.level + 1}.`, 'warning');
+  }
+
+  return { pages: refreshSpace(currentPages, pageSize), logs, deleted: true };
+};
+
+
+/**
+ * Physically removes records that UPDATE and DELETE left delete-marked (InnoDB's purge thread).
+ * Runs at the start of the next DML statement, once no transaction or read view is open that may still need them.
+ * (InnoDB purges record by record up to the oldest read view; the simulator waits until none is left.)
+ * With `ibuf`, removing a secondary entry from a page outside the buffer pool is buffered.
+ */
+const purgeDeleteMarked = (
+  pages: PageData[],
+  logBuffer: LogEntry[],
+  pageSize: number,
+  schema: TableSchema,
+  redo: RedoWriter,
+  ibuf?: ChangeBufferWriter
+): { pages: PageData[], logs: LogEntry[] } => {
+  let currentPages = pages;
+  let logs = logBuffer;
+
+  getIndexNames(schema).forEach(indexName => {
+    const index = getIndexDef(schema, indexName);
+    const marked = (ibuf ? ibuf.preview(currentPages) : currentPages)
+      .filter(p => p.indexName === indexName && p.level === 0)
+      .flatMap(p => p.records.filter(r => r.isDeleteMarked));
+
+    marked.forEach(record => {
+      if (index && ibuf && ibuf.buffer('DELETE', currentPages, index, record) !== null) return;
+      const result = deleteFromIndex(currentPages, indexName, record, getComparator(schema, indexName), logs, pageSize, redo, ibuf);
+      currentPages = result.pages;
+      logs = addLog(result.logs, `[${indexName}] Purge: removed delete-marked entry ${formatKey(indexName, record)}.`, 'info');
+    });
+  });
+
+  return { pages: currentPages, logs };
+};
+
+/**
+ * DELETE FROM table WHERE id = ?
+ * Inside a transaction, or while a read view may still see the row, the row is only delete-marked
+ * (its old version goes to the undo log) and purge removes it later. Otherwise it is removed right away.
+ */
+export const deleteRecord = (state: EngineState, id: number, sessionId?: number): EngineState => {
+  let { pages, logs } = state;
+  const { pageSize, schema } = state;
+  const locks = createLockWriter(state, sessionId);
+  const waiting = locks.request({ kind: 'DELETE', id });
+  if (waiting) return waiting;
+  const redo = createRedoWriter(state);
+  const ibuf = createChangeBufferWriter(state, redo);
+  const undo = createUndoWriter(state, sessionId);
+
+  // Clean flags, then let purge catch up on delete-marked records no transaction needs anymore
+  pages = clearFlags(pages);
+  if (undo.canPurge) ({ pages, logs } = purgeDeleteMarked(pages, logs, pageSize, schema, redo, ibuf));
+
+  // The secondary keys need the row's values, so read it from the clustered index first
+  const row = findRecordById(pages, id);
+  if (!row) {
+    logs = addLog(logs, `Delete Failed: ID ${id} not found.`, 'error');
+    const lookupPath = findLeafPath(pages, PRIMARY_INDEX, { id, values: {} }, comparePrimary).path;
+    return trackPageAccesses(state, locks.commit(undo.commit(redo.commit(ibuf.commit({ ...state, pages, logs })))), lookupPath);
+  }
+  const reads = getRowPaths(pages, schema, row);
+
+  if (undo.explicit || !undo.canPurge) {
+    // 1. Delete-mark the clustered record, stamped with this transaction, then every secondary entry
+    const hidden = undo.write('DEL_MARK_REC', id, row);
+    ({ pages } = setDeleteMark(pages, PRIMARY_INDEX, row, comparePrimary, redo, true, hidden));
+    schema.indexes.forEach(index => {
+      const entry = toIndexEntry(index, row);
+      if (ibuf.buffer('DELETE_MARK', pages, index, entry) !== null) return;
+      ({ pages } = setDeleteMark(pages, index.name, entry, getComparator(schema, index.name), redo, true, {}, ibuf));
+    });
+    logs = addLog(logs, `[PRIMARY] Delete-marked row ${id} and its secondary entries: they stay until purge, a transaction may still need the old version.`, 'warning');
+  } else {
+    // 1. Delete from Clustered Index (Primary)
+    const primaryResult = deleteFromIndex(pages, PRIMARY_INDEX, row, comparePrimary, logs, pageSize, redo);
+    pages = primaryResult.pages;
+    logs = primaryResult.logs;
+
+    // 2. Delete from every Secondary Index - the entry is (key columns..., id)
+    schema.indexes.forEach(index => {
+      const entry = toIndexEntry(index, row);
+      if (ibuf.buffer('DELETE', pages, index, entry) !== null) return;
+      const secondaryResult = deleteFromIndex(pages, index.name, entry, getComparator(schema, index.name), logs, pageSize, redo, ibuf);
+      pages = secondaryResult.pages;
+      logs = secondaryResult.logs;
+    });
+  }
+
+  logs = addLog(logs, `${undo.describe()}: Deleted ${formatRow(row)}.`, 'info');
+
+  return trackPageAccesses(state, locks.commit(undo.commit(redo.commit(ibuf.commit({
+    ...state,
+    pages,
+    logs,
+  })))), reads);
+};
+
+/**
+ * Sets (or, for a rollback, clears) the delete mark of one entry in place. A delete-marked record stays on its page
+ * until purge removes it. `hidden` stamps a clustered record with the transaction that marked it.
+ * With `ibuf`, the leaf gets its buffered changes merged first.
+ * Returns the id of the leaf page holding it, or null if no entry needed the change.
+ */
+const setDeleteMark = (
+  pages: PageData[],
+  indexName: string,
+  key: RecordData,
+  compareFn: CompareFn,
+  redo: RedoWriter,
+  deleteMarked: boolean,
+  hidden: Partial<RecordData> = {},
+  ibuf?: ChangeBufferWriter
+): { pages: PageData[], pageId: number | null } => {
+  const { path } = findLeafPath(pages, indexName, key, compareFn);
+  const merged = ibuf && path.length > 0 ? ibuf.merge(pages, path[path.length - 1]) : pages;
+  const leaf = merged.find(p => p.id === path[path.length - 1]);
+  if (!leaf || !leaf.records.some(r => compareFn(r, key) === 0 && !!r.isDeleteMarked !== deleteMarked)) {
+    return { pages: merged, pageId: null };
+  }
+
+  const records = leaf.records.map(r => (compareFn(r, key) === 0 ? { ...r, ...hidden, isDeleteMarked: deleteMarked } : r));
+  const action = deleteMarked ? 'delete-mark' : 'clear the delete mark of';
+  return {
+    pages: merged.map(p => (p.id === leaf.id ? redo.write('REC_DELETE_MARK', { ...leaf, records, isDirty: true }, `[${indexName}] ${action} ${formatKey(indexName, key)}`) : p)),
+    pageId: leaf.id,
+  };
+};
+
+/**
+ * UPDATE table SET [id = ?,] col = ?, ... WHERE id = ?
+ * - Column change: the clustered row is updated in place; in every secondary index whose key
+ *   contains a changed column, the old entry is delete-marked and the new one inserted (which may split).
+ *   Indexes that do not contain a changed column are not touched at all.
+ * - PK change: the clustered record is delete-marked and the row re-inserted under the new id,
+ *   and every secondary entry is replaced because it carries the PK.
+ */
+export const updateRecord = (
+  state: EngineState,
+  id: number,
+  changes: RowChanges,
+  sessionId?: number
+): StatementResult => {
+  let { pages, pageCounter, logs } = state;
+  const { pageSize, schema } = state;
+  const locks = createLockWriter(state, sessionId);
+  const waiting = locks.request({ kind: 'UPDATE', id, changes });
+  if (waiting) return { state: waiting, steps: [] };
+  const { steps, addStep, descend, finish } = createStepRecorder(state);
+  const redo = createRedoWriter(state);
+  const ibuf = createChangeBufferWriter(state, redo);
+  const undo = createUndoWriter(state, sessionId);
+
+  // Clean flags, then let purge catch up on delete-marked records no transaction needs anymore
+  pages = clearFlags(pages);
+  if (undo.canPurge) ({ pages, logs } = purgeDeleteMarked(pages, logs, pageSize, schema, redo, ibuf));
+
+  const setClauses = [
+    changes.id !== undefined ? `id = ${changes.id}` : null,
+    ...Object.entries(changes.values ?? {}).map(([column, value]) => `${column} = ${formatValue(value)}`),
+  ].filter(Boolean).join(', ');
+  addStep(`QUERY: UPDATE ${schema.name} SET ${setClauses} WHERE id = ${id}`, 0, 'FINISHED');
+
+  const fail = (message: string): StatementResult => {
+    logs = addLog(logs, message, 'error');
+    addStep(message, 0, 'FINISHED');
+    return { state: finish(locks.commit(undo.commit(redo.commit(ibuf.commit({ ...state, pages, logs }))))), steps };
+  };
+
+  // 1. Locate the row in the Clustered Index
+  const primaryLeaf = descend(pages, PRIMARY_INDEX, { id, values: {} });
+  const oldRow = primaryLeaf?.records.find(r => r.id === id && !r.isDeleteMarked);
+  if (!primaryLeaf || !oldRow) return fail(`Update Failed: ID ${id} not found.`);
+  addStep(`Found Record ${id} in Primary Page ${primaryLeaf.id} (DB_TRX_ID ${oldRow.trxId ?? '-'}).`, primaryLeaf.id, 'FOUND_DATA', id);
+
+  const newRow: RecordData = { id: changes.id ?? id, values: { ...oldRow.values, ...changes.values } };
+  const pkChanged = newRow.id !== oldRow.id;
+
+  const changedColumns = schema.columns
+    .map(column => column.name)
+    .filter(column => compareValues(newRow.values[column], oldRow.values[column]) !== 0);
+
+  if (!pkChanged && changedColumns.length === 0) {
+    logs = addLog(logs, `Update: Row ${id} unchanged (0 rows affected).`, 'info');
+    addStep(`Row ${id} already matches. 0 rows affected.`, primaryLeaf.id, 'FINISHED', id);
+    return { state: finish(locks.commit(undo.commit(redo.commit(ibuf.commit({ ...state, pages, logs }))))), steps };
+  }
+
+  if (isRowTooLarge(schema, pageSize, newRow)) {
+    return fail(`Row size too large: the new row needs ${getRecordSize(PRIMARY_INDEX, newRow)} bytes, the maximum is ${getMaxRecordSize(pageSize)}.`);
+  }
+
+  // Unique keys are checked up front, so the statement never fails halfway through the indexes
+  const duplicate = validateUniqueKeys(pages, schema, newRow, id);
+  if (duplicate) return fail(`Duplicate Key Error: ${duplicate}`);
+
+  const changeInfo = changedColumns.map(column => `${column} ${formatValue(oldRow.values[column])} -> ${formatValue(newRow.values[column])}`).join(', ');
+
+  if (pkChanged) {
+    // 2a. PK change = delete + insert on the Clustered Index
+    const marked = undo.write('DEL_MARK_REC', id, oldRow);
+    ({ pages } = setDeleteMark(pages, PRIMARY_INDEX, oldRow, comparePrimary, redo, true, marked));
+    logs = addLog(logs, `[PRIMARY] PK change: delete-marked record ${id} on Page ${primaryLeaf.id}.`, 'warning');
+    addStep(`PK change: Delete-marked clustered record ${id} on Page ${primaryLeaf.id} (old version in undo record #${marked.rollPtr}).`, primaryLeaf.id, 'MODIFY_RECORD', id);
+
+    // The new PK may still have a delete-marked record, which the insert overwrites
+    const existing = findClusteredRecord(pages, newRow.id);
+    const hidden = existing ? undo.write('UPD_DEL_REC', newRow.id, existing) : undo.write('INSERT_REC', newRow.id);
+    const counterBefore = pageCounter;
+    const primaryResult = insertIntoIndex(pages, PRIMARY_INDEX, { ...newRow, ...hidden, isNew: true }, comparePrimary, pageCounter, logs, pageSize, state.splitStrategy, redo);
+    pages = primaryResult.pages;
+    pageCounter = primaryResult.newPageCounter;
+    logs = primaryResult.logs;
+
+    const newLeaf = descend(pages, PRIMARY_INDEX, newRow)!;
+    const split = pageCounter > counterBefore ? ' (page split!)' : '';
+    addStep(`Inserted clustered record ${newRow.id} into Page ${newLeaf.id}${split}.`, newLeaf.id, 'MODIFY_RECORD', newRow.id);
+  } else if (getRecordsBytes(PRIMARY_INDEX, primaryLeaf.records) - getRecordSize(PRIMARY_INDEX, oldRow) + getRecordSize(PRIMARY_INDEX, newRow) <= getUsableBytes(pageSize)) {
+    // 2b. Column change that still fits: the clustered record keeps its position, update it in place.
+    // The old version goes to the undo log, DB_ROLL_PTR points to it.
+    const hidden = undo.write('UPD_EXIST_REC', id, oldRow);
+    pages = refreshSpace(pages.map(p => (p.id === primaryLeaf.id
+      ? redo.write('REC_UPDATE', { ...p, isDirty: true, records: p.records.map(r => (r.id === id ? { ...r, values: newRow.values, ...hidden, isNew: true } : r)) }, `[PRIMARY] update ${id}: ${changeInfo}`)
+      : p)), pageSize);
+    logs = addLog(logs, `[PRIMARY] Row ${id} updated in place on Page ${primaryLeaf.id}: ${changeInfo}.`, 'info');
+    addStep(`Updated row ${id} in place: ${changeInfo}. The old version is undo record #${hidden.rollPtr}.`, primaryLeaf.id, 'MODIFY_RECORD', id);
+  } else {
+    // 2c. The longer row no longer fits on its page: pessimistic update (delete + re-insert, may split)
+    const hidden = undo.write('UPD_EXIST_REC', id, oldRow);
+    const deleted = deleteFromIndex(pages, PRIMARY_INDEX, oldRow, comparePrimary, logs, pageSize, redo);
+    const counterBefore = pageCounter;
+    const primaryResult = insertIntoIndex(deleted.pages, PRIMARY_INDEX, { ...newRow, ...hidden, isNew: true }, comparePrimary, pageCounter, deleted.logs, pageSize, state.splitStrategy, redo);
+    pages = primaryResult.pages;
+    pageCounter = primaryResult.newPageCounter;
+    logs = addLog(primaryResult.logs, `[PRIMARY] Row ${id} grew and no longer fits on Page ${primaryLeaf.id}: pessimistic update (delete + re-insert).`, 'warning');
+
+    const newLeaf = descend(pages, PRIMARY_INDEX, newRow)!;
+    const split = pageCounter > counterBefore ? ' (page split!)' : '';
+    addStep(`Row ${id} no longer fits on Page ${primaryLeaf.id}. Re-inserted into Page ${newLeaf.id}${split}.`, newLeaf.id, 'MODIFY_RECORD', id);
+  }
+
+  // 3. Secondary Indexes: where the key changed, delete-mark the old entry and insert the new one
+  schema.indexes.forEach(index => {
+    if (!pkChanged && !index.columns.some(column => changedColumns.includes(column))) {
+      addStep(`${index.name} (${index.columns.join(', ')}) does not contain a changed column: not touched.`, 0, 'FINISHED');
+      return;
+    }
+
+    const compareFn = getComparator(schema, index.name);
+    const oldEntry = toIndexEntry(index, oldRow);
+    const newEntry = toIndexEntry(index, newRow);
+
+    // A leaf outside the buffer pool is not read: the change buffer takes the change
+    const markBuffered = ibuf.buffer('DELETE_MARK', pages, index, oldEntry);
+    const oldLeaf = descend(pages, index.name, oldEntry, markBuffered === null);
+    if (markBuffered !== null) {
+      addStep(`Page ${markBuffered} is not in the buffer pool: delete-mark of old ${index.name} entry ${formatKey(index.name, oldEntry)} buffered in the change buffer.`, markBuffered, 'MODIFY_RECORD', oldEntry.id);
+    } else {
+      const marked = setDeleteMark(pages, index.name, oldEntry, compareFn, redo, true, {}, ibuf);
+      pages = marked.pages;
+      if (oldLeaf && marked.pageId !== null) {
+        logs = addLog(logs, `[${index.name}] Delete-marked entry ${formatKey(index.name, oldEntry)} on Page ${marked.pageId}.`, 'warning');
+        addStep(`Delete-marked old ${index.name} entry ${formatKey(index.name, oldEntry)} on Page ${marked.pageId}.`, marked.pageId, 'MODIFY_RECORD', oldEntry.id);
+      }
+    }
+
+    const insertBuffered = ibuf.buffer('INSERT', pages, index, newEntry);
+    if (insertBuffered !== null) {
+      descend(pages, index.name, newEntry, false);
+      addStep(`Page ${insertBuffered} is not in the buffer pool: insert of new ${index.name} entry ${formatKey(index.name, newEntry)} buffered in the change buffer.`, insertBuffered, 'MODIFY_RECORD', newEntry.id);
+      return;
+    }
+    const counterBefore = pageCounter;
+    const secondaryResult = insertIntoIndex(pages, index.name, { ...newEntry, isNew: true }, compareFn, pageCounter, logs, pageSize, state.splitStrategy, redo, index.unique, ibuf);
+    pages = secondaryResult.pages;
+    pageCounter = secondaryResult.newPageCounter;
+    logs = secondaryResult.logs;
+
+    const newLeaf = descend(pages, index.name, newEntry)!;
+    const split = pageCounter > counterBefore ? ' (page split!)' : '';
+    addStep(`Inserted new ${index.name} entry ${formatKey(index.name, newEntry)} into Page ${newLeaf.id}${split}.`, newLeaf.id, 'MODIFY_RECORD', newEntry.id);
+  });
+
+  logs = addLog(logs, `${undo.describe()}: Updated row ${id} to ${formatRow(newRow)}.`, 'info');
+  addStep(`Update complete. 1 row affected. Old entries stay delete-marked until purge.`, 0, 'FINISHED');
+
+  return {
+    state: finish(locks.commit(undo.commit(redo.commit(ibuf.commit({ ...state, pages, logs, pageCounter }))))),
+    steps,
+  };
+};
+
+// --- Transaction Control ---
+
+const formatIsolationLevel = (level: IsolationLevel): string => level.replace('_', ' ');
+
+// The session's transaction is over: its id and read view are released
+const endTransaction = (sessions: Session[], sessionId: number): Session[] =>
+  updateSession(sessions, sessionId, { inTransaction: false, trxId: null, readView: null, pending: null });
+
+/**
+ * INSERT of several rows, one after the other (each one commits by itself in autocommit mode).
+ * A row that has to wait for a lock blocks the statement, which waits with the rows still to insert.
+ */
+export const insertRows = (state: EngineState, rows: { id: number, values: RowValues }[], sessionId?: number): EngineState => {
+  let current = state;
+  for (let i = 0; i < rows.length; i++) {
+    const next = insertRecord(current, rows[i].id, rows[i].values, sessionId);
+    const session = getSession(next, sessionId);
+    if (session?.pending) return { ...next, sessions: updateSession(next.sessions, session.id, { pending: { kind: 'INSERT', rows: rows.slice(i) } }) };
+    if (sessionId !== undefined && isDeadlockVictim(current, next, sessionId)) return next;
+    current = next;
+  }
+  return current;
+};
+
+// Runs a statement that waited for a lock again; only the engine log shows how it ends
+const runPendingStatement = (state: EngineState, sessionId: number, statement: PendingStatement): EngineState => {
+  switch (statement.kind) {
+    case 'INSERT':
+      return insertRows(state, statement.rows, sessionId);
+    case 'UPDATE':
+      return updateRecord(state, statement.id, statement.changes, sessionId).state;
+    case 'DELETE':
+      return deleteRecord(state, statement.id, sessionId);
+    case 'SELECT': {
+      const { state: next, steps } = simulateRangeQuery(state, statement.query, sessionId);
+      const summary = steps[steps.length - 1];
+      return summary ? { ...next, logs: addLog(next.logs, `Session ${sessionId}: ${summary.message}`, 'info') } : next;
+    }
+  }
+};
+
+/**
+ * Locks were released: each waiting request that no longer has to wait is granted, in the order the sessions
+ * started waiting, and its statement runs again from the start (it may have to wait again).
+ */
+const resumeWaitingSessions = (state: EngineState): EngineState => {
+  const lock = state.locks.find(l => !l.granted && findBlockingLocks(state.locks, l, l.sessionId).length === 0);
+  const session = lock && getSession(state, lock.sessionId);
+  if (!lock || !session?.pending) return state;
+
+  return resumeWaitingSessions(runPendingStatement({
+    ...state,
+    locks: state.locks.filter(l => l !== lock),
+    sessions: updateSession(state.sessions, session.id, { pending: null }),
+    logs: addLog(state.logs, `Session ${session.id}: ${describeLock(lock)} granted, the waiting statement continues.`, 'success'),
+  }, session.id, session.pending));
+};
+
+/**
+ * innodb_lock_wait_timeout expired: the waiting statement fails and its request leaves the queue.
+ * The transaction stays open with everything it did before (innodb_rollback_on_timeout = OFF).
+ */
+export const timeoutLockWait = (state: EngineState, sessionId: number): EngineState => {
+  const lock = state.locks.find(l => !l.granted && l.sessionId === sessionId);
+  if (!lock) return state;
+  return {
+    ...state,
+    locks: state.locks.filter(l => l !== lock),
+    sessions: updateSession(state.sessions, sessionId, { pending: null }),
+    logs: addLog(state.logs, `Session ${sessionId}: Lock wait timeout exceeded; try restarting transaction (waited for ${describeLock(lock)}).`, 'error'),
+  };
+};
+
+/**
+ * COMMIT. The transaction's update undo joins the history list, where purge finds it once no read view needs it;
+ * its insert undo is discarded, since no other transaction can see a version from before the insert.
+ * Its locks are released, which may let waiting sessions go on.
+ */
+export const commitTransaction = (state: EngineState, sessionId: number): EngineState => {
+  const session = getSession(state, sessionId);
+  if (!session?.inTransaction) return state;
+
+  const { trxId } = session;
+  const history = state.undoLog.filter(u => u.trxId === trxId && u.type !== 'INSERT_REC').length;
+  const message = trxId === null
+    ? `Session ${sessionId}: read-only transaction ended.`
+    : `Session ${sessionId}: Transaction ${trxId} Committed, ${history} undo record(s) moved to the history list.`;
+  return resumeWaitingSessions({
+    ...state,
+    sessions: endTransaction(state.sessions, sessionId),
+    undoLog: state.undoLog.filter(u => !(u.trxId === trxId && u.type === 'INSERT_REC')),
+    locks: state.locks.filter(l => l.sessionId !== sessionId),
+    logs: addLog(state.logs, message, 'success'),
+  });
+};
+
+/**
+ * BEGIN / START TRANSACTION: the session's statements join one transaction until COMMIT or ROLLBACK
+ * (an open transaction is committed first, like MySQL's implicit commit).
+ * WITH CONSISTENT SNAPSHOT takes the REPEATABLE READ read view right away instead of at the first read.
+ */
+export const beginTransaction = (state: EngineState, sessionId: number, withSnapshot: boolean = false): EngineState => {
+  const current = commitTransaction(state, sessionId);
+  const session = getSession(current, sessionId);
+  if (!session) return state;
+
+  const snapshot = withSnapshot && session.isolationLevel === 'REPEATABLE_READ';
+  const readView = snapshot ? createReadView(current.sessions, current.nextTrxId) : null;
+  const viewInfo = readView ? `, read view taken now (${describeReadView(readView)})` : '';
+  return {
+    ...current,
+    sessions: updateSession(current.sessions, sessionId, { inTransaction: true, readView }),
+    logs: addLog(current.logs, `Session ${sessionId}: transaction started (${formatIsolationLevel(session.isolationLevel)})${viewInfo}.`, 'info'),
+  };
+};
+
+/**
+ * ROLLBACK: applies the transaction's undo records newest first (like trx_rollback), putting every row back:
+ * - INSERT_REC: the row is removed from every index
+ * - UPD_EXIST_REC / UPD_DEL_REC: the clustered record gets its previous version back; secondary entries of the new
+ *   version are delete-marked and those of the previous one lose their delete mark
+ * - DEL_MARK_REC: the delete marks are cleared again
+ * Then its locks are released, like at COMMIT.
+ */
+export const rollbackTransaction = (state: EngineState, sessionId: number): EngineState => {
+  const session = getSession(state, sessionId);
+  if (!session?.inTransaction) return state;
+
+  let { pages, pageCounter, logs } = state;
+  const { pageSize, schema } = state;
+  const redo = createRedoWriter(state);
+  const ibuf = createChangeBufferWriter(state, redo);
+  const undoRecords = state.undoLog.filter(u => u.trxId === session.trxId).reverse();
+  const reads: number[] = [];
+  pages = clearFlags(pages);
+
+  undoRecords.forEach(undo => {
+    const current = findClusteredRecord(pages, undo.rowId);
+    if (!current) return;
+    reads.push(...getRowPaths(pages, schema, current));
+
+    if (undo.type === 'INSERT_REC') {
+      [PRIMARY_INDEX, ...schema.indexes.map(index => index.name)].forEach(indexName => {
+        const index = getIndexDef(schema, indexName);
+        const result = deleteFromIndex(pages, indexName, index ? toIndexEntry(index, current) : current, getComparator(schema, indexName), logs, pageSize, redo, ibuf);
+        pages = result.pages;
+        logs = result.logs;
+      });
+      logs = addLog(logs, `[trx ${undo.trxId}] Rollback of undo record #${undo.undoNo}: removed inserted row ${formatRow(current)}.`, 'warning');
+      return;
+    }
+
+    // Clustered record: the previous version in place if it fits, otherwise delete + re-insert
+    const previous = { ...undo.previous!, isNew: true };
+    const leaf = pages.find(p => p.indexName === PRIMARY_INDEX && p.level === 0 && p.records.includes(current))!;
+    if (getRecordsBytes(PRIMARY_INDEX, leaf.records) - getRecordSize(PRIMARY_INDEX, current) + getRecordSize(PRIMARY_INDEX, previous) <= getUsableBytes(pageSize)) {
+      pages = refreshSpace(pages.map(p => (p.id === leaf.id
+        ? redo.write('REC_UPDATE', { ...p, isDirty: true, records: p.records.map(r => (r === current ? { ...previous, heapNo: r.heapNo } : r)) }, `[PRIMARY] rollback ${undo.rowId} to ${formatRow(previous)}`)
+        : p)), pageSize);
+    } else {
+      const deleted = deleteFromIndex(pages, PRIMARY_INDEX, current, comparePrimary, logs, pageSize, redo);
+      const result = insertIntoIndex(deleted.pages, PRIMARY_INDEX, previous, comparePrimary, pageCounter, deleted.logs, pageSize, state.splitStrategy, redo);
+      pages = result.pages;
+      pageCounter = result.newPageCounter;
+      logs = result.logs;
+    }
+
+    // Secondary entries
+    schema.indexes.forEach(index => {
+      const compareFn = getComparator(schema, index.name);
+      const oldEntry = toIndexEntry(index, previous);
+      const newEntry = toIndexEntry(index, current);
+      if (undo.type !== 'DEL_MARK_REC') {
+        if (compareFn(oldEntry, newEntry) === 0 && !previous.isDeleteMarked) return;
+        ({ pages } = setDeleteMark(pages, index.name, newEntry, compareFn, redo, true, {}, ibuf));
+      }
+      if (!previous.isDeleteMarked) ({ pages } = setDeleteMark(pages, index.name, oldEntry, compareFn, redo, false, {}, ibuf));
+    });
+    logs = addLog(logs, `[trx ${undo.trxId}] Rollback of undo record #${undo.undoNo} (${undo.type}): row ${undo.rowId} is ${formatRow(previous)}${previous.isDeleteMarked ? ' (delete-marked)' : ''} again.`, 'warning');
+  });
+
+  const trxInfo = session.trxId === null ? 'read-only transaction' : `Transaction ${session.trxId}`;
+  logs = addLog(logs, `Session ${sessionId}: ${trxInfo} Rolled Back, ${undoRecords.length} undo record(s) applied.`, 'warning');
+  const rolledBack = redo.commit(ibuf.commit({
+    ...state,
+    pages,
+    pageCounter,
+    logs,
+    sessions: endTransaction(state.sessions, sessionId),
+    undoLog: state.undoLog.filter(u => u.trxId !== session.trxId),
+  }));
+  const { locks } = syncLocks(state, rolledBack);
+  return resumeWaitingSessions(trackPageAccesses(state, { ...rolledBack, locks: locks.filter(l => l.sessionId !== sessionId) }, reads));
+};
+
+// SET SESSION TRANSACTION ISOLATION LEVEL: applies from the session's next transaction on
+export const setIsolationLevel = (state: EngineState, sessionId: number, level: IsolationLevel): EngineState => {
+  const session = getSession(state, sessionId);
+  if (!session) return state;
+  if (session.inTransaction) {
+    return { ...state, logs: addLog(state.logs, `Session ${sessionId}: Transaction characteristics can't be changed while a transaction is in progress.`, 'error') };
+  }
+  return {
+    ...state,
+    sessions: updateSession(state.sessions, sessionId, { isolationLevel: level }),
+    logs: addLog(state.logs, `Session ${sessionId}: isolation level ${formatIsolationLevel(level)}.`, 'info'),
+  };
+};
+
+// Opens one more client connection, up to MAX_SESSIONS
+export const addSession = (state: EngineState): EngineState => {
+  if (state.sessions.length >= MAX_SESSIONS) return state;
+  const id = Math.max(0, ...state.sessions.map(s => s.id)) + 1;
+  return { ...state, sessions: [...state.sessions, createSession(id)], logs: addLog(state.logs, `Session ${id} connected.`, 'info') };
+};
+
+// --- Query Simulation Logic ---
+
+/**
+ * Equality lookup through one index: `id = ?` on the clustered index (const),
+ * or `= ?` on the leading key columns of a secondary index (ref), which may match several entries.
+ * Each secondary match needs a table lookup (回表) unless the index covers the query.
+ * The read view of `sessionId` decides which version of each row the lookup returns; while it may miss newer versions,
+ * delete-marked entries are candidates too and every match is checked against the clustered record.
+ * A leaf with buffered changes gets them merged as the lookup reads it.
+ * Every search (the lookup and each table lookup) tries the adaptive hash index before descending from the root.
+ */
+export const simulateSelectQuery = mergeOnRead((state: EngineState, lookup: IndexLookup, sessionId?: number): StatementResult => {
+  const { pages, schema } = state;
+  const { view, sessions, reused } = openReadView(state, sessionId);
+  const seesLatest = seesLatestVersions(view, state.nextTrxId);
+  const recorder = createStepRecorder(state, seesLatest ? undefined : view);
+  const { steps, addStep, descend, searchPage, fetchPage, readVersion, finish } = recorder;
+  const ahi = createAdaptiveHashWriter(state, recorder);
+  const complete = (): StatementResult => ({ state: finish(ahi.commit({ ...state, sessions })), steps });
+  const announceView = () => {
+    if (sessionId !== undefined || !seesLatest) addStep(formatReadViewStep(view, reused), 0, 'FINISHED');
+  };
+  const keyColumns = getKeyColumns(schema, lookup.indexName);
+  const where = lookup.key.map((value, i) => `${keyColumns[i]} = ${formatValue(value)}`).join(' AND ');
+
+  if (lookup.indexName === PRIMARY_INDEX) {
+    // Clustered Index: root -> leaf descent
+    const id = Number(lookup.key[0]);
+    addStep(`QUERY: SELECT * FROM ${schema.name} WHERE id = ${id}`, 0, 'FINISHED');
+    announceView();
+
+    const hit = ahi.guess(pages, PRIMARY_INDEX, [id]);
+    const leaf = hit?.leaf ?? descend(pages, PRIMARY_INDEX, { id, values: {} });
+    if (leaf) {
+      let positioned = hit?.record;
+      if (!hit) {
+        addStep(`Searching Primary Leaf Page ${leaf.id}...`, leaf.id, 'SCAN_PAGE');
+        positioned = searchPage(leaf, PRIMARY_INDEX, { id, values: {} });
+        ahi.learn(PRIMARY_INDEX, [id], leaf);
+      }
+      const found = positioned?.id === id ? readVersion(positioned, leaf.id) : null;
+      if (found) {
+        const rebuilt = found !== positioned ? ' (older version rebuilt from undo)' : '';
+        addStep(`Found Record ${id} in Page ${leaf.id}${rebuilt}. Returning Data.`, leaf.id, 'FOUND_DATA', id);
+        return complete();
+      }
+    }
+    addStep(`Record ${id} not found in Primary Index.`, 0, 'FINISHED');
+    return complete();
+  }
+
+  addStep(`QUERY: SELECT ${lookup.covering ? keyColumns.join(', ') : '*'} FROM ${schema.name} WHERE ${where}`, 0, 'FINISHED');
+  announceView();
+
+  // 1. Search the Secondary Index: a hashed prefix jumps to its first entry, otherwise descend with (key, -inf) to reach the first candidate leaf
+  const compareFn = getComparator(schema, lookup.indexName);
+  const lastPossible = makeSearchKey(keyColumns, lookup.key, Infinity);
+  const matches = (r: RecordData) => lookup.key.every((value, i) => compareValues(getColumnValue(r, keyColumns[i]), value) === 0);
+  const firstPossible = makeSearchKey(keyColumns, lookup.key, -Infinity);
+  const hit = ahi.guess(pages, lookup.indexName, lookup.key);
+  let current = hit?.leaf ?? descend(pages, lookup.indexName, firstPossible);
+  if (current && !hit) {
+    searchPage(current, lookup.indexName, firstPossible);
+    ahi.learn(lookup.indexName, lookup.key, current);
+  }
+  const index = getIndexDef(schema, lookup.indexName)!;
+  const found: number[] = [];
+  let lookups = 0;
+  let done = false;
+
+  const walked = new Set<number>();
+  while (current && !done) {
+    walked.add(current.id);
+    addStep(`Scanning ${lookup.indexName} Page ${current.id}...`, current.id, 'SCAN_PAGE');
+
+    for (const record of current.records) {
+      if (compareFn(record, lastPossible) > 0) { done = true; break; }
+      if ((record.isDeleteMarked && seesLatest) || !matches(record)) continue;
+
+      const marked = record.isDeleteMarked ? ' (delete-marked, an older version may still have it)' : '';
+      addStep(`Found Index Entry ${formatKey(lookup.indexName, record)} in Page ${current.id}${marked}.`, current.id, 'FOUND_INDEX_ENTRY', record.id);
+
+      // 2. Decision Point
+      if (lookup.covering && seesLatest) {
+        found.push(record.id);
+        continue;
+      }
+
+      // 3. Table Lookup (回表)
+      // Note: We pass the PK as targetRecordId so UI can draw line from it
+      lookups++;
+      const reason = lookup.covering ? 'The entry may be newer than the read view' : 'Need full row data';
+      addStep(`${reason}. Performing Table Lookup (回表) for PK: ${record.id}...`, current.id, 'JUMP_TO_PK', record.id);
+
+      // Search Primary (through the hash index, or from its root), then check that the version this read sees still has this entry
+      const pkHit = ahi.guess(pages, PRIMARY_INDEX, [record.id]);
+      const leaf = pkHit?.leaf ?? descend(pages, PRIMARY_INDEX, { id: record.id, values: {} });
+      if (leaf && !pkHit) ahi.learn(PRIMARY_INDEX, [record.id], leaf);
+      const clustered = leaf?.records.find(r => r.id === record.id);
+      const row = leaf && clustered ? readVersion(clustered, leaf.id) : null;
+      if (leaf && row && compareFn(toIndexEntry(index, row), record) === 0) {
+        found.push(record.id);
+        addStep(`Lookup Successful: Retrieved full row for ${record.id} from Primary Page ${leaf.id}.`, leaf.id, 'FOUND_DATA', record.id);
+      } else if (leaf && row) {
+        addStep(`Row ${record.id} as this read sees it is ${formatRow(row)}: not this entry, skipped.`, leaf.id, 'SCAN_PAGE', record.id);
+      }
+    }
+
+    // The matches can only continue on the next leaf if this page ended inside the key
+    if (done || current.nextPageId === null || walked.has(current.nextPageId)) break;
+    const nextId = current.nextPageId;
+    addStep(`Following nextPageId pointer: Page ${current.id} -> Page ${nextId}${fetchPage(nextId)}.`, current.id, 'SCAN_PAGE');
+    current = pages.find(p => p.id === nextId);
+  }
+
+  if (found.length === 0) {
+    addStep(`No entry with ${where} in ${lookup.indexName}.`, 0, 'FINISHED');
+  } else if (lookups === 0) {
+    addStep(`Covering Index optimization! ${found.length} row(s) read from ${lookup.indexName} alone, no table lookup required.`, 0, 'FINISHED');
+  } else {
+    addStep(`Lookup complete: ${found.length} row(s), ${lookups} table lookup(s).`, 0, 'FINISHED');
+  }
+
+  return complete();
 });
 
-const addLog = (logs: LogEntry[], message: string, type: LogEntry['type'] = 'info'): LogEntry[] => {
-  return [
-    { id: Math.random().toString(36).substr(2, 9), timestamp: Date.now(), message, type },
-    ...logs.slice(0, 49)
-  ];
+export const isEqualityCondition = (condition: ColumnCondition): boolean =>
+  condition.prefix === undefined && condition.from !== undefined && condition.to !== undefined &&
+  condition.from.inclusive && condition.to.inclusive && compareValues(condition.from.value, condition.to.value) === 0;
+
+// Position of a value relative to a condition: -1 before the range, 1 after it, 0 inside
+const conditionPosition = (condition: ColumnCondition, value: ColumnValue): number => {
+  if (condition.from) {
+    const c = compareValues(value, condition.from.value);
+    if (c < 0 || (c === 0 && !condition.from.inclusive)) return -1;
+  }
+  if (condition.to) {
+    const c = compareValues(value, condition.to.value);
+    if (c > 0 || (c === 0 && !condition.to.inclusive)) return 1;
+  }
+  if (condition.prefix !== undefined && !String(value).toLowerCase().startsWith(condition.prefix.toLowerCase())) {
+    return compareValues(value, condition.prefix) < 0 ? -1 : 1;
+  }
+  return 0;
 };
 
-// --- Core Logic ---
+export const matchesConditions = (record: RecordData, conditions: ColumnCondition[]): boolean =>
+  conditions.every(condition => conditionPosition(condition, getColumnValue(record, condition.column)) === 0);
+
+// Leading key columns a path narrows the scan with
+const getUsedParts = (path: AccessPath): number => path.equalityParts + (path.rangeColumn ? 1 : 0);
+
+/**
+ * Leftmost-prefix rule: an index can only narrow the scan by its leading key columns fixed with `=`,
+ * plus one range condition on the column right after them. One path per index, in schema order.
+ */
+const getAccessPaths = (schema: TableSchema, query: RangeQuery): AccessPath[] => {
+  const conditionOn = (column: string) => query.conditions.find(c => c.column === column);
+
+  return getIndexNames(schema).map(indexName => {
+    const keyColumns = getKeyColumns(schema, indexName);
+    let equalityParts = 0;
+    while (equalityParts < keyColumns.length) {
+      const condition = conditionOn(keyColumns[equalityParts]);
+      if (!condition || !isEqualityCondition(condition)) break;
+      equalityParts++;
+    }
+    const next = keyColumns[equalityParts];
+    return { indexName, keyColumns, equalityParts, rangeColumn: next !== undefined && conditionOn(next) ? next : undefined };
+  });
+};
+
+// EXPLAIN type of a path: equality on a whole unique key is const, a narrowed secondary scan ref or range
+const getAccessType = (schema: TableSchema, path: AccessPath): AccessType => {
+  if (getUsedParts(path) === 0) return path.indexName === PRIMARY_INDEX ? 'ALL' : 'index';
+  const uniqueColumns = getUniqueColumns(schema, path.indexName);
+  if (uniqueColumns && path.equalityParts >= uniqueColumns.length) return 'const';
+  return path.rangeColumn ? 'range' : 'ref';
+};
+
+/**
+ * Prices one path like the cost model does: every page read costs IO_BLOCK_READ_COST, every record the WHERE is
+ * evaluated on ROW_EVALUATE_COST. The records in range are counted on the leaves, as an index dive would
+ * (records_in_range). A secondary index that does not cover the query reads one clustered page per record (回表),
+ * fewer with ICP (only the records its pushed conditions keep) and MRR (each clustered page once).
+ * With LIMIT and no filesort the scan stops early, after about LIMIT / matches of the range.
+ */
+const estimateAccessPath = (pages: PageData[], schema: TableSchema, switches: OptimizerSwitch, query: RangeQuery, path: AccessPath, matches: number): AccessPathCost => {
+  const covering = isCoveringPath(path, query);
+  const withLookups = path.indexName !== PRIMARY_INDEX && !covering;
+  const { position } = splitConditions(path, query);
+  const pushedConditions = withLookups && switches.indexConditionPushdown ? getPushedConditions(path, query) : [];
+  let rows = 0;
+  let leafPages = 0;
+  const lookupIds: number[] = [];
+  for (const leaf of getLeafChain(pages, path.indexName)) {
+    const inRange = leaf.records.filter(r => position(r) === 0);
+    rows += inRange.length;
+    if (inRange.length > 0) leafPages++;
+    if (withLookups) lookupIds.push(...inRange.filter(r => matchesConditions(r, pushedConditions)).map(r => r.id));
+  }
+
+  const mrr = withLookups && isMrrPath(switches, path, query);
+  const lookupPages = mrr ? countPrimaryLeaves(pages, lookupIds) : lookupIds.length;
+  const sorted = !isOrderedByPath(path, query.orderBy);
+  const stopsAt = !sorted && query.limit !== undefined ? Math.min(1, query.limit / Math.max(matches, 1)) : 1;
+  const pagesRead = getTreeHeight(pages, path.indexName) - 1 + Math.max(leafPages, 1);
+  const cost = (pagesRead + lookupPages) * stopsAt * IO_BLOCK_READ_COST
+    + rows * stopsAt * ROW_EVALUATE_COST
+    + (sorted ? matches * ROW_EVALUATE_COST : 0);
 
-export const initializeEngine = (): EngineState => {
-  // We start with TWO pages: One for Primary Index, One for Secondary Index
-  const primaryPage = createPage(1, 'PRIMARY');
-  const secondaryPage = createPage(2, 'SECONDARY');
-  
   return {
-    pages: [primaryPage, secondaryPage],
-    logs: addLog([], 'InnoDB Engine Initialized. Created Primary Clustered Index and Secondary Index (Name).', 'success'),
-    pageCounter: 2,
+    path, type: getAccessType(schema, path), covering, rows, pages: pagesRead, lookups: lookupIds.length, lookupPages,
+    pushed: pushedConditions.length > 0, mrr, sorted, cost,
   };
 };
 
+// Why a candidate lost: its table lookups, its filesort, or simply more pages to read
+const explainRejection = (candidate: AccessPathCost, chosen: AccessPathCost): string => {
+  const winner = chosen.type === 'ALL' ? 'a full table scan' : `${chosen.path.indexName} (${chosen.type})`;
+  if (candidate.lookupPages > chosen.lookupPages) return `${candidate.lookups} table lookup(s) (回表) cost more than ${winner}`;
+  if (candidate.sorted && !chosen.sorted) return `the filesort for ORDER BY costs more than ${winner}`;
+  return `reads more than ${winner}`;
+};
+
 /**
- * Generic function to insert a record into a specific chain of pages (Linked List)
- * and handle splitting logic.
+ * Cost-based access path choice. The candidates are the clustered index (a range when id is bounded, a full
+ * table scan otherwise), every secondary index the WHERE narrows, every secondary index that covers the query
+ * (a full index scan reads fewer pages than the table), and an index already in ORDER BY order when LIMIT stops it
+ * early. The cheapest one wins, the clustered index on a tie. Estimated on the pages with their buffered changes,
+ * the way the query will read them.
  */
-const insertIntoIndex = (
-  pages: PageData[],
-  indexType: IndexType,
-  record: RecordData,
-  compareFn: (a: RecordData, b: RecordData) => number,
-  pageCounter: number,
-  logBuffer: LogEntry[]
-): { pages: PageData[], newPageCounter: number, logs: LogEntry[] } => {
-  
-  let currentPages = [...pages];
-  let counter = pageCounter;
-  let logs = [...logBuffer];
+export const planQuery = (state: EngineState, query: RangeQuery): QueryPlan => {
+  const { schema } = state;
+  const { pages } = withBufferedChanges(state);
+  const matches = getLeafRecords(pages, PRIMARY_INDEX).filter(r => !r.isDeleteMarked && matchesConditions(r, query.conditions)).length;
 
-  // 1. Find Target Page (Linear scan of the specific index type chain)
-  // In a real B+Tree, we traverse internal nodes. Here we scan the linked list of leaves.
-  const indexPages = currentPages.filter(p => p.indexType === indexType);
-  
-  // Start at the head
-  let head = indexPages.find(p => p.prevPageId === null);
-  if (!head && indexPages.length > 0) head = indexPages[0];
+  const candidates = getAccessPaths(schema, query)
+    .filter(path =>
+      path.indexName === PRIMARY_INDEX || getUsedParts(path) > 0 || isCoveringPath(path, query) ||
+      (query.limit !== undefined && query.orderBy !== undefined && path.keyColumns[0] === query.orderBy))
+    .map(path => estimateAccessPath(pages, schema, state.optimizerSwitch, query, path, matches))
+    .sort((a, b) => a.cost - b.cost); // Stable: the clustered index stays first on a tie
 
-  let targetPageId = -1;
-  let current = head;
+  const chosen = candidates[0];
+  return {
+    path: chosen.path,
+    matches,
+    candidates: candidates.map((candidate, i) => (i === 0 ? candidate : { ...candidate, reason: explainRejection(candidate, chosen) })),
+  };
+};
 
-  while (current) {
-    // If this is the last page, or the next page starts with a value larger than ours, we fit here.
-    if (current.nextPageId === null) {
-      targetPageId = current.id;
-      break;
+export const chooseAccessPath = (state: EngineState, query: RangeQuery): AccessPath => planQuery(state, query).path;
+
+// One line per candidate: PRIMARY ALL: 20 rows, 7 pages, cost 9.00
+export const formatAccessPathCost = ({ path, type, rows, pages, lookups, lookupPages, pushed, mrr, covering, sorted, cost, reason }: AccessPathCost): string =>
+  `${path.indexName} ${type}: ${rows} row(s), ${pages} page(s)${pushed ? ', ICP' : ''}` +
+  `${rows > 0 && !covering && path.indexName !== PRIMARY_INDEX ? `, ${lookups} lookup(s)${mrr ? ` over ${lookupPages} page(s) with MRR` : ''}` : ''}` +
+  `${covering ? ', covering' : ''}${sorted ? ', filesort' : ''}, cost ${cost.toFixed(2)}${reason ? ` -- skipped: ${reason}` : ''}`;
+
+// Whether an index scan over `path` returns rows already in ORDER BY order (never for a column outside its key)
+export const isOrderedByPath = (path: AccessPath, orderBy: string | undefined): boolean => {
+  if (orderBy === undefined) return true;
+  const position = path.keyColumns.indexOf(orderBy);
+  return position !== -1 && position <= path.equalityParts;
+};
+
+// A secondary index covers the query when every column it reads is part of the index key
+export const isCoveringPath = (path: AccessPath, query: RangeQuery): boolean => {
+  if (path.indexName === PRIMARY_INDEX || query.columns === undefined) return false;
+  const needed = [...query.columns, ...query.conditions.map(c => c.column), ...(query.orderBy ? [query.orderBy] : [])];
+  return needed.every(column => path.keyColumns.includes(column));
+};
+
+// Index Condition Pushdown: the WHERE conditions the scan does not bound but the index entry can answer
+const getPushedConditions = (path: AccessPath, query: RangeQuery): ColumnCondition[] =>
+  splitConditions(path, query).residual.filter(c => path.keyColumns.includes(c.column));
+
+/**
+ * Multi-Range Read on a secondary index that is not covering: the lookups wait until the scan is over, then
+ * go to the clustered index sorted by PK. Only when the rows may come back in PK order: no LIMIT that stops
+ * the scan, and no ORDER BY the index order would have given for free.
+ */
+export const isMrrPath = (switches: OptimizerSwitch, path: AccessPath, query: RangeQuery): boolean =>
+  switches.mrr && path.indexName !== PRIMARY_INDEX && !isCoveringPath(path, query) &&
+  query.limit === undefined && (query.orderBy === undefined || !isOrderedByPath(path, query.orderBy));
+
+// Distinct clustered leaf pages holding the given PKs
+const countPrimaryLeaves = (pages: PageData[], ids: number[]): number => {
+  const leafOf = new Map(getLeafChain(pages, PRIMARY_INDEX).flatMap(leaf => leaf.records.map(r => [r.id, leaf.id] as const)));
+  return new Set(ids.map(id => leafOf.get(id))).size;
+};
+
+// The conditions as SQL: city = 'Paris' AND age > 30
+const describeConditions = (conditions: ColumnCondition[]): string =>
+  conditions.flatMap(({ column, from, to, prefix }) => {
+    const parts: string[] = [];
+    if (prefix !== undefined) parts.push(`${column} LIKE '${prefix}%'`);
+    if (from && to && isEqualityCondition({ column, from, to })) {
+      parts.push(`${column} = ${formatValue(from.value)}`);
+    } else if (from?.inclusive && to?.inclusive) {
+      parts.push(`${column} BETWEEN ${formatValue(from.value)} AND ${formatValue(to.value)}`);
+    } else {
+      if (from) parts.push(`${column} ${from.inclusive ? '>=' : '>'} ${formatValue(from.value)}`);
+      if (to) parts.push(`${column} ${to.inclusive ? '<=' : '<'} ${formatValue(to.value)}`);
     }
-    
-    // Look ahead
-    const nextPage = currentPages.find(p => p.id === current!.nextPageId);
-    if (nextPage && nextPage.records.length > 0 && compareFn(nextPage.records[0], record) > 0) {
-      targetPageId = current.id;
-      break;
+    return parts;
+  }).join(' AND ');
+
+const describeRangeQuery = (schema: TableSchema, query: RangeQuery): string => {
+  return [
+    `SELECT ${query.columns ? query.columns.join(', ') : '*'} FROM ${schema.name}`,
+    query.conditions.length > 0 ? `WHERE ${describeConditions(query.conditions)}` : null,
+    query.orderBy ? `ORDER BY ${query.orderBy}${query.descending ? ' DESC' : ''}` : null,
+    query.limit !== undefined ? `LIMIT ${query.limit}` : null,
+    query.lock ? (query.lock === 'X' ? 'FOR UPDATE' : 'FOR SHARE') : null,
+  ].filter(Boolean).join(' ');
+};
+
+// The conditions an access path bounds the scan with, and the rest that filter rows (Using where)
+const splitConditions = (path: AccessPath, query: RangeQuery) => {
+  const boundColumns = path.keyColumns.slice(0, path.equalityParts + (path.rangeColumn ? 1 : 0));
+  const boundConditions = boundColumns.map(column => query.conditions.find(c => c.column === column)!);
+  const residual = query.conditions.filter(c => !boundColumns.includes(c.column));
+  // Position of an index record relative to the scanned range: -1 before it, 1 after it, 0 inside
+  const position = (r: RecordData): number => {
+    for (const condition of boundConditions) {
+      const p = conditionPosition(condition, getColumnValue(r, condition.column));
+      if (p !== 0) return p;
     }
-    
-    // Move next
-    current = nextPage;
-  }
+    return 0;
+  };
+  return { boundConditions, residual, position };
+};
 
-  if (targetPageId === -1) return { pages: currentPages, newPageCounter: counter, logs };
+/**
+ * Range scan: descend once to the start leaf, then walk the leaf chain
+ * (nextPageId, or prevPageId for ORDER BY ... DESC) until the range ends.
+ * The index is the cheapest one by planQuery; conditions it cannot use are checked row by row (Using where).
+ * A secondary range scan does one table lookup (回表) per match unless the index covers the query.
+ * ORDER BY on a column other than the scanned index order needs a filesort before LIMIT applies.
+ * Rows are read through the read view of `sessionId`, like simulateSelectQuery. A locking read (FOR UPDATE / FOR SHARE)
+ * reads the latest versions instead, once it holds the locks of its scan (it may have to wait for them first).
+ */
+export const simulateRangeQuery = mergeOnRead((state: EngineState, query: RangeQuery, sessionId?: number): StatementResult => {
+  const { pages, schema } = state;
+  const locks = createLockWriter(state, sessionId);
+  const waiting = query.lock ? locks.request({ kind: 'SELECT', query }) : null;
+  if (waiting) return { state: waiting, steps: [] };
+  const consistent = query.lock ? null : openReadView(state, sessionId);
+  const seesLatest = !consistent || seesLatestVersions(consistent.view, state.nextTrxId);
+  const { steps, addStep, descend, descendToEdge, fetchPage, readVersion, finish } = createStepRecorder(state, seesLatest ? undefined : consistent?.view);
 
-  const pageIndex = currentPages.findIndex(p => p.id === targetPageId);
-  const targetPage = currentPages[pageIndex];
+  const plan = planQuery(state, query);
+  const { path } = plan;
+  const { indexName, keyColumns, equalityParts, rangeColumn } = path;
+  const isPrimary = indexName === PRIMARY_INDEX;
+  const indexLabel = isPrimary ? 'Primary' : `${indexName}`;
+  const covering = isCoveringPath(path, query) && seesLatest;
+  const needsFilesort = !isOrderedByPath(path, query.orderBy);
+  const descending = !needsFilesort && !!query.descending;
+  const limit = query.limit ?? Infinity;
 
-  // Check for duplicate PK in Primary Index (Strict)
-  if (indexType === 'PRIMARY' && targetPage.records.some(r => r.id === record.id)) {
-    logs = addLog(logs, `Duplicate Key Error: ID ${record.id} exists.`, 'error');
-    return { pages: currentPages, newPageCounter: counter, logs };
+  addStep(`QUERY: ${describeRangeQuery(schema, query)}`, 0, 'FINISHED');
+  const [chosen, ...rejected] = plan.candidates;
+  addStep(`Optimizer: ${formatAccessPathCost(chosen)}${rejected.length > 0 ? ` | Rejected: ${rejected.map(formatAccessPathCost).join(' | ')}` : ''}.`, 0, 'FINISHED');
+  if (consistent && (sessionId !== undefined || !seesLatest)) addStep(formatReadViewStep(consistent.view, consistent.reused), 0, 'FINISHED');
+  if (locks.granted.length > 0) {
+    const held = getSession(state, sessionId)?.inTransaction ? 'held until the transaction ends' : 'released when the statement commits';
+    addStep(`Locking read of the latest versions, ${locks.granted.length} lock(s) ${held}: ${locks.granted.map(describeLock).join('; ')}.`, 0, 'FINISHED');
   }
 
-  // 2. Insert and Sort
-  const updatedRecords = [...targetPage.records, record].sort(compareFn);
-  
-  currentPages[pageIndex] = {
-    ...targetPage,
-    records: updatedRecords,
-    isDirty: true,
-    isSplitting: false
-  };
+  // Conditions on the leading key columns bound the scan, the rest filter rows (Using where)
+  const { boundConditions, residual, position } = splitConditions(path, query);
 
-  // 3. Check Split
-  if (updatedRecords.length > PAGE_CAPACITY) {
-    logs = addLog(logs, `[${indexType}] Page ${targetPageId} full. Splitting...`, 'warning');
-    
-    counter++;
-    const newPageId = counter;
-    const newPage = createPage(newPageId, indexType);
+  // 1. Find the start leaf
+  const equalValues = boundConditions.slice(0, equalityParts).map(c => c.from!.value);
+  const range = rangeColumn ? boundConditions[equalityParts] : undefined;
+  let leaf: PageData | undefined;
+  if (!descending) {
+    const start = range?.from?.value ?? range?.prefix;
+    const prefix = start === undefined ? equalValues : [...equalValues, start];
+    leaf = prefix.length === 0
+      ? descendToEdge(pages, indexName, 'first')
+      : descend(pages, indexName, makeSearchKey(keyColumns, prefix, range?.from && !range.from.inclusive ? Infinity : -Infinity));
+  } else {
+    const prefix = range?.to === undefined ? equalValues : [...equalValues, range.to.value];
+    leaf = prefix.length === 0
+      ? descendToEdge(pages, indexName, 'last')
+      : descend(pages, indexName, makeSearchKey(keyColumns, prefix, range?.to && !range.to.inclusive ? -Infinity : Infinity));
+  }
 
-    const splitIndex = Math.ceil(updatedRecords.length / 2);
-    const keepRecords = updatedRecords.slice(0, splitIndex);
-    const moveRecords = updatedRecords.slice(splitIndex);
+  // Index Condition Pushdown checks the conditions the entry can answer before its lookup; MRR defers the lookups
+  const withLookups = !isPrimary && !covering;
+  const pushed = withLookups && state.optimizerSwitch.indexConditionPushdown ? getPushedConditions(path, query) : [];
+  const mrr = withLookups && isMrrPath(state.optimizerSwitch, path, query);
+  if (pushed.length > 0) addStep(`Index Condition Pushdown: ${describeConditions(pushed)} is checked on each ${indexName} entry, before its table lookup.`, 0, 'FINISHED');
+  if (mrr) addStep(`Multi-Range Read: the PKs of the matching entries are collected first, the table lookups follow in PK order.`, 0, 'FINISHED');
 
-    // Update Old Page
-    currentPages[pageIndex] = {
-      ...currentPages[pageIndex],
-      records: keepRecords,
-      isSplitting: true,
-      nextPageId: newPageId
-    };
+  // 2. Walk the leaf chain, collecting matches
+  const rows: RecordData[] = [];
+  let leafCount = 0;
+  let lookups = 0;
+  let done = false;
+  let stoppedByLimit = false; // Not just past the end of the range: LIMIT cut the scan short
+  const scanned: RecordData[] = []; // Entries in range, before ICP: the lookups there would be without it
+  const deferred: { record: RecordData, leafId: number }[] = []; // MRR: entries whose lookup waits for the end of the scan
+  const primaryReads: number[] = []; // Clustered leaf read by each lookup
 
-    // Update New Page
-    newPage.records = moveRecords;
-    newPage.nextPageId = targetPage.nextPageId;
-    newPage.prevPageId = targetPage.id;
-    newPage.isDirty = true;
+  // Table lookup (回表) of one entry. `pinned` is the clustered leaf MRR read last: a PK on it needs no new descent.
+  const lookupRow = (record: RecordData, fromPageId: number, pinned?: PageData): { row: RecordData | null, leaf?: PageData } => {
+    lookups++;
+    addStep(`Table Lookup (回表) #${lookups} for PK: ${record.id}...`, fromPageId, 'JUMP_TO_PK', record.id);
+    const onPinned = pinned?.records.some(r => r.id === record.id);
+    const primaryLeaf = onPinned ? pinned : descend(pages, PRIMARY_INDEX, { id: record.id, values: {} });
+    if (onPinned) addStep(`PK ${record.id} is on Primary Page ${pinned!.id} too, still pinned: no descent.`, pinned!.id, 'SCAN_PAGE', record.id);
+    else if (primaryLeaf) primaryReads.push(primaryLeaf.id);
+    const clustered = primaryLeaf?.records.find(r => r.id === record.id);
+    const row = primaryLeaf && clustered ? readVersion(clustered, primaryLeaf.id) : null;
+    if (!primaryLeaf || !row) return { row: null, leaf: primaryLeaf };
+    if (getComparator(schema, indexName)(toIndexEntry(getIndexDef(schema, indexName)!, row), record) !== 0) {
+      addStep(`Row ${row.id} as this read sees it is ${formatRow(row)}: not this entry, skipped.`, primaryLeaf.id, 'SCAN_PAGE', row.id);
+      return { row: null, leaf: primaryLeaf };
+    }
+    if (!matchesConditions(row, residual)) {
+      addStep(`Row ${row.id} fails the remaining WHERE conditions: discarded after the lookup.`, primaryLeaf.id, 'SCAN_PAGE', row.id);
+      return { row: null, leaf: primaryLeaf };
+    }
+    addStep(`Retrieved full row ${row.id} from Primary Page ${primaryLeaf.id}.`, primaryLeaf.id, 'FOUND_DATA', row.id);
+    return { row, leaf: primaryLeaf };
+  };
 
-    // Fix pointer of the page after the new one (if exists)
-    if (targetPage.nextPageId !== null) {
-      const nextNextPageIndex = currentPages.findIndex(p => p.id === targetPage.nextPageId);
-      if (nextNextPageIndex !== -1) {
-        currentPages[nextNextPageIndex] = {
-          ...currentPages[nextNextPageIndex],
-          prevPageId: newPageId
-        };
+  const walked = new Set<number>();
+  while (leaf && !done) {
+    walked.add(leaf.id);
+    leafCount++;
+    addStep(`Scanning ${indexLabel} Leaf Page ${leaf.id}${descending ? ' (backward)' : ''}...`, leaf.id, 'SCAN_PAGE');
+
+    const records = descending ? [...leaf.records].reverse() : leaf.records;
+    for (const record of records) {
+      if (record.isDeleteMarked && seesLatest) continue;
+      const pos = position(record) * (descending ? -1 : 1);
+      if (pos < 0) continue;
+      if (pos > 0) { done = true; break; }
+
+      if (isPrimary) {
+        const row = readVersion(record, leaf.id);
+        if (!row || !matchesConditions(row, residual)) continue;
+        addStep(`Match: row ${formatRow(row)} in Page ${leaf.id}.`, leaf.id, 'FOUND_DATA', row.id);
+        rows.push(row);
+      } else if (covering) {
+        if (!matchesConditions(record, residual)) continue;
+        addStep(`Match: index entry ${formatKey(indexName, record)} in Page ${leaf.id}.`, leaf.id, 'FOUND_INDEX_ENTRY', record.id);
+        rows.push(record);
+      } else {
+        addStep(`Match: index entry ${formatKey(indexName, record)} in Page ${leaf.id}.`, leaf.id, 'FOUND_INDEX_ENTRY', record.id);
+        scanned.push(record);
+        if (!matchesConditions(record, pushed)) {
+          addStep(`Index Condition Pushdown: ${formatKey(indexName, record)} fails ${describeConditions(pushed)}, skipped without a table lookup.`, leaf.id, 'SCAN_PAGE', record.id);
+          continue;
+        }
+        if (mrr) {
+          deferred.push({ record, leafId: leaf.id });
+          addStep(`MRR: PK ${record.id} goes to the read buffer (${deferred.length} so far), no lookup yet.`, leaf.id, 'SCAN_PAGE', record.id);
+          continue;
+        }
+        const { row } = lookupRow(record, leaf.id);
+        if (!row) continue;
+        rows.push(row);
+      }
+
+      if (!needsFilesort && rows.length >= limit) {
+        addStep(`LIMIT ${limit} reached. Stopping the scan early.`, leaf.id, 'FINISHED');
+        done = true;
+        stoppedByLimit = true;
+        break;
       }
     }
 
-    currentPages.push(newPage);
-    logs = addLog(logs, `[${indexType}] Split Complete. Page ${targetPageId} -> Page ${newPageId}.`, 'success');
+    if (done) break;
+    const nextId = descending ? leaf.prevPageId : leaf.nextPageId;
+    if (nextId === null || walked.has(nextId)) break;
+    addStep(`Following ${descending ? 'prevPageId' : 'nextPageId'} pointer: Page ${leaf.id} -> Page ${nextId}${fetchPage(nextId)}.`, leaf.id, 'SCAN_PAGE');
+    leaf = pages.find(p => p.id === nextId);
   }
 
-  return { pages: currentPages, newPageCounter: counter, logs };
-};
+  // MRR: the buffered PKs sorted, so the clustered leaves are read in key order, each one once
+  if (mrr && deferred.length > 0) {
+    const sorted = [...deferred].sort((a, b) => a.record.id - b.record.id);
+    addStep(`MRR: sorted ${deferred.length} PK(s) [${sorted.map(({ record }) => record.id).join(', ')}], reading the Primary pages in key order.`, 0, 'FINISHED');
+    let pinned: PageData | undefined;
+    for (const { record, leafId } of sorted) {
+      const { row, leaf: primaryLeaf } = lookupRow(record, leafId, pinned);
+      pinned = primaryLeaf;
+      if (row) rows.push(row);
+    }
+  }
 
+  // This scan's lookups and clustered leaf reads, next to what they would be with each optimization on or off.
+  // Without MRR every lookup descends to its leaf; with MRR each distinct leaf is read once.
+  // When LIMIT stopped the scan only the entries scanned before count: ICP or not, the scan stops at the same entry.
+  if (withLookups && scanned.length > 0) {
+    const kept = scanned.filter(r => matchesConditions(r, getPushedConditions(path, query)));
+    const pagesOf = (entries: RecordData[]) => countPrimaryLeaves(pages, entries.map(r => r.id));
+    addStep(
+      `This scan${stoppedByLimit ? ` (LIMIT ${limit} stopped it after ${scanned.length} entr${scanned.length === 1 ? 'y' : 'ies'})` : ''}: ${lookups} lookup(s), ${primaryReads.length} Primary leaf read(s). ` +
+      `Without ICP: ${scanned.length} lookup(s) over ${pagesOf(scanned)} distinct page(s); with ICP: ${kept.length} over ${pagesOf(kept)}. ` +
+      `Leaf reads without MRR: one per lookup; with MRR: one per distinct page.`,
+      0, 'FINISHED'
+    );
+  }
 
-export const insertRecord = (state: EngineState, id: number, value: string): EngineState => {
-  let { pages, pageCounter, logs } = state;
-  
-  // Clean flags
-  pages = pages.map(p => ({ ...p, isDirty: false, isSplitting: false, isHighlighted: false, records: p.records.map(r => ({...r, isNew: false, isHighlighted: false})) }));
+  // 3. ORDER BY on another column: sort the collected rows, then apply LIMIT
+  let result = rows;
+  if (needsFilesort) {
+    const orderBy = query.orderBy!;
+    result = [...rows]
+      .sort((a, b) => (compareValues(getColumnValue(a, orderBy), getColumnValue(b, orderBy)) || a.id - b.id) * (query.descending ? -1 : 1))
+      .slice(0, query.limit);
+    addStep(`Using filesort: sorted ${rows.length} row(s) by ${orderBy}${query.descending ? ' DESC' : ''}${query.limit !== undefined ? `, kept ${result.length}` : ''}.`, 0, 'FINISHED');
+  }
 
-  // 1. Insert into Clustered Index (Primary) - Sorted by ID
-  const primaryResult = insertIntoIndex(
-    pages, 
-    'PRIMARY', 
-    { id, value, isNew: true }, 
-    (a, b) => a.id - b.id, 
-    pageCounter, 
-    logs
-  );
+  const lookupInfo = !isPrimary ? `, ${lookups} table lookup(s)` : '';
+  addStep(`Range scan complete: ${result.length} row(s) [${result.map(r => r.id).join(', ')}], ${leafCount} leaf page(s) scanned${lookupInfo}.`, 0, 'FINISHED');
 
-  pages = primaryResult.pages;
-  pageCounter = primaryResult.newPageCounter;
-  logs = primaryResult.logs;
+  return { state: finish(locks.commit({ ...state, sessions: consistent?.sessions ?? state.sessions })), steps };
+});
 
-  // 2. Insert into Secondary Index (Name) - Sorted by Value, then ID
-  // In secondary index, we only really store {value, id}.
-  const secondaryResult = insertIntoIndex(
-    pages,
-    'SECONDARY',
-    { id, value, isNew: true },
-    (a, b) => a.value.localeCompare(b.value) || a.id - b.id,
-    pageCounter,
-    logs
-  );
+// --- Crash Recovery ---
 
-  pages = secondaryResult.pages;
-  pageCounter = secondaryResult.newPageCounter;
-  
-  logs = addLog(logs, `Transaction Committed: Inserted (${id}, "${value}").`, 'info');
+/**
+ * Crash and restart. The buffer pool is lost together with every change that was not flushed yet;
+ * only the pages on disk and the redo log survive. Recovery replays the redo after the checkpoint LSN
+ * page by page (like recv_recover_page): a record is applied only if the page on disk is older than it.
+ * A page torn by the crash fails its checksum: it is restored from the doublewrite buffer first, or stays corrupted without it.
+ * Every step carries the pages as rebuilt so far. The replayed pages end up dirty in a fresh buffer pool.
+ * The undo log survives too: transactions that were still active are rolled back, and every session reconnects.
+ */
+export const simulateCrashRecovery = (state: EngineState): StatementResult => {
+  const steps: SimulationStep[] = [];
+  let pages = state.diskPages;
+  const addStep = (message: string, pageId: number, type: SimulationStep['type']) => {
+    steps.push({ stepId: steps.length, message, targetPageId: pageId, type, pages: refreshSpace(pages, state.pageSize) });
+  };
 
-  return {
-    pages,
+  const lost = state.pages.filter(p => p.isDirty).length;
+  addStep(`CRASH! The buffer pool is gone: ${lost} dirty page(s) lose their unflushed changes. Restarting from the pages on disk, checkpoint LSN ${state.checkpointLsn}.`, 0, 'FINISHED');
+
+  // Doublewrite recovery (buf_dblwr_t::recover): a page whose checksum fails was torn by the crash in the middle of its write.
+  // Its intact copy in the doublewrite buffer replaces it; without one, redo (changes to a page, not images in InnoDB) has nothing sound to apply to.
+  let diskPages = state.diskPages;
+  const corrupted: number[] = [];
+  state.diskPages.filter(isPageCorrupted).forEach(page => {
+    const checksums = `stored checksum ${page.checksum}, computed ${computePageChecksum(page)}`;
+    const copy = findDoublewriteCopy(state.doublewrite, page.id);
+    if (copy) {
+      diskPages = diskPages.map(p => (p.id === page.id ? copy : p));
+      pages = pages.map(p => (p.id === page.id ? copy : p));
+      addStep(`Page ${page.id}: ${checksums}, a torn write. Restored from its doublewrite copy (page LSN ${copy.lsn}) and written back in place.`, page.id, 'DOUBLEWRITE');
+      return;
+    }
+    corrupted.push(page.id);
+    pages = pages.map(p => (p.id === page.id ? { ...p, isCorrupted: true } : p));
+    const noCopy = state.doublewrite.enabled ? 'the doublewrite buffer holds no copy of it' : 'innodb_doublewrite is OFF, so there is no copy';
+    addStep(`Page ${page.id}: ${checksums}, a torn write, and ${noCopy}. Its header claims LSN ${page.lsn} over older records: the page is corrupted.`, page.id, 'DOUBLEWRITE');
+  });
+
+  // Redo records are applied per page, pages in the order of their first record
+  const replay = state.redoLog.filter(r => r.lsn > state.checkpointLsn);
+  const pageIds = [...new Set(replay.map(r => r.pageId))];
+  const replayed: number[] = [];
+  let applied = 0;
+
+  pageIds.forEach(pageId => {
+    const records = replay.filter(r => r.pageId === pageId);
+    if (corrupted.includes(pageId)) {
+      addStep(`Page ${pageId}: corrupted, its ${records.length} redo record(s) cannot be applied.`, pageId, 'APPLY_REDO');
+      return;
+    }
+    const onDisk = pages.find(p => p.id === pageId);
+    const pending = records.filter(r => !onDisk || onDisk.lsn < r.lsn);
+    if (pending.length === 0) {
+      addStep(`Page ${pageId}: page LSN ${onDisk!.lsn} already covers its redo (up to LSN ${records[records.length - 1].lsn}), skipped.`, pageId, 'APPLY_REDO');
+      return;
+    }
+
+    applied += pending.length;
+    const last = pending[pending.length - 1];
+    const range = pending.length === 1 ? `LSN ${last.lsn}` : `LSN ${pending[0].lsn}..${last.lsn}`;
+    const counts = new Map<string, number>();
+    pending.forEach(r => counts.set(r.type, (counts.get(r.type) ?? 0) + 1));
+    const kinds = [...counts].map(([type, n]) => (n > 1 ? `${n}x ${type}` : type)).join(', ');
+
+    // Page numbers are never reused, so a PAGE_FREE is always the last record of its page
+    if (last.type === 'PAGE_FREE') {
+      pages = pages.filter(p => p.id !== pageId);
+      addStep(`Page ${pageId}: replayed ${pending.length} redo record(s) (${range}: ${kinds}), the page is free again.`, pageId, 'APPLY_REDO');
+      return;
+    }
+    pages = onDisk ? pages.map(p => (p.id === pageId ? last.image! : p)) : [...pages, last.image!];
+    replayed.push(pageId);
+    addStep(`Page ${pageId}: ${onDisk ? `page LSN ${onDisk.lsn}` : 'never written to disk'}, applied ${pending.length} redo record(s) (${range}: ${kinds}). Page LSN now ${last.lsn}.`, pageId, 'APPLY_REDO');
+  });
+
+  // Restart: the replayed pages are modified in memory again, in a buffer pool that starts empty
+  const diskMaxId = Math.max(0, ...state.diskPages.map(p => p.id));
+  const recovered = refreshSpace(pages.map(p => (replayed.includes(p.id) ? { ...p, isDirty: true } : p)), state.pageSize);
+  let logs = addLog(state.logs, `CRASH! ${lost} dirty page(s) lost. Crash recovery starts at checkpoint LSN ${state.checkpointLsn}.`, 'error');
+  logs = corrupted.length > 0
+    ? addLog(logs, `Crash recovery failed: page(s) ${corrupted.join(', ')} torn and not repairable without doublewrite.`, 'error')
+    : addLog(logs, `Crash recovery complete: ${applied} of ${replay.length} redo record(s) applied to ${pageIds.length} page(s), up to LSN ${state.lsn}.`, 'success');
+  const restarted: EngineState = {
+    ...state,
+    pages: recovered,
+    pageCounter: Math.max(diskMaxId, ...replay.map(r => r.pageId)),
     logs,
-    pageCounter
+    // The lock system, the adaptive hash index and the counters only live in memory: every lock, lock wait, hash entry and count is gone
+    locks: [],
+    adaptiveHash: createAdaptiveHash(state.adaptiveHash.enabled),
+    indexCounters: {},
+    sessions: state.sessions.map(s => ({ ...s, pending: null })),
+    ...finishBufferPool(startStatement(createBufferPool(state.bufferPool.capacity)), [], recovered, diskMaxId, { diskPages, doublewrite: state.doublewrite }),
   };
+
+  // Rollback of the transactions that never committed
+  let rolledBack = restarted;
+  state.sessions.filter(s => s.trxId !== null).forEach(session => {
+    const undoCount = state.undoLog.filter(u => u.trxId === session.trxId).length;
+    rolledBack = rollbackTransaction(rolledBack, session.id);
+    pages = rolledBack.pages;
+    addStep(`Transaction ${session.trxId} (session ${session.id}) was still active: rolled back by applying its ${undoCount} undo record(s).`, 0, 'READ_UNDO');
+  });
+  rolledBack = { ...rolledBack, sessions: state.sessions.map(s => createSession(s.id, s.isolationLevel)) };
+
+  pages = rolledBack.pages;
+  if (corrupted.length > 0) {
+    addStep(`Recovery FAILED: page(s) ${corrupted.join(', ')} corrupted. MySQL would refuse to start ("Database page corruption on disk"); only innodb_force_recovery or a backup gets the data back.`, 0, 'FINISHED');
+  } else {
+    addStep(`Recovery complete: ${applied} of ${replay.length} redo record(s) applied, ${replayed.length} page(s) rebuilt up to LSN ${state.lsn}. The database is consistent again.`, 0, 'FINISHED');
+  }
+  return { state: rolledBack, steps };
 };
 
-// --- Query Simulation Logic ---
+/**
+ * Fault injection: the power fails in the middle of a checkpoint flush. The dirty pages are written oldest first
+ * (through the doublewrite buffer if it is on); the write of one page stops after its first sector, so its header
+ * carries the new LSN and checksum over the old records. Crash recovery runs right after.
+ */
+export const simulateTornWrite = (state: EngineState): StatementResult => {
+  const batch = state.bufferPool.flushList;
+  if (batch.length === 0) {
+    return { state: { ...state, logs: addLog(state.logs, 'Torn write: no dirty page to flush, nothing to tear.', 'warning') }, steps: [] };
+  }
 
-export const simulateSelectQuery = (
-  state: EngineState, 
-  type: 'BY_ID' | 'BY_NAME' | 'BY_NAME_COVERING', 
-  param: string | number
-): SimulationStep[] => {
   const steps: SimulationStep[] = [];
-  let stepId = 0;
+  const addStep = (message: string, pageId: number, type: SimulationStep['type']) => {
+    steps.push({ stepId: steps.length, message, targetPageId: pageId, type, pages: state.pages });
+  };
+
+  // The write that tears: the first page that already has an image on disk, so part of the old one stays
+  const tornId = batch.find(id => state.diskPages.some(p => p.id === id)) ?? batch[0];
+  const tornPage = state.pages.find(p => p.id === tornId)!;
+  let disk: DiskState = state;
+  addStep(`Checkpoint flush of ${batch.length} dirty page(s), oldest modification first: ${batch.join(', ')}.`, 0, 'FLUSH_PAGE');
+  if (state.doublewrite.enabled) {
+    disk = { ...disk, doublewrite: writeDoublewriteBatch(disk.doublewrite, state.pages.filter(p => batch.includes(p.id)).map(toDiskImage)) };
+    addStep(`Doublewrite: all ${batch.length} page(s) copied to the doublewrite buffer and synced before any of them is written in place.`, 0, 'DOUBLEWRITE');
+  } else {
+    addStep('innodb_doublewrite is OFF: every page goes straight to its home location, with no copy anywhere else.', 0, 'FLUSH_PAGE');
+  }
+  batch.slice(0, batch.indexOf(tornId)).forEach(pageId => {
+    disk = { ...disk, diskPages: writePages(disk, state.pages, [pageId]).diskPages };
+    addStep(`Page ${pageId} written to its home location.`, pageId, 'FLUSH_PAGE');
+  });
+
+  const image = toDiskImage(tornPage);
+  const old = state.diskPages.find(p => p.id === tornId) ?? toPageImage(createPage(tornId, tornPage.indexName, state.pageSize, tornPage.level));
+  disk = { ...disk, diskPages: [...disk.diskPages.filter(p => p.id !== tornId), { ...old, lsn: image.lsn, checksum: image.checksum }] };
+  addStep(`POWER FAILURE while writing Page ${tornId}: only its first sector reached the disk. The header says LSN ${image.lsn}, the records are still those of LSN ${old.lsn}.`, tornId, 'FLUSH_PAGE');
+
+  // The checkpoint never completed: recovery starts from the previous one
+  const logs = addLog(state.logs, `Power failure during a flush: the write of Page ${tornId} was torn.`, 'error');
+  const recovery = simulateCrashRecovery({ ...state, ...disk, logs });
+  return { state: recovery.state, steps: [...steps, ...recovery.steps].map((step, stepId) => ({ ...step, stepId })) };
+};
+
+// innodb_doublewrite
+export const setDoublewrite = (state: EngineState, enabled: boolean): EngineState => ({
+  ...state,
+  doublewrite: { ...state.doublewrite, enabled },
+  logs: addLog(state.logs, enabled
+    ? 'Doublewrite enabled: every flush batch is copied to the doublewrite buffer before it is written in place.'
+    : 'Doublewrite disabled: pages are written in place only, a torn write can no longer be repaired.', enabled ? 'info' : 'warning'),
+});
+
+// --- Index Statistics ---
+
+// Share of a page's usable bytes its records take
+const getPageFillPct = (page: PageData, pageSize: number): number =>
+  (getRecordsBytes(page.indexName, page.records) / getUsableBytes(pageSize)) * 100;
 
-  // Helper to push step
-  const addStep = (msg: string, pageId: number, type: SimulationStep['type'], recordId?: number) => {
-    steps.push({ stepId: stepId++, message: msg, targetPageId: pageId, type, targetRecordId: recordId });
+// Size of an index: its pages, and how full its leaves are
+export const getIndexFill = (pages: PageData[], indexName: string, pageSize: number): IndexFill => {
+  const indexPages = pages.filter(p => p.indexName === indexName);
+  const leaves = indexPages.filter(p => p.level === 0);
+  const leafBytes = leaves.reduce((sum, p) => sum + getRecordsBytes(indexName, p.records), 0);
+  return {
+    pages: indexPages.length,
+    leafPages: leaves.length,
+    height: getTreeHeight(pages, indexName),
+    fillPct: leaves.length > 0 ? (leafBytes / (leaves.length * getUsableBytes(pageSize))) * 100 : 0,
   };
+};
 
-  const pages = state.pages;
+// Leaf pages by number of records, in at most `buckets` ranges of equal width
+const getRecordsPerPage = (leaves: PageData[], buckets: number): RecordsPerPageBucket[] => {
+  if (leaves.length === 0) return [];
+  const counts = leaves.map(p => p.records.length);
+  const low = Math.min(...counts);
+  const width = Math.max(1, Math.ceil((Math.max(...counts) - low + 1) / buckets));
+  return Array.from({ length: Math.ceil((Math.max(...counts) - low + 1) / width) }, (_, i) => {
+    const min = low + i * width;
+    const max = min + width - 1;
+    return { min, max, pages: counts.filter(n => n >= min && n <= max).length };
+  });
+};
 
-  if (type === 'BY_ID') {
-    // Simple Clustered Index Scan
-    const id = Number(param);
-    addStep(`QUERY: SELECT * FROM table WHERE id = ${id}`, 0, 'FINISHED');
-    
-    // Find Head of Primary
-    let current = pages.find(p => p.indexType === 'PRIMARY' && p.prevPageId === null);
-    
-    while (current) {
-      addStep(`Scanning Primary Page ${current.id}...`, current.id, 'SCAN_PAGE');
-      
-      const found = current.records.find(r => r.id === id);
-      if (found) {
-        addStep(`Found Record ${id} in Page ${current.id}. Returning Data.`, current.id, 'FOUND_DATA', id);
-        return steps;
+/**
+ * Per index statistics, in schema order: size, leaf fill, splits and merges since startup, records per leaf page,
+ * and the order of the leaf pages. A next pointer to a lower page id means a scan in key order reads the file
+ * backwards there: sequential inserts leave none, random inserts leave many.
+ */
+export const getIndexStats = (state: EngineState): IndexStats[] =>
+  getIndexNames(state.schema).map(indexName => {
+    const fill = getIndexFill(state.pages, indexName, state.pageSize);
+    const leaves = getLeafChain(state.pages, indexName);
+    const fills = leaves.map(p => getPageFillPct(p, state.pageSize));
+    const linked = state.pages.filter(p => p.indexName === indexName && p.nextPageId !== null);
+    return {
+      indexName,
+      pages: fill.pages,
+      leafPages: fill.leafPages,
+      height: fill.height,
+      avgFillPct: fill.fillPct,
+      minFillPct: fills.length > 0 ? Math.min(...fills) : 0,
+      counters: state.indexCounters[indexName] ?? { splits: 0, merges: 0 },
+      recordsPerPage: getRecordsPerPage(leaves, 6),
+      leafOrder: leaves.map(p => p.id),
+      links: linked.length,
+      backwardLinks: linked.filter(p => p.nextPageId! < p.id).length,
+    };
+  });
+
+// --- CHECK TABLE ---
+
+const formatPageRef = (pageId: number | null): string => (pageId === null ? 'NIL' : `Page ${pageId}`);
+
+/**
+ * CHECK TABLE: checks every index on the pages as they are once the buffered changes are merged.
+ * - The records of a page ascend by the index comparator, and keep ascending across the next pointer.
+ * - Prev / next pointers are symmetric, stay on their level and form one list without cycles.
+ * - Node pointers point at pages one level down.
+ * - Every live secondary entry matches its live clustered row, and every live row has exactly one entry per secondary index.
+ * Each violation names the page it was found on. Nothing is repaired.
+ */
+export const checkTable = (state: EngineState): CheckTableReport => {
+  const { pages, schema } = withBufferedChanges(state);
+  const byId = new Map(pages.map(p => [p.id, p]));
+  const violations: CheckViolation[] = [];
+  const report = (indexName: string, pageId: number | null, message: string) => {
+    violations.push({ indexName, pageId, message });
+  };
+
+  getIndexNames(schema).forEach(indexName => {
+    const compareFn = getComparator(schema, indexName);
+    const indexPages = pages.filter(p => p.indexName === indexName);
+    const isOnLevel = (page: PageData | undefined, level: number) => page?.indexName === indexName && page.level === level;
+    // The first node pointer of a level is below every key whatever it says (REC_INFO_MIN_REC_FLAG): its key may be stale
+    const isMinRec = (page: PageData, i: number) => i === 0 && page.level > 0 && page.prevPageId === null;
+
+    indexPages.forEach(page => {
+      if (page.isCorrupted) report(indexName, page.id, 'checksum mismatch, the page is torn');
+      page.records.forEach((record, i) => {
+        if (i > 0 && !isMinRec(page, i - 1) && compareFn(page.records[i - 1], record) >= 0) {
+          report(indexName, page.id, `records out of order: ${formatKey(indexName, page.records[i - 1])} before ${formatKey(indexName, record)}`);
+        }
+        if (page.level > 0 && !isOnLevel(byId.get(record.childPageId!), page.level - 1)) {
+          report(indexName, page.id, `node pointer ${formatKey(indexName, record)} to ${formatPageRef(record.childPageId ?? null)}, which is not a page of level ${page.level - 1}`);
+        }
+      });
+
+      if (page.nextPageId !== null) {
+        const next = byId.get(page.nextPageId);
+        if (!isOnLevel(next, page.level)) report(indexName, page.id, `next pointer to ${formatPageRef(page.nextPageId)}, which is not a page of level ${page.level}`);
+        else if (next!.prevPageId !== page.id) report(indexName, page.id, `next pointer to Page ${next!.id}, whose prev pointer is ${formatPageRef(next!.prevPageId)}`);
       }
+      if (page.prevPageId !== null) {
+        const prev = byId.get(page.prevPageId);
+        if (!isOnLevel(prev, page.level)) report(indexName, page.id, `prev pointer to ${formatPageRef(page.prevPageId)}, which is not a page of level ${page.level}`);
+        else if (prev!.nextPageId !== page.id) report(indexName, page.id, `prev pointer to Page ${prev!.id}, whose next pointer is ${formatPageRef(prev!.nextPageId)}`);
+      }
+    });
 
-      // Check if we need to go to next page
-      if (current.nextPageId) {
-        const maxId = current.records[current.records.length - 1]?.id;
-        if (maxId < id) {
-          const next = pages.find(p => p.id === current!.nextPageId);
-          current = next;
-          continue;
+    // Each level is one list, from its only page without a prev pointer
+    for (let level = 0; level < getTreeHeight(pages, indexName); level++) {
+      const levelPages = indexPages.filter(p => p.level === level);
+      const [head, ...otherHeads] = levelPages.filter(p => p.prevPageId === null);
+      if (!head) {
+        report(indexName, null, `level ${level} has no first page: every page has a prev pointer`);
+        continue;
+      }
+      otherHeads.forEach(p => report(indexName, p.id, `no prev pointer, but Page ${head.id} is the first page of level ${level}`));
+
+      const walked = new Set<number>();
+      let page: PageData | undefined = head;
+      while (page) {
+        walked.add(page.id);
+        const next = page.nextPageId === null ? undefined : byId.get(page.nextPageId);
+        if (!next || !isOnLevel(next, level)) break;
+        if (walked.has(next.id)) {
+          report(indexName, page.id, `next pointer back to Page ${next.id}: the list of level ${level} has a cycle`);
+          break;
         }
+        // A first page left holding only its min-rec has nothing to compare: that key may be stale
+        const last = page.records[page.records.length - 1];
+        if (last && !isMinRec(page, page.records.length - 1) && next.records.length > 0 && compareFn(last, next.records[0]) >= 0) {
+          report(indexName, next.id, `first key ${formatKey(indexName, next.records[0])} is not above the last key ${formatKey(indexName, last)} of the previous Page ${page.id}`);
+        }
+        page = next;
       }
-      break; // Not found or passed range
+      levelPages.filter(p => !walked.has(p.id)).forEach(p => report(indexName, p.id, `not reachable from Page ${head.id}, the first page of level ${level}`));
     }
-    addStep(`Record ${id} not found in Primary Index.`, 0, 'FINISHED');
-  }
+  });
 
-  else if (type === 'BY_NAME' || type === 'BY_NAME_COVERING') {
-    const name = String(param);
-    const isCovering = type === 'BY_NAME_COVERING';
-    const queryStr = isCovering 
-      ? `SELECT id FROM table WHERE name = '${name}'`
-      : `SELECT * FROM table WHERE name = '${name}'`;
-    
-    addStep(`QUERY: ${queryStr}`, 0, 'FINISHED');
+  // Secondary entries against the clustered rows; delete-marked ones belong to old versions and are left out
+  const rows = new Map<number, { row: RecordData, pageId: number }>();
+  pages
+    .filter(p => p.indexName === PRIMARY_INDEX && p.level === 0)
+    .forEach(page => page.records.filter(r => !r.isDeleteMarked).forEach(row => rows.set(row.id, { row, pageId: page.id })));
+  schema.indexes.forEach(index => {
+    const compareFn = getComparator(schema, index.name);
+    const entryCounts = new Map<number, number>();
+    pages.filter(p => p.indexName === index.name && p.level === 0).forEach(page => {
+      page.records.filter(r => !r.isDeleteMarked).forEach(entry => {
+        entryCounts.set(entry.id, (entryCounts.get(entry.id) ?? 0) + 1);
+        const match = rows.get(entry.id);
+        if (!match) report(index.name, page.id, `entry ${formatKey(index.name, entry)} has no PRIMARY row ${entry.id}`);
+        else if (compareFn(toIndexEntry(index, match.row), entry) !== 0) {
+          report(index.name, page.id, `entry ${formatKey(index.name, entry)} does not match PRIMARY row ${formatRow(match.row)} on Page ${match.pageId}`);
+        }
+      });
+    });
+    rows.forEach(({ row, pageId }) => {
+      const count = entryCounts.get(row.id) ?? 0;
+      if (count !== 1) report(PRIMARY_INDEX, pageId, `row ${row.id} has ${count === 0 ? 'no entry' : `${count} entries`} in ${index.name}`);
+    });
+  });
 
-    // 1. Search Secondary Index
-    let current = pages.find(p => p.indexType === 'SECONDARY' && p.prevPageId === null);
-    let foundPk: number | null = null;
+  return {
+    pages: pages.length,
+    records: pages.filter(p => p.level === 0).reduce((sum, p) => sum + p.records.length, 0),
+    violations,
+  };
+};
 
-    while (current) {
-      addStep(`Scanning Secondary Index Page ${current.id}...`, current.id, 'SCAN_PAGE');
+export const formatViolation = (violation: CheckViolation): string =>
+  `[${violation.indexName}] ${violation.pageId === null ? '' : `Page ${violation.pageId}: `}${violation.message}`;
 
-      const found = current.records.find(r => r.value === name);
-      if (found) {
-        addStep(`Found Index Entry ('${name}', PK: ${found.id}) in Page ${current.id}.`, current.id, 'FOUND_INDEX_ENTRY', found.id);
-        foundPk = found.id;
-        break;
-      }
+/**
+ * Fault injection for CHECK TABLE: corrupts a page in memory, behind the engine's back. Nothing reaches the redo log,
+ * so a crash brings the page back as it was on disk; if the page is dirty, its next flush writes the damage to disk too.
+ */
+export const injectFault = (state: EngineState, fault: FaultKind): EngineState => {
+  const fail = (reason: string): EngineState => ({ ...state, logs: addLog(state.logs, `Fault injection failed: ${reason}`, 'error') });
+  const corrupt = (page: PageData, changes: Partial<PageData>, message: string): EngineState => ({
+    ...state,
+    pages: state.pages.map(p => (p.id === page.id ? { ...p, ...changes } : p)),
+    logs: addLog(state.logs, `Fault injected: ${message}. Run CHECK TABLE to find it.`, 'warning'),
+  });
 
-      // Check next
-      if (current.nextPageId) {
-        // Simplified string range check visual
-        current = pages.find(p => p.id === current!.nextPageId);
-      } else {
-        break;
-      }
-    }
+  const leaves = getLeafChain(state.pages, PRIMARY_INDEX);
+  const first = leaves[0];
+  const last = leaves[leaves.length - 1];
+  const index = state.schema.indexes[0];
+  const isPointerFault = fault === 'NEXT_POINTER' || fault === 'PREV_POINTER' || fault === 'LINK_CYCLE';
+  if (isPointerFault && leaves.length < 2) return fail('the PRIMARY index needs at least 2 leaf pages.');
+  if ((fault === 'RECORD_VALUE' || fault === 'MISSING_ENTRY') && !index) return fail('the table has no secondary index.');
 
-    if (foundPk === null) {
-      addStep(`Name '${name}' not found in Index.`, 0, 'FINISHED');
-      return steps;
+  switch (fault) {
+    case 'NEXT_POINTER': {
+      const target = leaves[2]?.id ?? null;
+      return corrupt(first, { nextPageId: target }, `[PRIMARY] next pointer of Page ${first.id} now points to ${formatPageRef(target)} instead of Page ${leaves[1].id}`);
+    }
+    case 'PREV_POINTER': {
+      const target = leaves.length > 2 ? first.id : null;
+      return corrupt(last, { prevPageId: target }, `[PRIMARY] prev pointer of Page ${last.id} now points to ${formatPageRef(target)} instead of Page ${leaves[leaves.length - 2].id}`);
+    }
+    case 'LINK_CYCLE':
+      return corrupt(last, { nextPageId: first.id }, `[PRIMARY] next pointer of the last leaf, Page ${last.id}, now points back to the first one, Page ${first.id}`);
+    case 'RECORD_ORDER': {
+      const page = leaves.find(p => p.records.length >= 2);
+      if (!page) return fail('no PRIMARY leaf page has 2 records to swap.');
+      const [a, b, ...rest] = page.records;
+      return corrupt(page, { records: [b, a, ...rest] }, `[PRIMARY] records ${a.id} and ${b.id} of Page ${page.id} swapped places`);
+    }
+    case 'RECORD_VALUE': {
+      const page = leaves.find(p => p.records.some(r => !r.isDeleteMarked));
+      if (!page) return fail('the table has no row.');
+      const row = page.records.find(r => !r.isDeleteMarked)!;
+      const column = index.columns[0];
+      const value = row.values[column];
+      const corrupted = typeof value === 'number' ? value + 1000 : `${value}#`;
+      const records = page.records.map(r => (r === row ? { ...r, values: { ...r.values, [column]: corrupted } } : r));
+      return corrupt(page, { records }, `[PRIMARY] ${column} of row ${row.id} on Page ${page.id} changed from ${formatValue(value)} to ${formatValue(corrupted)}, ${index.name} still has ${formatValue(value)}`);
     }
+    case 'MISSING_ENTRY': {
+      const page = getLeafChain(state.pages, index.name).find(p => p.records.some(r => !r.isDeleteMarked));
+      if (!page) return fail(`${index.name} has no entry to remove.`);
+      const entry = page.records.find(r => !r.isDeleteMarked)!;
+      return corrupt(page, { records: page.records.filter(r => r !== entry) }, `[${index.name}] entry ${formatKey(index.name, entry)} removed from Page ${page.id}`);
+    }
+  }
+};
 
-    // 2. Decision Point
-    if (isCovering) {
-      addStep(`Covering Index optimization! We only need ID. No table lookup required.`, current!.id, 'FINISHED', foundPk);
-    } else {
-      // 3. Table Lookup (回表)
-      // Note: We pass foundPk as targetRecordId so UI can draw line from it
-      addStep(`Need full row data. Performing Table Lookup (回表) for PK: ${foundPk}...`, current!.id, 'JUMP_TO_PK', foundPk);
-
-      // Search Primary
-      current = pages.find(p => p.indexType === 'PRIMARY' && p.prevPageId === null);
-      while (current) {
-        addStep(`Scanning Primary Page ${current.id} for PK ${foundPk}...`, current.id, 'SCAN_PAGE');
-        const record = current.records.find(r => r.id === foundPk);
-        if (record) {
-          addStep(`Lookup Successful: Retrieved full row for ${foundPk} from Clustered Index.`, current.id, 'FOUND_DATA', foundPk);
-          return steps;
-        }
-        if (current.nextPageId) {
-            // Optimization for sim: just jump to next
-            current = pages.find(p => p.id === current!.nextPageId);
-        } else {
-            break;
-        }
+// --- Schema (DDL) ---
+
+/**
+ * Checks a secondary index definition against the table. Returns an error message, or null if valid.
+ */
+export const validateIndexDef = (schema: TableSchema, index: IndexDef): string | null => {
+  if (index.name.toUpperCase() === PRIMARY_INDEX) return `Incorrect index name '${index.name}'.`;
+  if (schema.indexes.some(i => i.name.toLowerCase() === index.name.toLowerCase())) return `Duplicate key name '${index.name}'.`;
+  if (index.columns.length === 0) return `Index '${index.name}' needs at least one column.`;
+  for (const [i, column] of index.columns.entries()) {
+    if (column === 'id') return `Column 'id' is the primary key, every secondary index already stores it.`;
+    if (!schema.columns.some(c => c.name === column)) return `Key column '${column}' doesn't exist in table.`;
+    if (index.columns.indexOf(column) !== i) return `Duplicate column name '${column}'.`;
+  }
+  return null;
+};
+
+export const validateSchema = (schema: TableSchema): string | null => {
+  for (const [i, column] of schema.columns.entries()) {
+    if (column.name === 'id') return `Column 'id' is the INT primary key and cannot be redefined.`;
+    if (schema.columns.findIndex(c => c.name === column.name) !== i) return `Duplicate column name '${column.name}'.`;
+  }
+  let checked: TableSchema = { ...schema, indexes: [] };
+  for (const index of schema.indexes) {
+    const error = validateIndexDef(checked, index);
+    if (error) return error;
+    checked = { ...checked, indexes: [...checked.indexes, index] };
+  }
+  return null;
+};
+
+/**
+ * DDL needs an exclusive metadata lock, which every open transaction (or read view, or row lock) holds back.
+ * Returns an error message, or null if the table is free.
+ */
+export const validateMetadataLock = (state: EngineState): string | null => {
+  const holders = state.sessions
+    .filter(s => s.trxId !== null || s.readView !== null || state.locks.some(l => l.sessionId === s.id))
+    .map(s => s.id);
+  if (holders.length === 0) return null;
+  return `Lock wait timeout exceeded: Waiting for table metadata lock (open transaction in session ${holders.join(', ')}).`;
+};
+
+// CREATE TABLE: replaces the table (and all its data) with an empty one using the new schema
+export const createTable = (state: EngineState, schema: TableSchema): EngineState => {
+  const error = validateSchema(schema) ?? validateMetadataLock(state);
+  if (error) return { ...state, logs: addLog(state.logs, `Create Table Failed: ${error}`, 'error') };
+  return { ...initializeEngine(state.pageSize, state.splitStrategy, schema, state.bufferPool.capacity), adaptiveHash: createAdaptiveHash(state.adaptiveHash.enabled), doublewrite: createDoublewrite(state.doublewrite.enabled), optimizerSwitch: state.optimizerSwitch };
+};
+
+const formatIndexFill = (fill: IndexFill): string =>
+  `${fill.pages} page(s), ${fill.leafPages} leaf page(s) ${Math.round(fill.fillPct)}% full, height ${fill.height}`;
+
+// Record bytes a sorted build puts on a page: innodb_fill_factor of it, but at least 1/16 stays free (dict_index_get_space_reserve)
+const getBulkFillBytes = (pageSize: number): number =>
+  getUsableBytes(pageSize) - Math.max(Math.floor(pageSize / 16), Math.floor((pageSize * (100 - INDEX_FILL_FACTOR)) / 100));
+
+/**
+ * Sorted index build (BtrBulk): the sorted entries fill the leaf pages left to right, a page is closed when the next
+ * entry would pass the fill limit. The first key of every page becomes a node pointer on the level above, which is
+ * filled the same way, until a level fits on one page: the root, whose page number the index got first.
+ */
+const bulkLoadIndex = (
+  indexName: string,
+  entries: RecordData[],
+  rootId: number,
+  pageCounter: number,
+  pageSize: number,
+  lsn: number
+): { pages: PageData[], pageCounter: number } => {
+  const fillBytes = getBulkFillBytes(pageSize);
+  const built: PageData[] = [];
+  let records = entries;
+  for (let level = 0; ; level++) {
+    const chunks: RecordData[][] = [[]];
+    let bytes = 0;
+    records.forEach(record => {
+      const size = getRecordSize(indexName, record);
+      if (chunks[chunks.length - 1].length > 0 && bytes + size > fillBytes) {
+        chunks.push([]);
+        bytes = 0;
       }
-    }
+      chunks[chunks.length - 1].push(record);
+      bytes += size;
+    });
+
+    const ids = chunks.length === 1 ? [rootId] : chunks.map(() => ++pageCounter);
+    chunks.forEach((chunk, i) => {
+      const usedBytes = PAGE_OVERHEAD_BYTES + getRecordsBytes(indexName, chunk);
+      built.push({
+        ...createPage(ids[i], indexName, pageSize, level),
+        ...formatCopy(chunk),
+        usedBytes,
+        freeBytes: pageSize - usedBytes,
+        prevPageId: ids[i - 1] ?? null,
+        nextPageId: ids[i + 1] ?? null,
+        lsn,
+      });
+    });
+    if (chunks.length === 1) return { pages: built, pageCounter };
+    records = chunks.map((chunk, i) => toNodePointer(indexName, chunk[0], ids[i]));
+  }
+};
+
+// Row-by-row build: every entry goes through insertIntoIndex, splitting pages as they fill up
+const insertIndexEntries = (
+  pages: PageData[],
+  schema: TableSchema,
+  index: IndexDef,
+  entries: RecordData[],
+  pageCounter: number,
+  logs: LogEntry[],
+  pageSize: number,
+  splitStrategy: SplitStrategy,
+  redo: RedoWriter
+): { pages: PageData[], pageCounter: number, logs: LogEntry[] } => {
+  const compareFn = getComparator(schema, index.name);
+  return entries.reduce((acc, entry) => {
+    const result = insertIntoIndex(acc.pages, index.name, entry, compareFn, acc.pageCounter, acc.logs, pageSize, splitStrategy, redo, index.unique);
+    return { pages: result.pages, pageCounter: result.newPageCounter, logs: result.logs };
+  }, { pages, pageCounter, logs });
+};
+
+/**
+ * CREATE INDEX / ALTER TABLE ... ADD INDEX on a table that may already hold rows. The new index gets its root page
+ * first, then the build scans the clustered index:
+ * - INPLACE sorts the entries and loads them bottom-up (bulkLoadIndex). Like InnoDB's sorted index build, it writes
+ *   no redo for the new pages: they go straight to disk when the build ends.
+ * - COPY inserts the entries one by one, splitting pages on the way like any insert.
+ * The report compares the index with the one the other algorithm builds, on a scratch copy of the pages.
+ * No transaction may be open, so purge empties the history list first.
+ */
+export const createIndex = (
+  state: EngineState,
+  index: IndexDef,
+  algorithm: IndexBuildAlgorithm = 'INPLACE'
+): { state: EngineState, report: IndexBuildReport | null } => {
+  let { pages, pageCounter, logs } = state;
+  const { pageSize } = state;
+
+  const error = validateIndexDef(state.schema, index);
+  if (error) return { state: { ...state, logs: addLog(logs, `Create Index Failed: ${error}`, 'error') }, report: null };
+  const locked = validateMetadataLock(state);
+  if (locked) return { state: { ...state, logs: addLog(logs, `Create Index Failed: ${locked}`, 'error') }, report: null };
+
+  const redo = createRedoWriter(state);
+  const ibuf = createChangeBufferWriter(state, redo);
+  pages = clearFlags(pages);
+  ({ pages, logs } = purgeDeleteMarked(pages, logs, pageSize, state.schema, redo, ibuf));
+  const undoLog: UndoRecord[] = [];
+
+  const duplicate = validateUniqueIndexData(pages, index);
+  if (duplicate) {
+    return { state: trackPageAccesses(state, redo.commit(ibuf.commit({ ...state, pages, undoLog, logs: addLog(logs, `Create Index Failed: ${duplicate}`, 'error') })), []), report: null };
+  }
+
+  const schema: TableSchema = { ...state.schema, indexes: [...state.schema.indexes, index] };
+  const rootId = pageCounter + 1;
+  const root = { ...createPage(rootId, index.name, pageSize), isDirty: true };
+  logs = addLog(logs, `[${index.name}] Created ${index.unique ? 'UNIQUE ' : ''}Secondary Index on (${index.columns.join(', ')}) with root Page ${rootId}, ALGORITHM=${algorithm}.`, 'info');
+
+  // The build scans the whole clustered index
+  const entries = getLeafRecords(pages, PRIMARY_INDEX).map(row => toIndexEntry(index, row));
+  const { path: firstLeafPath } = findEdgeLeafPath(pages, PRIMARY_INDEX, 'first');
+  const reads = [...firstLeafPath.slice(0, -1), ...getLeafChain(pages, PRIMARY_INDEX).map(leaf => leaf.id)];
+  const sortedEntries = [...entries].sort(getComparator(schema, index.name));
+
+  let { diskPages, doublewrite } = state;
+  let alternative: IndexFill;
+  if (algorithm === 'INPLACE') {
+    const loaded = bulkLoadIndex(index.name, sortedEntries, rootId, rootId, pageSize, state.lsn);
+    pages = [...pages, ...loaded.pages];
+    pageCounter = loaded.pageCounter;
+    ({ diskPages, doublewrite } = writePages(state, loaded.pages, loaded.pages.map(p => p.id)));
+    // The scratch build's redo and log are thrown away
+    const scratch = insertIndexEntries([...pages.filter(p => p.indexName !== index.name), root], schema, index, entries, rootId, [], pageSize, state.splitStrategy, createRedoWriter(state));
+    alternative = getIndexFill(scratch.pages, index.name, pageSize);
+    const built = getIndexFill(pages, index.name, pageSize);
+    logs = addLog(logs, `[${index.name}] Sorted index build: ${entries.length} entries sorted and loaded bottom-up into ${formatIndexFill(built)} (innodb_fill_factor=${INDEX_FILL_FACTOR}); the pages went straight to disk, without redo. Inserting the entries one by one would take ${formatIndexFill(alternative)}.`, 'success');
+  } else {
+    pages = [...pages, redo.write('PAGE_CREATE', root, `[${index.name}] root page of the new index`)];
+    ({ pages, pageCounter, logs } = insertIndexEntries(pages, schema, index, entries, rootId, logs, pageSize, state.splitStrategy, redo));
+    alternative = getIndexFill(bulkLoadIndex(index.name, sortedEntries, rootId, rootId, pageSize, state.lsn).pages, index.name, pageSize);
+    logs = addLog(logs, `[${index.name}] Index built: ${entries.length} entries inserted one by one into ${formatIndexFill(getIndexFill(pages, index.name, pageSize))}. A sorted build would take ${formatIndexFill(alternative)}.`, 'success');
+  }
+
+  const next = trackPageAccesses(state, redo.commit(ibuf.commit({ ...state, pages, undoLog, logs, pageCounter, schema, diskPages, doublewrite })), reads);
+  return { state: next, report: { algorithm, entries: entries.length, built: getIndexFill(next.pages, index.name, pageSize), alternative } };
+};
+
+// DROP INDEX: frees every page of a secondary index, its buffered changes and hash entries are discarded
+export const dropIndex = (state: EngineState, indexName: string): EngineState => {
+  const index = state.schema.indexes.find(i => i.name.toLowerCase() === indexName.toLowerCase());
+  if (!index) {
+    return { ...state, logs: addLog(state.logs, `Drop Index Failed: Can't DROP '${indexName}'; check that it exists.`, 'error') };
   }
+  const locked = validateMetadataLock(state);
+  if (locked) return { ...state, logs: addLog(state.logs, `Drop Index Failed: ${locked}`, 'error') };
+
+  // The freed pages also leave the buffer pool: their frames are released without a write
+  const redo = createRedoWriter(state);
+  const freed = state.pages.filter(p => p.indexName === index.name);
+  freed.forEach(p => redo.free(p.id, `[${index.name}] DROP INDEX`));
+  const pages = state.pages.filter(p => p.indexName !== index.name);
+  const discarded = state.changeBuffer.entries.filter(c => c.indexName === index.name).length;
+  const discardInfo = discarded > 0 ? `, ${discarded} buffered change(s) discarded` : '';
+  return checkRedoSpace(redo.commit({
+    ...state,
+    pages,
+    schema: { ...state.schema, indexes: state.schema.indexes.filter(i => i !== index) },
+    changeBuffer: discardIndexChanges(state.changeBuffer, index.name),
+    adaptiveHash: dropIndexHash(state.adaptiveHash, index.name),
+    indexCounters: Object.fromEntries(Object.entries(state.indexCounters).filter(([name]) => name !== index.name)),
+    logs: addLog(state.logs, `[${index.name}] Index dropped, ${freed.length} page(s) freed${discardInfo}.`, 'warning'),
+    bufferPool: syncBufferPool(state.bufferPool, pages),
+  }));
+};
+
+export const resetEngine = (
+  pageSize?: number,
+  splitStrategy?: SplitStrategy,
+  schema?: TableSchema,
+  bufferPoolFrames?: number
+): EngineState =>
+  initializeEngine(pageSize, splitStrategy, schema, bufferPoolFrames);
+
+// A snapshot replaces the whole engine (see services/snapshot.ts); its log says where it came from
+export const loadSnapshot = (state: EngineState, source: string, savedAt: string = ''): EngineState => ({
+  ...state,
+  pages: clearFlags(state.pages),
+  logs: addLog(state.logs, `Snapshot loaded from ${source}${savedAt ? ` (saved ${new Date(savedAt).toLocaleString()})` : ''}: ${state.pages.length} pages, LSN ${state.lsn}.`, 'success'),
+});
 
-  return steps;
+// Sample values per column name, anything else gets a generic value of the column's type
+const SAMPLE_VALUES: Record<string, ColumnValue[]> = {
+  name: ['Alice', 'Bob', 'Charlie', 'Dave', 'Eve', 'Frank', 'Grace', 'Heidi', 'Ivan'],
+  city: ['Berlin', 'Lima', 'Oslo', 'Paris', 'Rome', 'Tokyo'],
+  age: [19, 23, 27, 31, 35, 42, 48, 56, 64],
 };
 
-export const resetEngine = (): EngineState => initializeEngine();
+const pick = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
 
-export const generateRandomData = () => {
+export const generateRandomData = (schema: TableSchema): { id: number, values: RowValues } => {
   const id = Math.floor(Math.random() * 50) + 1;
-  const values = ['Alice', 'Bob', 'Charlie', 'Dave', 'Eve', 'Frank', 'Grace', 'Heidi', 'Ivan'];
-  const val = values[Math.floor(Math.random() * values.length)];
-  return { id, val };
-};
\ No newline at end of file
+  const values = Object.fromEntries(schema.columns.map(column => [
+    column.name,
+    SAMPLE_VALUES[column.name] ? pick(SAMPLE_VALUES[column.name]) : column.type === 'INT' ? Math.floor(Math.random() * 100) : pick(SAMPLE_VALUES.name),
+  ]));
+  return { id, values };
+};
+
+// Auto-increment style row: the next id after the current maximum, so every insert lands at the right edge
+export const generateSequentialData = (state: EngineState): { id: number, values: RowValues } => {
+  const ids = getLeafRecords(state.pages, PRIMARY_INDEX).map(r => r.id);
+  const { values } = generateRandomData(state.schema);
+  return { id: ids.length > 0 ? Math.max(...ids) + 1 : 1, values };
+};
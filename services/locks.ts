@@ -0,0 +1,79 @@
+import { LockRequest, RecordLock, RecordData, PRIMARY_INDEX } from '../types';
+
+type LockTarget = Pick<LockRequest, 'indexName' | 'record'>;
+
+// The key a lock names: the PK of a clustered record, the key columns and the PK of a secondary entry
+export const toLockRecord = (indexName: string, record: RecordData): RecordData =>
+  ({ id: record.id, values: indexName === PRIMARY_INDEX ? {} : record.values });
+
+// The same index record, or both the supremum
+export const isSameLockTarget = (a: LockTarget, b: LockTarget): boolean =>
+  a.indexName === b.indexName && (a.record === null || b.record === null
+    ? a.record === b.record
+    : a.record.id === b.record.id && JSON.stringify(a.record.values) === JSON.stringify(b.record.values));
+
+/**
+ * lock_rec_has_to_wait: whether `request` waits for another transaction's lock `held` on the same record.
+ * S is only compatible with S. Beyond that, gaps are locked only to keep inserts out:
+ * - a gap lock (and any lock on the supremum) never waits, so two transactions can lock the same gap
+ * - a record lock does not wait for a gap lock, an insert intention does not wait for a record-only lock
+ * - nothing waits for an insert intention
+ */
+export const hasToWait = (request: LockRequest, held: LockRequest): boolean => {
+  if (request.mode === 'S' && held.mode === 'S') return false;
+  const insertIntention = request.type === 'INSERT_INTENTION';
+  if (!insertIntention && (request.type === 'GAP' || request.record === null)) return false;
+  if (!insertIntention && held.type === 'GAP') return false;
+  if ((insertIntention || request.type === 'GAP') && held.type === 'REC_NOT_GAP') return false;
+  return held.type !== 'INSERT_INTENTION';
+};
+
+// Granted locks of other sessions that `request` of session `sessionId` has to wait for
+export const findBlockingLocks = (locks: RecordLock[], request: LockRequest, sessionId: number): RecordLock[] =>
+  locks.filter(l => l.granted && l.sessionId !== sessionId && isSameLockTarget(l, request) && hasToWait(request, l));
+
+// lock_rec_has_expl: a lock the session holds is at least as strong as `request`
+const covers = (held: LockRequest, request: LockRequest): boolean =>
+  (held.mode === 'X' || request.mode === 'S') &&
+  (held.type === request.type || (held.type === 'NEXT_KEY' && request.type !== 'INSERT_INTENTION'));
+
+// Grants locks to a session, skipping the ones it already holds
+export const grantLocks = (locks: RecordLock[], requests: LockRequest[], sessionId: number): RecordLock[] =>
+  requests.reduce((all, request) => (
+    all.some(l => l.granted && l.sessionId === sessionId && isSameLockTarget(l, request) && covers(l, request))
+      ? all
+      : [...all, { ...request, sessionId, granted: true }]
+  ), locks);
+
+/**
+ * Deadlock detection (lock_deadlock_check): follows the wait-for graph from a session that just started waiting.
+ * A waiting session waits for every session holding a lock its request has to wait for.
+ * Returns the sessions on the cycle, starting with `sessionId`, or null if the wait is not part of one.
+ */
+export const findDeadlockCycle = (locks: RecordLock[], sessionId: number): number[] | null => {
+  const waitsFor = (id: number): number[] => {
+    const request = locks.find(l => !l.granted && l.sessionId === id);
+    return request ? [...new Set(findBlockingLocks(locks, request, id).map(l => l.sessionId))] : [];
+  };
+
+  const visited = new Set<number>([sessionId]);
+  const search = (path: number[]): number[] | null => {
+    for (const next of waitsFor(path[path.length - 1])) {
+      if (next === sessionId) return path;
+      if (visited.has(next)) continue;
+      visited.add(next);
+      const cycle = search([...path, next]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+  return search([sessionId]);
+};
+
+// LOCK_MODE as performance_schema.data_locks shows it: a plain X or S is a next-key lock
+export const formatLockMode = ({ mode, type }: LockRequest): string =>
+  type === 'NEXT_KEY' ? mode : type === 'INSERT_INTENTION' ? `${mode},GAP,INSERT_INTENTION` : `${mode},${type}`;
+
+// Whether a lock covers the record itself, and whether it covers the gap before it
+export const locksRecord = (lock: LockRequest): boolean => lock.type === 'NEXT_KEY' || lock.type === 'REC_NOT_GAP';
+export const locksGap = (lock: LockRequest): boolean => lock.type !== 'REC_NOT_GAP';
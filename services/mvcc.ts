@@ -0,0 +1,65 @@
+import { IsolationLevel, ReadView, RecordData, Session, UndoRecord } from '../types';
+
+export const createSession = (id: number, isolationLevel: IsolationLevel = 'REPEATABLE_READ'): Session => ({
+  id,
+  isolationLevel,
+  inTransaction: false,
+  trxId: null,
+  readView: null,
+  pending: null,
+});
+
+// Read-write transactions that have not committed yet (trx_sys->rw_trx_ids)
+export const getActiveTrxIds = (sessions: Session[]): number[] =>
+  sessions.flatMap(s => (s.trxId !== null ? [s.trxId] : []));
+
+// ReadView::prepare: a snapshot of which transactions have committed right now
+export const createReadView = (sessions: Session[], nextTrxId: number, creatorTrxId: number | null = null): ReadView => {
+  const activeIds = getActiveTrxIds(sessions).filter(id => id !== creatorTrxId).sort((a, b) => a - b);
+  return { creatorTrxId, upLimitId: activeIds[0] ?? nextTrxId, lowLimitId: nextTrxId, activeIds };
+};
+
+// ReadView::changes_visible
+export const isVisible = (view: ReadView, trxId: number): boolean =>
+  trxId === view.creatorTrxId || trxId < view.upLimitId || (trxId < view.lowLimitId && !view.activeIds.includes(trxId));
+
+// The rule that decides isVisible, for step messages
+export const describeVisibility = (view: ReadView, trxId: number): string => {
+  if (trxId === view.creatorTrxId) return 'its own change';
+  if (trxId < view.upLimitId) return `committed, below the up limit ${view.upLimitId}`;
+  if (trxId >= view.lowLimitId) return `started after the read view, at or above the low limit ${view.lowLimitId}`;
+  if (view.activeIds.includes(trxId)) return 'still active when the read view was created';
+  return 'committed before the read view was created';
+};
+
+export const describeReadView = (view: ReadView): string =>
+  `low limit ${view.lowLimitId}, up limit ${view.upLimitId}, active [${view.activeIds.join(', ')}]`;
+
+// Nothing was active when the view was created and nothing has started since: the latest version of every record is visible
+export const seesLatestVersions = (view: ReadView, nextTrxId: number): boolean =>
+  view.activeIds.length === 0 && view.lowLimitId === nextTrxId;
+
+/**
+ * The versions of a row, newest first: the clustered record, then every older version reached through DB_ROLL_PTR.
+ * The chain ends at an insert, or at an undo record that was discarded at commit or purged.
+ */
+export const getVersionChain = (undoLog: UndoRecord[], record: RecordData): { version: RecordData, undoNo?: number }[] => {
+  const chain: { version: RecordData, undoNo?: number }[] = [{ version: record }];
+  let current = record;
+  while (current.rollPtr !== undefined) {
+    const undo = undoLog.find(u => u.undoNo === current.rollPtr);
+    if (!undo?.previous) break;
+    chain.push({ version: undo.previous, undoNo: undo.undoNo });
+    current = undo.previous;
+  }
+  return chain;
+};
+
+/**
+ * Consistent read of one clustered record (row_vers_build_for_consistent_read): the newest version the read view sees.
+ * Null if it sees none (the row was inserted later) or the one it sees is delete-marked (the row was deleted before).
+ */
+export const findVisibleVersion = (undoLog: UndoRecord[], record: RecordData, view: ReadView): RecordData | null => {
+  const visible = getVersionChain(undoLog, record).find(({ version }) => isVisible(view, version.trxId ?? 0));
+  return visible && !visible.version.isDeleteMarked ? visible.version : null;
+};
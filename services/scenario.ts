@@ -0,0 +1,327 @@
+import {
+  EngineState, Scenario, ScenarioAssertion, ScenarioParseResult, ScenarioRun, ScenarioStep, ScenarioStepResult, SplitStrategy,
+  DEFAULT_PAGE_SIZE, DEFAULT_BUFFER_POOL_FRAMES, PAGE_SIZE_OPTIONS, BUFFER_POOL_SIZE_OPTIONS, DEFAULT_SCHEMA,
+} from '../types';
+import { initializeEngine, getIndexNames, getIndexStats, checkTable, formatViolation } from './innodb';
+import { executeSql } from './sql';
+
+/*
+ * A scenario is a lesson as a script: SQL statements, each on its own line, with EXPECT lines after them
+ * checking what the engine did. The same script runs headless (npm run scenarios) and in the Scenario panel.
+ *
+ *   # Sequential inserts fill a page, then split it at the insert point
+ *   RESET PAGE_SIZE 256 SPLIT INNODB
+ *   INSERT INTO t VALUES (1, 'Alice', 30, 'Paris')
+ *   EXPECT NO SPLIT
+ *   @2 SELECT * FROM t WHERE id = 1
+ *   EXPECT PAGES_READ 1
+ *
+ * Lines starting with # or -- are comments; the first one is the title. @n runs the statement in session n.
+ */
+
+// --- Parsing ---
+
+const SPLIT_STRATEGIES: SplitStrategy[] = ['INNODB', 'MIDPOINT'];
+
+const parseCount = (token: string | undefined): number | null =>
+  token !== undefined && /^\d+$/.test(token) ? Number(token) : null;
+
+// 5..8 | 3 | 1, 3, 7..9
+const parseIdList = (text: string): number[] | null => {
+  const ids: number[] = [];
+  for (const item of text.split(/[\s,]+/).filter(Boolean)) {
+    const range = item.match(/^(-?\d+)\.\.(-?\d+)$/);
+    if (range) {
+      const [from, to] = [Number(range[1]), Number(range[2])];
+      if (from > to) return null;
+      for (let id = from; id <= to; id++) ids.push(id);
+    } else if (/^-?\d+$/.test(item)) {
+      ids.push(Number(item));
+    } else {
+      return null;
+    }
+  }
+  return ids;
+};
+
+// "quoted text" as the rest of the line
+const parseQuoted = (text: string): string | null => {
+  const match = text.trim().match(/^"(.*)"$/) ?? text.trim().match(/^'(.*)'$/);
+  return match ? match[1] : null;
+};
+
+const parseAssertion = (text: string): ScenarioAssertion | string => {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  const keyword = tokens[0]?.toUpperCase();
+  const rest = text.trim().slice(tokens[0]?.length ?? 0).trim();
+
+  switch (keyword) {
+    case 'PAGE': {
+      const pageId = parseCount(tokens[1]);
+      if (pageId === null || tokens[2]?.toUpperCase() !== 'IDS') return 'expected EXPECT PAGE <page> IDS <ids>, e.g. EXPECT PAGE 3 IDS 5..8';
+      const ids = parseIdList(tokens.slice(3).join(' '));
+      if (ids === null || ids.length === 0) return 'expected ids like 5..8 or 1, 3, 7..9';
+      return { kind: 'PAGE_IDS', pageId, ids };
+    }
+    case 'NO':
+    case 'SPLIT':
+    case 'MERGE': {
+      const negated = keyword === 'NO';
+      const what = (negated ? tokens[1] : tokens[0])?.toUpperCase();
+      const indexName = (negated ? tokens[2] : tokens[1]) ?? null;
+      if (what !== 'SPLIT' && what !== 'MERGE') return 'expected EXPECT [NO] SPLIT [index] or EXPECT [NO] MERGE [index]';
+      return { kind: what, indexName, expected: !negated };
+    }
+    case 'PAGES_READ': {
+      const count = parseCount(tokens[1]);
+      return count === null ? 'expected EXPECT PAGES_READ <count>' : { kind: 'PAGES_READ', count };
+    }
+    case 'PAGES':
+    case 'HEIGHT': {
+      const count = parseCount(tokens[2]);
+      if (!tokens[1] || count === null) return `expected EXPECT ${keyword} <index> <count>`;
+      return keyword === 'PAGES' ? { kind: 'PAGES', indexName: tokens[1], count } : { kind: 'HEIGHT', indexName: tokens[1], height: count };
+    }
+    case 'ROWS': {
+      const count = parseCount(tokens[1]);
+      return count === null ? 'expected EXPECT ROWS <count>' : { kind: 'ROWS', count };
+    }
+    case 'ERROR': {
+      if (!rest) return { kind: 'ERROR', text: null };
+      const quoted = parseQuoted(rest);
+      return quoted === null ? 'expected EXPECT ERROR ["part of the message"]' : { kind: 'ERROR', text: quoted };
+    }
+    case 'LOG':
+    case 'OUTPUT': {
+      const quoted = parseQuoted(rest);
+      return quoted ? { kind: keyword, text: quoted } : `expected EXPECT ${keyword} "part of the text"`;
+    }
+    case 'CHECK':
+      return tokens[1]?.toUpperCase() === 'OK' && tokens.length === 2 ? { kind: 'CHECK_OK' } : 'expected EXPECT CHECK OK';
+    default:
+      return `unknown assertion "${tokens[0] ?? ''}" (PAGE, SPLIT, MERGE, PAGES_READ, PAGES, HEIGHT, ROWS, ERROR, LOG, OUTPUT, CHECK)`;
+  }
+};
+
+// RESET [PAGE_SIZE n] [SPLIT INNODB|MIDPOINT] [BUFFER_POOL n]: a fresh engine with the default schema
+const parseReset = (line: number, text: string, tokens: string[]): ScenarioStep | string => {
+  let pageSize = DEFAULT_PAGE_SIZE;
+  let splitStrategy: SplitStrategy = 'INNODB';
+  let bufferPoolFrames = DEFAULT_BUFFER_POOL_FRAMES;
+  for (let i = 1; i < tokens.length; i += 2) {
+    const option = tokens[i].toUpperCase();
+    const value = tokens[i + 1]?.toUpperCase();
+    if (option === 'PAGE_SIZE' && PAGE_SIZE_OPTIONS.includes(Number(value))) pageSize = Number(value);
+    else if (option === 'SPLIT' && SPLIT_STRATEGIES.includes(value as SplitStrategy)) splitStrategy = value as SplitStrategy;
+    else if (option === 'BUFFER_POOL' && BUFFER_POOL_SIZE_OPTIONS.includes(Number(value))) bufferPoolFrames = Number(value);
+    else return `expected RESET [PAGE_SIZE ${PAGE_SIZE_OPTIONS.join('|')}] [SPLIT ${SPLIT_STRATEGIES.join('|')}] [BUFFER_POOL ${BUFFER_POOL_SIZE_OPTIONS.join('|')}]`;
+  }
+  return { kind: 'RESET', line, text, pageSize, splitStrategy, bufferPoolFrames };
+};
+
+/**
+ * Parses a whole script up front, so a typo in the last assertion is reported before anything runs.
+ * SQL lines are only checked when they run: whether they parse can depend on an earlier CREATE INDEX.
+ */
+export const parseScenario = (script: string): ScenarioParseResult => {
+  const steps: ScenarioStep[] = [];
+  let title: string | null = null;
+
+  const lines = script.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = i + 1;
+    const text = lines[i].trim();
+    if (!text) continue;
+
+    const comment = text.match(/^(#|--)\s*(.*)$/);
+    if (comment) {
+      if (title === null && steps.length === 0) title = comment[2];
+      continue;
+    }
+
+    const tokens = text.split(/\s+/);
+    const keyword = tokens[0].toUpperCase();
+    if (keyword === 'EXPECT') {
+      const assertion = parseAssertion(text.slice(tokens[0].length));
+      if (typeof assertion === 'string') return { ok: false, error: `Line ${line}: ${assertion}.` };
+      steps.push({ kind: 'EXPECT', line, text, assertion });
+    } else if (keyword === 'RESET') {
+      const step = parseReset(line, text, tokens);
+      if (typeof step === 'string') return { ok: false, error: `Line ${line}: ${step}.` };
+      steps.push(step);
+    } else {
+      const session = text.match(/^@(\d+)\s+(.+)$/);
+      if (text.startsWith('@') && !session) return { ok: false, error: `Line ${line}: expected @<session> <statement>.` };
+      steps.push(session
+        ? { kind: 'SQL', line, text: session[2], sessionId: Number(session[1]) }
+        : { kind: 'SQL', line, text, sessionId: 1 });
+    }
+  }
+
+  if (steps.length === 0) return { ok: false, error: 'The scenario has no statements.' };
+  return { ok: true, scenario: { title: title || 'Untitled scenario', steps } };
+};
+
+// --- Assertions ---
+
+// 5, 6, 7, 8, 10 -> 5..8, 10
+export const formatIds = (ids: number[]): string => {
+  const parts: string[] = [];
+  for (let i = 0; i < ids.length; i++) {
+    let j = i;
+    while (j + 1 < ids.length && ids[j + 1] === ids[j] + 1) j++;
+    parts.push(j - i >= 2 ? `${ids[i]}..${ids[j]}` : ids.slice(i, j + 1).join(', '));
+    i = j;
+  }
+  return parts.length > 0 ? parts.join(', ') : 'nothing';
+};
+
+const findIndexName = (state: EngineState, name: string): string | null =>
+  getIndexNames(state.schema).find(indexName => indexName.toLowerCase() === name.toLowerCase()) ?? null;
+
+// Splits or merges the last statement did, per index
+const countDelta = (run: ScenarioRun, counter: 'splits' | 'merges', indexNames: string[]): number =>
+  indexNames.reduce((sum, indexName) =>
+    sum + (run.state.indexCounters[indexName]?.[counter] ?? 0) - (run.last!.before.indexCounters[indexName]?.[counter] ?? 0), 0);
+
+// Null when the assertion holds, otherwise what was found instead
+const checkAssertion = (run: ScenarioRun, assertion: ScenarioAssertion): string | null => {
+  const { state, last } = run;
+  const noStatement = 'no SQL statement ran before this assertion';
+
+  switch (assertion.kind) {
+    case 'PAGE_IDS': {
+      const page = state.pages.find(p => p.id === assertion.pageId);
+      if (!page) return `Page ${assertion.pageId} does not exist`;
+      const ids = page.records.map(r => r.id);
+      return ids.length === assertion.ids.length && ids.every((id, i) => id === assertion.ids[i])
+        ? null
+        : `Page ${page.id} (${page.indexName}, level ${page.level}) holds ${formatIds(ids)}`;
+    }
+    case 'SPLIT':
+    case 'MERGE': {
+      if (!last) return noStatement;
+      const counter = assertion.kind === 'SPLIT' ? 'splits' : 'merges';
+      const noun = assertion.kind === 'SPLIT' ? 'split' : 'merge';
+      let indexNames = getIndexNames(state.schema);
+      if (assertion.indexName !== null) {
+        const indexName = findIndexName(state, assertion.indexName);
+        if (!indexName) return `there is no index ${assertion.indexName}`;
+        indexNames = [indexName];
+      }
+      const count = countDelta(run, counter, indexNames);
+      const where = assertion.indexName === null ? 'any index' : indexNames[0];
+      if (assertion.expected && count === 0) return `the statement did not ${noun} a page of ${where}`;
+      if (!assertion.expected && count > 0) return `the statement did ${count} ${noun}(s) in ${where}`;
+      return null;
+    }
+    case 'PAGES_READ': {
+      if (!last) return noStatement;
+      // Page requests to the buffer pool, hits and misses alike (Innodb_buffer_pool_read_requests)
+      const reads = (state.bufferPool.hits + state.bufferPool.misses) - (last.before.bufferPool.hits + last.before.bufferPool.misses);
+      return reads === assertion.count ? null : `the statement read ${reads} page(s)`;
+    }
+    case 'PAGES':
+    case 'HEIGHT': {
+      const indexName = findIndexName(state, assertion.indexName);
+      if (!indexName) return `there is no index ${assertion.indexName}`;
+      const stats = getIndexStats(state).find(s => s.indexName === indexName)!;
+      if (assertion.kind === 'PAGES') return stats.pages === assertion.count ? null : `${indexName} has ${stats.pages} page(s)`;
+      return stats.height === assertion.height ? null : `${indexName} has height ${stats.height}`;
+    }
+    case 'ROWS': {
+      if (!last) return noStatement;
+      if (last.result.error) return `the statement failed: ${last.result.error}`;
+      const summary = last.result.output.map(line => line.match(/^(\d+) row\(s\) in set$/)).find(Boolean);
+      if (!summary) return 'the statement returned no result set';
+      return Number(summary[1]) === assertion.count ? null : `the statement returned ${summary[1]} row(s)`;
+    }
+    case 'ERROR': {
+      if (!last) return noStatement;
+      if (!last.result.error) return 'the statement succeeded';
+      return assertion.text === null || last.result.error.toLowerCase().includes(assertion.text.toLowerCase())
+        ? null
+        : `the error was "${last.result.error}"`;
+    }
+    case 'LOG': {
+      if (!last) return noStatement;
+      const earlier = new Set(last.before.logs.map(log => log.id));
+      const added = state.logs.filter(log => !earlier.has(log.id));
+      return added.some(log => log.message.toLowerCase().includes(assertion.text.toLowerCase()))
+        ? null
+        : `no log entry of the statement contains "${assertion.text}" (${added.length} new entries)`;
+    }
+    case 'OUTPUT': {
+      if (!last) return noStatement;
+      const text = assertion.text.toLowerCase();
+      return last.result.output.some(line => line.toLowerCase().includes(text))
+        ? null
+        : `no output line of the statement contains "${assertion.text}"`;
+    }
+    case 'CHECK_OK': {
+      const { violations } = checkTable(state);
+      if (violations.length === 0) return null;
+      const shown = violations.slice(0, 3).map(formatViolation).join('; ');
+      return `CHECK TABLE found ${violations.length} problem(s): ${shown}${violations.length > 3 ? '; ...' : ''}`;
+    }
+  }
+};
+
+// --- Running ---
+
+// A run starts on a fresh engine with the defaults, so a script plays the same everywhere
+export const startScenario = (scenario: Scenario): ScenarioRun => ({
+  scenario,
+  state: initializeEngine(DEFAULT_PAGE_SIZE, 'INNODB', DEFAULT_SCHEMA, DEFAULT_BUFFER_POOL_FRAMES),
+  last: null,
+  results: [],
+});
+
+export const isScenarioDone = (run: ScenarioRun): boolean => run.results.length >= run.scenario.steps.length;
+
+export const countFailures = (run: ScenarioRun): number => run.results.filter(r => !r.passed).length;
+
+/**
+ * Runs the next step of the scenario. A failed statement fails its step, unless the next line is EXPECT ERROR;
+ * either way the scenario goes on, so one run reports every failing line.
+ */
+export const runScenarioStep = (run: ScenarioRun): ScenarioRun => {
+  if (isScenarioDone(run)) return run;
+  const { steps } = run.scenario;
+  const step = steps[run.results.length];
+  const record = (next: Partial<ScenarioRun>, result: Omit<ScenarioStepResult, 'step'>): ScenarioRun =>
+    ({ ...run, ...next, results: [...run.results, { step, ...result }] });
+
+  switch (step.kind) {
+    case 'RESET': {
+      const state = initializeEngine(step.pageSize, step.splitStrategy, DEFAULT_SCHEMA, step.bufferPoolFrames);
+      return record({ state, last: null }, { passed: true, message: `${step.pageSize}B pages, ${step.splitStrategy} splits, ${step.bufferPoolFrames} frames` });
+    }
+    case 'SQL': {
+      const result = executeSql(run.state, step.text, step.sessionId);
+      const next = steps[run.results.length + 1];
+      const errorExpected = next?.kind === 'EXPECT' && next.assertion.kind === 'ERROR';
+      return record(
+        { state: result.state, last: { before: run.state, result } },
+        { passed: !result.error || errorExpected, message: result.error ?? result.output[result.output.length - 1] ?? '' }
+      );
+    }
+    case 'EXPECT': {
+      const failure = checkAssertion(run, step.assertion);
+      return record({}, { passed: failure === null, message: failure ?? '' });
+    }
+  }
+};
+
+export const runScenario = (scenario: Scenario): ScenarioRun => {
+  let run = startScenario(scenario);
+  while (!isScenarioDone(run)) run = runScenarioStep(run);
+  return run;
+};
+
+// line 12: EXPECT PAGE 3 IDS 5..8 -- Page 3 (PRIMARY, level 0) holds 5..7
+export const formatStepResult = ({ step, passed, message }: ScenarioStepResult): string => {
+  const line = `line ${step.line}: ${step.kind === 'SQL' && step.sessionId !== 1 ? `@${step.sessionId} ` : ''}${step.text}`;
+  if (passed) return line;
+  return step.kind === 'EXPECT' ? `${line} -- ${message}` : `${line} -- failed: ${message}`;
+};
@@ -0,0 +1,278 @@
+import {
+  EngineState, PageData, SnapshotFile, SnapshotParseResult,
+  PAGE_SIZE_OPTIONS, PRIMARY_INDEX, DEFAULT_OPTIMIZER_SWITCH, SNAPSHOT_FORMAT, SNAPSHOT_VERSION, SNAPSHOT_HASH_PREFIX, AUTOSAVE_KEY, AUTOSAVE_ENABLED_KEY,
+} from '../types';
+
+// --- Serialization ---
+
+// Animation and query highlight flags belong to the screen, not to the engine
+const toSnapshotPage = (page: PageData): PageData => {
+  const { isSplitting, isMerging, isIbufMerged, isHighlighted, highlightedSlot, ...rest } = page;
+  return { ...rest, records: page.records.map(({ isNew, isHighlighted, ...record }) => record) };
+};
+
+const toSnapshotFile = (state: EngineState): SnapshotFile => ({
+  format: SNAPSHOT_FORMAT,
+  version: SNAPSHOT_VERSION,
+  savedAt: new Date().toISOString(),
+  state: { ...state, pages: state.pages.map(toSnapshotPage) },
+});
+
+export const serializeSnapshot = (state: EngineState): string => JSON.stringify(toSnapshotFile(state), null, 2);
+
+// --- Validation ---
+
+// Each check returns an error naming the offending path, or null if the value fits
+type Check = (value: unknown, path: string) => string | null;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'an array' : value === undefined ? 'nothing' : `a ${typeof value}`;
+
+const expected = (path: string, what: string, value: unknown) => `${path}: expected ${what}, found ${describe(value)}.`;
+
+const num: Check = (value, path) => (typeof value === 'number' && Number.isFinite(value) ? null : expected(path, 'a number', value));
+const str: Check = (value, path) => (typeof value === 'string' ? null : expected(path, 'a string', value));
+const bool: Check = (value, path) => (typeof value === 'boolean' ? null : expected(path, 'true or false', value));
+const columnValue: Check = (value, path) => (typeof value === 'string' ? null : num(value, path));
+
+const nullable = (check: Check): Check => (value, path) => (value === null ? null : check(value, path));
+const optional = (check: Check): Check => (value, path) => (value === undefined ? null : check(value, path));
+
+const oneOf = (...allowed: string[]): Check => (value, path) =>
+  allowed.includes(value as string) ? null : `${path}: expected one of ${allowed.join(', ')}, found ${JSON.stringify(value)}.`;
+
+const arrayOf = (check: Check): Check => (value, path) => {
+  if (!Array.isArray(value)) return expected(path, 'an array', value);
+  for (const [i, item] of value.entries()) {
+    const error = check(item, `${path}[${i}]`);
+    if (error) return error;
+  }
+  return null;
+};
+
+const recordOf = (check: Check): Check => (value, path) => {
+  if (!isObject(value)) return expected(path, 'an object', value);
+  for (const [key, item] of Object.entries(value)) {
+    const error = check(item, `${path}.${key}`);
+    if (error) return error;
+  }
+  return null;
+};
+
+const shape = (fields: Record<string, Check>): Check => (value, path) => {
+  if (!isObject(value)) return expected(path, 'an object', value);
+  for (const [key, check] of Object.entries(fields)) {
+    const error = check(value[key], `${path}.${key}`);
+    if (error) return error;
+  }
+  return null;
+};
+
+const recordData = shape({
+  id: num,
+  values: recordOf(columnValue),
+  isDeleteMarked: optional(bool),
+  childPageId: optional(num),
+  heapNo: optional(num),
+  trxId: optional(num),
+  rollPtr: optional(num),
+});
+
+const pageData = shape({
+  id: num,
+  indexName: str,
+  level: num,
+  records: arrayOf(recordData),
+  usedBytes: num,
+  freeBytes: num,
+  nextPageId: nullable(num),
+  prevPageId: nullable(num),
+  lastInsert: nullable(recordData),
+  direction: oneOf('LEFT', 'RIGHT', 'NO_DIRECTION'),
+  nDirection: num,
+  heapTop: num,
+  freeList: arrayOf(shape({ heapNo: num, bytes: num })),
+  directory: arrayOf(num),
+  lsn: num,
+  checksum: optional(num),
+  isCorrupted: optional(bool),
+  isDirty: optional(bool),
+});
+
+const lockRequest = shape({ indexName: str, record: nullable(recordData), mode: oneOf('S', 'X'), type: oneOf('NEXT_KEY', 'REC_NOT_GAP', 'GAP', 'INSERT_INTENTION') });
+
+const engineState = shape({
+  pages: arrayOf(pageData),
+  logs: arrayOf(shape({ id: str, timestamp: num, message: str, type: oneOf('info', 'success', 'warning', 'error') })),
+  pageCounter: num,
+  pageSize: num,
+  splitStrategy: oneOf('INNODB', 'MIDPOINT'),
+  schema: shape({
+    name: str,
+    columns: arrayOf(shape({ name: str, type: oneOf('INT', 'VARCHAR') })),
+    indexes: arrayOf(shape({ name: str, columns: arrayOf(str), unique: optional(bool) })),
+  }),
+  bufferPool: shape({
+    capacity: num,
+    lru: arrayOf(shape({ pageId: num, loadedAt: num })),
+    flushList: arrayOf(num),
+    clock: num, hits: num, misses: num, evictions: num, flushes: num,
+  }),
+  changeBuffer: shape({
+    entries: arrayOf(shape({ seq: num, op: oneOf('INSERT', 'DELETE_MARK', 'DELETE'), pageId: num, indexName: str, entry: recordData })),
+    nextSeq: num,
+    merges: num,
+    merged: recordOf(num),
+    discarded: recordOf(num),
+  }),
+  adaptiveHash: shape({
+    enabled: bool,
+    entries: arrayOf(shape({ indexName: str, prefix: arrayOf(columnValue), pageId: num, recordId: num })),
+    info: recordOf(shape({ nFields: num, potential: num })),
+    pageHelps: recordOf(num),
+    hashSearches: num, nonHashSearches: num, pagesBuilt: num, pagesDropped: num,
+  }),
+  diskPages: arrayOf(pageData),
+  doublewrite: shape({ enabled: bool, pages: arrayOf(pageData), batches: num, pagesWritten: num }),
+  redoLog: arrayOf(shape({ lsn: num, type: str, pageId: num, message: str, image: optional(pageData) })),
+  lsn: num,
+  checkpointLsn: num,
+  sessions: arrayOf(shape({
+    id: num,
+    isolationLevel: oneOf('REPEATABLE_READ', 'READ_COMMITTED'),
+    inTransaction: bool,
+    trxId: nullable(num),
+    readView: nullable(shape({ creatorTrxId: nullable(num), upLimitId: num, lowLimitId: num, activeIds: arrayOf(num) })),
+    pending: nullable(shape({ kind: oneOf('INSERT', 'UPDATE', 'DELETE', 'SELECT') })),
+  })),
+  nextTrxId: num,
+  undoLog: arrayOf(shape({ undoNo: num, trxId: num, type: oneOf('INSERT_REC', 'UPD_EXIST_REC', 'UPD_DEL_REC', 'DEL_MARK_REC'), rowId: num, previous: optional(recordData) })),
+  nextUndoNo: num,
+  locks: arrayOf((value, path) => lockRequest(value, path) ?? shape({ sessionId: num, granted: bool })(value, path)),
+  latestDeadlock: nullable(shape({ victimSessionId: num, cycle: arrayOf(shape({ sessionId: num, trxId: nullable(num), weight: num, waitingFor: lockRequest })) })),
+  indexCounters: recordOf(shape({ splits: num, merges: num })),
+  optimizerSwitch: shape({ indexConditionPushdown: bool, mrr: bool }),
+});
+
+// The fields fit their types; now the trees have to hang together
+const checkConsistency = (state: EngineState): string | null => {
+  if (!PAGE_SIZE_OPTIONS.includes(state.pageSize)) return `Page size ${state.pageSize} is not one of ${PAGE_SIZE_OPTIONS.join(', ')}.`;
+  if (state.sessions.length === 0) return 'The snapshot has no session.';
+  const pages = new Map(state.pages.map(p => [p.id, p]));
+  if (pages.size !== state.pages.length) return 'Two pages share the same page number.';
+  const indexNames = [PRIMARY_INDEX, ...state.schema.indexes.map(index => index.name)];
+  for (const indexName of indexNames) {
+    if (!state.pages.some(p => p.indexName === indexName)) return `Index ${indexName} has no pages.`;
+  }
+  for (const page of state.pages) {
+    const label = `Page ${page.id} (${page.indexName})`;
+    if (!indexNames.includes(page.indexName)) return `${label} belongs to an index the table does not have.`;
+    if (page.id > state.pageCounter) return `${label} is above the page counter (${state.pageCounter}).`;
+    for (const sibling of [page.prevPageId, page.nextPageId]) {
+      if (sibling !== null && pages.get(sibling)?.indexName !== page.indexName) return `${label} links to Page ${sibling}, which is not a page of the same index.`;
+    }
+    for (const record of page.records) {
+      if ((page.level > 0) !== (record.childPageId !== undefined)) return `${label}: record ${record.id} ${page.level > 0 ? 'has no child page' : 'is a node pointer on a leaf page'}.`;
+      if (record.childPageId === undefined) continue;
+      const child = pages.get(record.childPageId);
+      if (!child || child.indexName !== page.indexName || child.level !== page.level - 1) {
+        return `${label}: node pointer ${record.id} points to Page ${record.childPageId}, which is not a page one level below in the same index.`;
+      }
+    }
+  }
+  const missing = state.bufferPool.lru.find(frame => !pages.has(frame.pageId));
+  if (missing) return `The buffer pool holds Page ${missing.pageId}, which is not in the snapshot.`;
+  return null;
+};
+
+/**
+ * Reads a snapshot file: JSON of the right format and version, an engine state of the right shape,
+ * and trees whose links and node pointers point where they should. Errors name what is wrong and where.
+ */
+export const parseSnapshot = (text: string): SnapshotParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, error: `Not valid JSON: ${(error as Error).message}` };
+  }
+  if (!isObject(data) || data.format !== SNAPSHOT_FORMAT) {
+    return { ok: false, error: `Not an InnoDB Visualizer snapshot: "format" should be "${SNAPSHOT_FORMAT}".` };
+  }
+  if (typeof data.version !== 'number') return { ok: false, error: expected('version', 'a number', data.version) };
+  if (data.version > SNAPSHOT_VERSION) {
+    return { ok: false, error: `Snapshot version ${data.version} was written by a newer visualizer; this one reads version ${SNAPSHOT_VERSION}.` };
+  }
+  if (data.version < 1) return { ok: false, error: `Unknown snapshot version ${data.version}.` };
+
+  // Version 1 predates the split and merge counters: they start from zero. Before version 3, optimizer_switch was the default.
+  let state = data.state;
+  if (data.version < 2 && isObject(state)) state = { ...state, indexCounters: {} };
+  if (data.version < 3 && isObject(state)) state = { ...state, optimizerSwitch: DEFAULT_OPTIMIZER_SWITCH };
+  const error = engineState(state, 'state') ?? checkConsistency(state as EngineState);
+  if (error) return { ok: false, error: `Invalid snapshot: ${error}` };
+  return { ok: true, state: state as EngineState, savedAt: typeof data.savedAt === 'string' ? data.savedAt : '' };
+};
+
+// --- Links ---
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const pipe = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+/**
+ * The URL hash of a link to this state: the snapshot without its log, deflated and base64url-encoded.
+ * Repetitive page JSON compresses well, so a few hundred rows still fit in a link.
+ */
+export const encodeSnapshotHash = async (state: EngineState): Promise<string> => {
+  const json = JSON.stringify(toSnapshotFile({ ...state, logs: [] }));
+  return SNAPSHOT_HASH_PREFIX + toBase64Url(await pipe(new TextEncoder().encode(json), new CompressionStream('deflate-raw')));
+};
+
+export const decodeSnapshotHash = async (hash: string): Promise<SnapshotParseResult> => {
+  try {
+    const bytes = await pipe(fromBase64Url(hash.slice(SNAPSHOT_HASH_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    return parseSnapshot(new TextDecoder().decode(bytes));
+  } catch {
+    return { ok: false, error: 'The link is damaged: its snapshot could not be decompressed (was it cut off when it was copied?).' };
+  }
+};
+
+// --- Autosave ---
+
+export const isAutosaveEnabled = (): boolean => localStorage.getItem(AUTOSAVE_ENABLED_KEY) !== 'false';
+
+// Switching autosave off also forgets the saved session, so the next visit starts fresh
+export const setAutosaveEnabled = (enabled: boolean): void => {
+  localStorage.setItem(AUTOSAVE_ENABLED_KEY, String(enabled));
+  if (!enabled) localStorage.removeItem(AUTOSAVE_KEY);
+};
+
+// Returns an error message if the browser refused it (e.g. the storage quota is full)
+export const saveAutosave = (state: EngineState): string | null => {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(toSnapshotFile(state)));
+    return null;
+  } catch (error) {
+    return `Autosave failed: ${(error as Error).message}`;
+  }
+};
+
+// The last session, or null if none was saved
+export const loadAutosave = (): SnapshotParseResult | null => {
+  const text = localStorage.getItem(AUTOSAVE_KEY);
+  return text === null ? null : parseSnapshot(text);
+};
@@ -0,0 +1,738 @@
+import {
+  EngineState, RangeQuery, RangeBound, RecordData, SelectStatement, StatementResult, SqlStatement, SqlParseResult, SqlExecutionResult, PendingStatement,
+  TableSchema, ColumnDef, ColumnValue, IndexDef, IndexBuildAlgorithm, IndexFill, RowChanges, RowValues, ReadView, OptimizerSwitch, PRIMARY_INDEX,
+  DEFAULT_OPTIMIZER_SWITCH, IO_BLOCK_READ_COST, ROW_EVALUATE_COST,
+} from '../types';
+import {
+  insertRows, deleteRecord, updateRecord, simulateSelectQuery, simulateRangeQuery, findRecordById, getLeafRecords, isRowTooLarge,
+  buildRow, chooseAccessPath, planQuery, formatAccessPathCost, isMrrPath, matchesConditions, getColumnValue, getComparator, compareValues,
+  validateSchema, validateIndexDef, validateUniqueKeys, validateUniqueIndexData, getIndexNames, getUniqueColumns, formatUniqueKey,
+  createTable, createIndex, dropIndex, checkTable, formatViolation, validateMetadataLock, openReadView, getVisibleRows,
+  beginTransaction, commitTransaction, rollbackTransaction, setIsolationLevel, setOptimizerSwitch, isLockWaitNeeded, isDeadlockVictim, describeLock,
+} from './innodb';
+
+// --- Tokenizer ---
+
+interface Token {
+  type: 'number' | 'string' | 'word' | 'symbol';
+  text: string;
+}
+
+const tokenize = (sql: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "'") {
+      // String literal, '' escapes a quote
+      let text = '';
+      i++;
+      while (true) {
+        if (i >= sql.length) throw new Error('Unterminated string literal.');
+        if (sql[i] === "'" && sql[i + 1] === "'") { text += "'"; i += 2; continue; }
+        if (sql[i] === "'") { i++; break; }
+        text += sql[i++];
+      }
+      tokens.push({ type: 'string', text });
+    } else if (/[0-9]/.test(ch) || (ch === '-' && /[0-9]/.test(sql[i + 1] ?? ''))) {
+      const match = sql.slice(i).match(/^-?[0-9]+/)!;
+      tokens.push({ type: 'number', text: match[0] });
+      i += match[0].length;
+    } else if (/[A-Za-z_`]/.test(ch)) {
+      const match = sql.slice(i).match(/^`?[A-Za-z_][A-Za-z0-9_]*`?/)!;
+      tokens.push({ type: 'word', text: match[0].replace(/`/g, '') });
+      i += match[0].length;
+    } else {
+      const two = sql.slice(i, i + 2);
+      const symbol = ['<=', '>=', '!=', '<>'].includes(two) ? two : ch;
+      if (!['<=', '>=', '!=', '<>', '(', ')', ',', '*', '=', '<', '>', ';'].includes(symbol)) {
+        throw new Error(`Unexpected character '${ch}' at position ${i + 1}.`);
+      }
+      tokens.push({ type: 'symbol', text: symbol });
+      i += symbol.length;
+    }
+  }
+
+  return tokens;
+};
+
+// --- Parser ---
+
+const createCursor = (tokens: Token[], schema: TableSchema) => {
+  let pos = 0;
+
+  const peek = (): Token | undefined => tokens[pos];
+  const describe = (t: Token | undefined) => (t ? `'${t.text}'` : 'end of statement');
+
+  const isKeyword = (word: string) => peek()?.type === 'word' && peek()!.text.toUpperCase() === word;
+  const acceptKeyword = (word: string) => {
+    if (!isKeyword(word)) return false;
+    pos++;
+    return true;
+  };
+  const expectKeyword = (word: string) => {
+    if (!acceptKeyword(word)) throw new Error(`Expected ${word} but found ${describe(peek())}.`);
+  };
+
+  const acceptSymbol = (symbol: string) => {
+    if (peek()?.type !== 'symbol' || peek()!.text !== symbol) return false;
+    pos++;
+    return true;
+  };
+  const expectSymbol = (symbol: string) => {
+    if (!acceptSymbol(symbol)) throw new Error(`Expected '${symbol}' but found ${describe(peek())}.`);
+  };
+
+  const expectIdentifier = (): string => {
+    const t = peek();
+    if (t?.type !== 'word') throw new Error(`Expected an identifier but found ${describe(t)}.`);
+    pos++;
+    return t.text;
+  };
+
+  const expectTable = () => {
+    const table = expectIdentifier();
+    if (table.toLowerCase() !== schema.name.toLowerCase()) throw new Error(`Table '${table}' doesn't exist. The table is '${schema.name}'.`);
+  };
+
+  const expectColumn = (): string => {
+    const column = expectIdentifier().toLowerCase();
+    if (column !== 'id' && !schema.columns.some(c => c.name === column)) {
+      throw new Error(`Unknown column '${column}'. The table has columns ${['id', ...schema.columns.map(c => c.name)].join(', ')}.`);
+    }
+    return column;
+  };
+
+  const expectNumber = (): number => {
+    const t = peek();
+    if (t?.type !== 'number') throw new Error(`Expected a number but found ${describe(t)}.`);
+    pos++;
+    return parseInt(t.text, 10);
+  };
+
+  const expectString = (): string => {
+    const t = peek();
+    if (t?.type !== 'string') throw new Error(`Expected a quoted string but found ${describe(t)}.`);
+    pos++;
+    return t.text;
+  };
+
+  const isTextColumn = (column: string) => schema.columns.find(c => c.name === column)?.type === 'VARCHAR';
+
+  const expectLiteral = (column: string): ColumnValue => (isTextColumn(column) ? expectString() : expectNumber());
+
+  const expectEnd = () => {
+    acceptSymbol(';');
+    if (peek()) throw new Error(`Unexpected ${describe(peek())} after end of statement.`);
+  };
+
+  return { peek, describe, isKeyword, acceptKeyword, expectKeyword, acceptSymbol, expectSymbol, expectIdentifier, expectTable, expectColumn, expectNumber, expectString, isTextColumn, expectLiteral, expectEnd };
+};
+
+type Cursor = ReturnType<typeof createCursor>;
+
+// Keeps the tighter of two bounds when several conditions constrain the same side of the range
+const tighten = (current: RangeBound | undefined, next: RangeBound, side: 'from' | 'to'): RangeBound => {
+  if (!current) return next;
+  const c = compareValues(next.value, current.value) * (side === 'from' ? 1 : -1);
+  if (c > 0) return next;
+  if (c < 0) return current;
+  return { value: current.value, inclusive: current.inclusive && next.inclusive };
+};
+
+// WHERE cond [AND cond ...], conditions on the same column are merged into one range
+const parseWhere = (cursor: Cursor, query: RangeQuery) => {
+  do {
+    const column = cursor.expectColumn();
+    let condition = query.conditions.find(c => c.column === column);
+    if (!condition) {
+      condition = { column };
+      query.conditions.push(condition);
+    }
+
+    if (cursor.acceptKeyword('BETWEEN')) {
+      const low = cursor.expectLiteral(column);
+      cursor.expectKeyword('AND');
+      const high = cursor.expectLiteral(column);
+      condition.from = tighten(condition.from, { value: low, inclusive: true }, 'from');
+      condition.to = tighten(condition.to, { value: high, inclusive: true }, 'to');
+    } else if (cursor.acceptKeyword('LIKE')) {
+      if (!cursor.isTextColumn(column)) throw new Error(`LIKE is only supported on VARCHAR columns, '${column}' is not one.`);
+      const pattern = cursor.expectString();
+      if (!/^[^%_]+%$/.test(pattern)) throw new Error(`Only prefix patterns such as 'Al%' are supported, got '${pattern}'.`);
+      condition.prefix = pattern.slice(0, -1);
+    } else if (cursor.acceptSymbol('=')) {
+      const value = cursor.expectLiteral(column);
+      condition.from = tighten(condition.from, { value, inclusive: true }, 'from');
+      condition.to = tighten(condition.to, { value, inclusive: true }, 'to');
+    } else if (cursor.acceptSymbol('>')) {
+      condition.from = tighten(condition.from, { value: cursor.expectLiteral(column), inclusive: false }, 'from');
+    } else if (cursor.acceptSymbol('>=')) {
+      condition.from = tighten(condition.from, { value: cursor.expectLiteral(column), inclusive: true }, 'from');
+    } else if (cursor.acceptSymbol('<')) {
+      condition.to = tighten(condition.to, { value: cursor.expectLiteral(column), inclusive: false }, 'to');
+    } else if (cursor.acceptSymbol('<=')) {
+      condition.to = tighten(condition.to, { value: cursor.expectLiteral(column), inclusive: true }, 'to');
+    } else {
+      throw new Error(`Unsupported operator ${cursor.peek() ? `'${cursor.peek()!.text}'` : 'at end of statement'}. Use =, <, <=, >, >=, BETWEEN or LIKE.`);
+    }
+  } while (cursor.acceptKeyword('AND'));
+};
+
+const parseSelect = (cursor: Cursor): SelectStatement => {
+  cursor.expectKeyword('SELECT');
+
+  let columns: SelectStatement['columns'] = '*';
+  if (!cursor.acceptSymbol('*')) {
+    columns = [cursor.expectColumn()];
+    while (cursor.acceptSymbol(',')) columns.push(cursor.expectColumn());
+  }
+
+  cursor.expectKeyword('FROM');
+  cursor.expectTable();
+
+  const query: RangeQuery = { conditions: [], columns: columns === '*' ? undefined : columns };
+
+  if (cursor.acceptKeyword('WHERE')) parseWhere(cursor, query);
+
+  if (cursor.acceptKeyword('ORDER')) {
+    cursor.expectKeyword('BY');
+    query.orderBy = cursor.expectColumn();
+    if (cursor.acceptKeyword('DESC')) query.descending = true;
+    else cursor.acceptKeyword('ASC');
+  }
+
+  if (cursor.acceptKeyword('LIMIT')) query.limit = cursor.expectNumber();
+
+  // Locking reads: FOR UPDATE, FOR SHARE or the older LOCK IN SHARE MODE
+  if (cursor.acceptKeyword('FOR')) {
+    if (cursor.acceptKeyword('UPDATE')) query.lock = 'X';
+    else {
+      cursor.expectKeyword('SHARE');
+      query.lock = 'S';
+    }
+  } else if (cursor.acceptKeyword('LOCK')) {
+    cursor.expectKeyword('IN');
+    cursor.expectKeyword('SHARE');
+    cursor.expectKeyword('MODE');
+    query.lock = 'S';
+  }
+
+  return { columns, query };
+};
+
+// WHERE id = n, required by UPDATE and DELETE
+const parseWhereId = (cursor: Cursor): number => {
+  cursor.expectKeyword('WHERE');
+  if (cursor.expectColumn() !== 'id') throw new Error('UPDATE and DELETE only support WHERE id = <number>.');
+  cursor.expectSymbol('=');
+  return cursor.expectNumber();
+};
+
+// (col, col, ...) of an index definition; the columns are checked against the table when the index is created
+const parseIndexColumns = (cursor: Cursor): string[] => {
+  cursor.expectSymbol('(');
+  const columns = [cursor.expectIdentifier().toLowerCase()];
+  while (cursor.acceptSymbol(',')) columns.push(cursor.expectIdentifier().toLowerCase());
+  cursor.expectSymbol(')');
+  return columns;
+};
+
+/**
+ * CREATE TABLE t (id INT PRIMARY KEY, name VARCHAR(20) UNIQUE, age INT, INDEX idx_age (age), UNIQUE KEY uk (...))
+ * The primary key is always the INT column `id`. A column-level UNIQUE creates an index named after the column.
+ */
+const parseCreateTable = (cursor: Cursor): TableSchema => {
+  const name = cursor.expectIdentifier();
+  const columns: ColumnDef[] = [];
+  const indexes: IndexDef[] = [];
+  let hasPrimaryKey = false;
+
+  cursor.expectSymbol('(');
+  do {
+    if (cursor.acceptKeyword('INDEX') || cursor.acceptKeyword('KEY')) {
+      indexes.push({ name: cursor.expectIdentifier(), columns: parseIndexColumns(cursor) });
+      continue;
+    }
+    if (cursor.acceptKeyword('UNIQUE')) {
+      if (!cursor.acceptKeyword('INDEX')) cursor.acceptKeyword('KEY');
+      indexes.push({ name: cursor.expectIdentifier(), columns: parseIndexColumns(cursor), unique: true });
+      continue;
+    }
+    if (cursor.acceptKeyword('PRIMARY')) {
+      cursor.expectKeyword('KEY');
+      const key = parseIndexColumns(cursor);
+      if (key.length !== 1 || key[0] !== 'id') throw new Error('The primary key must be the INT column id.');
+      hasPrimaryKey = true;
+      continue;
+    }
+
+    const column = cursor.expectIdentifier().toLowerCase();
+    let type: ColumnDef['type'];
+    if (cursor.acceptKeyword('INT') || cursor.acceptKeyword('INTEGER')) {
+      type = 'INT';
+    } else if (cursor.acceptKeyword('VARCHAR')) {
+      cursor.expectSymbol('(');
+      cursor.expectNumber();
+      cursor.expectSymbol(')');
+      type = 'VARCHAR';
+    } else {
+      throw new Error(`Unsupported type ${cursor.peek() ? `'${cursor.peek()!.text}'` : 'at end of statement'} for column '${column}'. Use INT or VARCHAR(n).`);
+    }
+
+    if (cursor.acceptKeyword('PRIMARY')) {
+      cursor.expectKeyword('KEY');
+      if (column !== 'id' || type !== 'INT') throw new Error('The primary key must be the INT column id.');
+      hasPrimaryKey = true;
+    }
+    if (column === 'id') {
+      if (type !== 'INT') throw new Error('The primary key must be the INT column id.');
+      continue;
+    }
+    if (cursor.acceptKeyword('UNIQUE')) {
+      cursor.acceptKeyword('KEY');
+      indexes.push({ name: column, columns: [column], unique: true });
+    }
+    columns.push({ name: column, type });
+  } while (cursor.acceptSymbol(','));
+  cursor.expectSymbol(')');
+
+  if (!hasPrimaryKey) throw new Error('The table needs a primary key: id INT PRIMARY KEY.');
+  return { name, columns, indexes };
+};
+
+// [ALGORITHM [=] {INPLACE | COPY | DEFAULT}], DEFAULT being INPLACE
+const parseAlgorithm = (cursor: Cursor): IndexBuildAlgorithm => {
+  if (!cursor.acceptKeyword('ALGORITHM')) return 'INPLACE';
+  cursor.acceptSymbol('=');
+  if (cursor.acceptKeyword('COPY')) return 'COPY';
+  if (cursor.acceptKeyword('INPLACE') || cursor.acceptKeyword('DEFAULT')) return 'INPLACE';
+  throw new Error(`Expected INPLACE, COPY or DEFAULT after ALGORITHM but found ${cursor.describe(cursor.peek())}.`);
+};
+
+// 'index_condition_pushdown=off,mrr=on': the flags named change, default restoring a flag's default
+const OPTIMIZER_SWITCH_FLAGS: Record<string, keyof OptimizerSwitch> = {
+  index_condition_pushdown: 'indexConditionPushdown',
+  mrr: 'mrr',
+};
+
+const parseOptimizerSwitch = (text: string): Partial<OptimizerSwitch> => {
+  const changes: Partial<OptimizerSwitch> = {};
+  for (const item of text.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [name, value] = item.split('=').map(part => part.trim().toLowerCase());
+    const flag = OPTIMIZER_SWITCH_FLAGS[name];
+    if (!flag) throw new Error(`Unsupported optimizer_switch flag '${name}'. Use ${Object.keys(OPTIMIZER_SWITCH_FLAGS).join(' or ')}.`);
+    if (value !== 'on' && value !== 'off' && value !== 'default') throw new Error(`Expected ${name}=on, off or default but found '${item}'.`);
+    changes[flag] = value === 'default' ? DEFAULT_OPTIMIZER_SWITCH[flag] : value === 'on';
+  }
+  if (Object.keys(changes).length === 0) throw new Error("Expected flags like 'index_condition_pushdown=off,mrr=on'.");
+  return changes;
+};
+
+const parseStatement = (cursor: Cursor, schema: TableSchema): SqlStatement => {
+  if (cursor.acceptKeyword('EXPLAIN')) {
+    return { kind: 'EXPLAIN', select: parseSelect(cursor) };
+  }
+
+  if (cursor.isKeyword('SELECT')) {
+    return { kind: 'SELECT', select: parseSelect(cursor) };
+  }
+
+  if (cursor.acceptKeyword('INSERT')) {
+    cursor.expectKeyword('INTO');
+    cursor.expectTable();
+
+    let columnOrder = ['id', ...schema.columns.map(c => c.name)];
+    if (cursor.acceptSymbol('(')) {
+      columnOrder = [cursor.expectColumn()];
+      while (cursor.acceptSymbol(',')) columnOrder.push(cursor.expectColumn());
+      cursor.expectSymbol(')');
+      if (!columnOrder.includes('id')) throw new Error("INSERT must list the primary key column 'id'.");
+    }
+
+    cursor.expectKeyword('VALUES');
+    const rows: { id: number, values: RowValues }[] = [];
+    do {
+      cursor.expectSymbol('(');
+      const values: RowValues = {};
+      let id = 0;
+      columnOrder.forEach((column, i) => {
+        if (i > 0 && !cursor.acceptSymbol(',')) throw new Error(`Column count doesn't match value count at row ${rows.length + 1}.`);
+        const value = cursor.expectLiteral(column);
+        if (column === 'id') id = Number(value);
+        else values[column] = value;
+      });
+      if (!cursor.acceptSymbol(')')) throw new Error(`Column count doesn't match value count at row ${rows.length + 1}.`);
+      rows.push({ id, values });
+    } while (cursor.acceptSymbol(','));
+
+    return { kind: 'INSERT', rows };
+  }
+
+  if (cursor.acceptKeyword('UPDATE')) {
+    cursor.expectTable();
+    cursor.expectKeyword('SET');
+    const changes: RowChanges = {};
+    do {
+      const column = cursor.expectColumn();
+      cursor.expectSymbol('=');
+      if (column === 'id') changes.id = cursor.expectNumber();
+      else changes.values = { ...changes.values, [column]: cursor.expectLiteral(column) };
+    } while (cursor.acceptSymbol(','));
+    return { kind: 'UPDATE', id: parseWhereId(cursor), changes };
+  }
+
+  if (cursor.acceptKeyword('DELETE')) {
+    cursor.expectKeyword('FROM');
+    cursor.expectTable();
+    return { kind: 'DELETE', id: parseWhereId(cursor) };
+  }
+
+  if (cursor.acceptKeyword('CREATE')) {
+    if (cursor.acceptKeyword('TABLE')) return { kind: 'CREATE_TABLE', schema: parseCreateTable(cursor) };
+    const unique = cursor.acceptKeyword('UNIQUE');
+    cursor.expectKeyword('INDEX');
+    const name = cursor.expectIdentifier();
+    cursor.expectKeyword('ON');
+    cursor.expectTable();
+    const index: IndexDef = { name, columns: parseIndexColumns(cursor), ...(unique ? { unique } : {}) };
+    return { kind: 'CREATE_INDEX', index, algorithm: parseAlgorithm(cursor) };
+  }
+
+  // ALTER TABLE t ADD [UNIQUE] {INDEX | KEY} name (columns) [, ALGORITHM = ...] | DROP {INDEX | KEY} name
+  if (cursor.acceptKeyword('ALTER')) {
+    cursor.expectKeyword('TABLE');
+    cursor.expectTable();
+    if (cursor.acceptKeyword('DROP')) {
+      if (!cursor.acceptKeyword('INDEX')) cursor.expectKeyword('KEY');
+      return { kind: 'DROP_INDEX', name: cursor.expectIdentifier() };
+    }
+    cursor.expectKeyword('ADD');
+    const unique = cursor.acceptKeyword('UNIQUE');
+    if (!cursor.acceptKeyword('INDEX') && !cursor.acceptKeyword('KEY') && !unique) throw new Error(`Expected INDEX but found ${cursor.describe(cursor.peek())}.`);
+    const index: IndexDef = { name: cursor.expectIdentifier(), columns: parseIndexColumns(cursor), ...(unique ? { unique } : {}) };
+    return { kind: 'CREATE_INDEX', index, algorithm: cursor.acceptSymbol(',') ? parseAlgorithm(cursor) : 'INPLACE' };
+  }
+
+  if (cursor.acceptKeyword('DROP')) {
+    cursor.expectKeyword('INDEX');
+    const name = cursor.expectIdentifier();
+    cursor.expectKeyword('ON');
+    cursor.expectTable();
+    return { kind: 'DROP_INDEX', name };
+  }
+
+  // CHECK TABLE t [QUICK | FAST | MEDIUM | EXTENDED | CHANGED]: every option runs the full check
+  if (cursor.acceptKeyword('CHECK')) {
+    cursor.expectKeyword('TABLE');
+    cursor.expectTable();
+    ['QUICK', 'FAST', 'MEDIUM', 'EXTENDED', 'CHANGED'].some(option => cursor.acceptKeyword(option));
+    return { kind: 'CHECK_TABLE' };
+  }
+
+  if (cursor.acceptKeyword('BEGIN')) {
+    cursor.acceptKeyword('WORK');
+    return { kind: 'BEGIN', withSnapshot: false };
+  }
+
+  if (cursor.acceptKeyword('START')) {
+    cursor.expectKeyword('TRANSACTION');
+    const withSnapshot = cursor.acceptKeyword('WITH');
+    if (withSnapshot) {
+      cursor.expectKeyword('CONSISTENT');
+      cursor.expectKeyword('SNAPSHOT');
+    }
+    return { kind: 'BEGIN', withSnapshot };
+  }
+
+  if (cursor.acceptKeyword('COMMIT')) {
+    cursor.acceptKeyword('WORK');
+    return { kind: 'COMMIT' };
+  }
+
+  if (cursor.acceptKeyword('ROLLBACK')) {
+    cursor.acceptKeyword('WORK');
+    return { kind: 'ROLLBACK' };
+  }
+
+  if (cursor.acceptKeyword('SET')) {
+    if (!cursor.acceptKeyword('SESSION')) cursor.acceptKeyword('GLOBAL');
+    if (cursor.acceptKeyword('OPTIMIZER_SWITCH')) {
+      cursor.expectSymbol('=');
+      return { kind: 'SET_OPTIMIZER_SWITCH', changes: parseOptimizerSwitch(cursor.expectString()) };
+    }
+    cursor.expectKeyword('TRANSACTION');
+    cursor.expectKeyword('ISOLATION');
+    cursor.expectKeyword('LEVEL');
+    if (cursor.acceptKeyword('READ')) {
+      cursor.expectKeyword('COMMITTED');
+      return { kind: 'SET_ISOLATION', level: 'READ_COMMITTED' };
+    }
+    if (cursor.acceptKeyword('REPEATABLE')) {
+      cursor.expectKeyword('READ');
+      return { kind: 'SET_ISOLATION', level: 'REPEATABLE_READ' };
+    }
+    throw new Error(`Unsupported isolation level ${cursor.peek() ? `'${cursor.peek()!.text}'` : 'at end of statement'}. Use READ COMMITTED or REPEATABLE READ.`);
+  }
+
+  const first = cursor.peek();
+  throw new Error(`Unsupported statement${first ? ` '${first.text}'` : ''}. Use INSERT, SELECT, UPDATE, DELETE, EXPLAIN, CREATE TABLE, CREATE INDEX, DROP INDEX, ALTER TABLE, CHECK TABLE, BEGIN, COMMIT, ROLLBACK, SET TRANSACTION ISOLATION LEVEL or SET optimizer_switch.`);
+};
+
+export const parseSql = (sql: string, schema: TableSchema): SqlParseResult => {
+  try {
+    const cursor = createCursor(tokenize(sql), schema);
+    const statement = parseStatement(cursor, schema);
+    cursor.expectEnd();
+    return { ok: true, statement };
+  } catch (error) {
+    return { ok: false, error: `Syntax error: ${(error as Error).message}` };
+  }
+};
+
+// --- Execution ---
+
+// Result rows, computed straight from the clustered index as the read view sees it (the animation is produced separately).
+// Without a read view (a locking read) the latest versions.
+const evaluateSelect = (state: EngineState, { query }: SelectStatement, view: ReadView | null): RecordData[] => {
+  // Without ORDER BY, rows come back in the order of the index that is scanned, or in PK order after MRR sorted the lookups
+  const path = chooseAccessPath(state, query);
+  const compareFn = query.orderBy
+    ? (a: RecordData, b: RecordData) => compareValues(getColumnValue(a, query.orderBy!), getColumnValue(b, query.orderBy!)) || a.id - b.id
+    : getComparator(state.schema, isMrrPath(state.optimizerSwitch, path, query) ? PRIMARY_INDEX : path.indexName);
+
+  const rows = (view ? getVisibleRows(state, view) : getLeafRecords(state.pages, PRIMARY_INDEX))
+    .filter(r => matchesConditions(r, query.conditions))
+    .sort((a, b) => compareFn(a, b) * (query.descending ? -1 : 1));
+
+  return rows.slice(0, query.limit);
+};
+
+const formatRows = (schema: TableSchema, columns: SelectStatement['columns'], rows: RecordData[]): string[] => {
+  const header = columns === '*' ? ['id', ...schema.columns.map(c => c.name)] : columns;
+  return [
+    header.join(' | '),
+    ...rows.map(r => header.map(c => `${getColumnValue(r, c)}`).join(' | ')),
+    `${rows.length} row(s) in set`,
+  ];
+};
+
+const formatFill = (fill: IndexFill): string =>
+  `${fill.pages} page(s), ${fill.leafPages} leaf page(s) ${fill.fillPct.toFixed(1)}% full, height ${fill.height}`;
+
+// A lone id = ... is a point lookup on the clustered index, anything else a scan of the path the optimizer picks
+const simulateSelect = (state: EngineState, query: RangeQuery, sessionId: number): StatementResult => {
+  const idCondition = query.conditions.find(c => c.column === 'id');
+  const path = chooseAccessPath(state, query);
+  return path.indexName === PRIMARY_INDEX && path.equalityParts === 1 && query.conditions.length === 1 && !query.lock
+    ? simulateSelectQuery(state, { indexName: PRIMARY_INDEX, key: [idCondition!.from!.value] }, sessionId)
+    : simulateRangeQuery(state, query, sessionId);
+};
+
+/**
+ * EXPLAIN: the plan row of the cheapest access path, then every candidate the optimizer priced and why it lost.
+ * rows is the estimate of records the scan examines, filtered the share of them the whole WHERE keeps.
+ */
+const explainSelect = (state: EngineState, select: SelectStatement): string[] => {
+  const { query } = select;
+  const { schema } = state;
+  const plan = planQuery(state, query);
+  const [chosen] = plan.candidates;
+  const { path, type } = chosen;
+
+  // Indexes whose leftmost column is constrained; any other index is useless for this WHERE
+  const possibleKeys = [PRIMARY_INDEX, ...schema.indexes.map(i => i.name)].filter(indexName => {
+    const first = indexName === PRIMARY_INDEX ? 'id' : schema.indexes.find(i => i.name === indexName)!.columns[0];
+    return query.conditions.some(c => c.column === first);
+  });
+
+  const boundColumns = path.keyColumns.slice(0, path.equalityParts + (path.rangeColumn ? 1 : 0));
+  // With ICP the conditions on index columns are the index condition, not part of Using where
+  const pushedColumns = chosen.pushed ? path.keyColumns : [];
+  const extra = [
+    chosen.pushed ? 'Using index condition' : null,
+    query.conditions.some(c => !boundColumns.includes(c.column) && !pushedColumns.includes(c.column)) || (type === 'range' && !chosen.pushed) ? 'Using where' : null,
+    chosen.covering ? 'Using index' : null,
+    chosen.mrr ? 'Using MRR' : null,
+    chosen.sorted ? 'Using filesort' : null,
+  ].filter(Boolean).join('; ');
+  const filtered = chosen.rows > 0 ? Math.min(100, (plan.matches / chosen.rows) * 100) : 100;
+
+  return [
+    'id | select_type | table | type | possible_keys | key | key_parts | rows | filtered | Extra',
+    `1 | SIMPLE | ${schema.name} | ${type} | ${possibleKeys.join(',') || 'NULL'} | ${type === 'ALL' ? 'NULL' : path.indexName} | ${boundColumns.join(',') || 'NULL'} | ${chosen.rows} | ${filtered.toFixed(2)} | ${extra || 'NULL'}`,
+    `Access paths by cost (page read ${IO_BLOCK_READ_COST.toFixed(1)}, row evaluated ${ROW_EVALUATE_COST.toFixed(1)}):`,
+    ...plan.candidates.map((candidate, i) => `${i === 0 ? '* ' : '  '}${formatAccessPathCost(candidate)}`),
+  ];
+};
+
+/**
+ * Parses one statement and runs it against the engine in the connection `sessionId`.
+ * Returns the new state, the steps to animate and the lines to print in the console.
+ */
+export const executeSql = (state: EngineState, sql: string, sessionId: number = state.sessions[0].id): SqlExecutionResult => {
+  const parsed = parseSql(sql, state.schema);
+  if (parsed.ok === false) return { state, steps: [], output: [], error: parsed.error };
+
+  const statement = parsed.statement;
+  const fail = (error: string): SqlExecutionResult => ({ state, steps: [], output: [], error });
+  const session = state.sessions.find(s => s.id === sessionId);
+  if (!session) return fail(`Session ${sessionId} is not connected.`);
+
+  if (session.pending) {
+    return fail(`Session ${sessionId} is still waiting for a lock. Wait for the other transaction to end, or time the wait out in the Transactions panel.`);
+  }
+
+  // A DML statement or locking read may be blocked by a lock, or rolled back as the victim of a deadlock
+  const blocked = (next: EngineState): SqlExecutionResult | null => {
+    const lock = next.locks.find(l => !l.granted && l.sessionId === sessionId);
+    if (lock) return { state: next, steps: [], output: [`Waiting for ${describeLock(lock)}... The statement continues once the lock is granted.`] };
+    if (isDeadlockVictim(state, next, sessionId)) return { state: next, steps: [], output: [], error: 'Deadlock found when trying to get lock; try restarting transaction' };
+    return null;
+  };
+
+  // Ending a transaction releases its locks: sessions waiting for them go on
+  const released = (next: EngineState): SqlExecutionResult => ({
+    state: next,
+    steps: [],
+    output: [
+      'Query OK, 0 rows affected.',
+      ...state.sessions
+        .filter(s => s.pending && !next.sessions.find(n => n.id === s.id)?.pending)
+        .map(s => `Session ${s.id} got its lock: the waiting statement continued.`),
+    ],
+  });
+
+  // A statement that will wait skips the checks below: the row it waits for may still change
+  const waits = (pending: PendingStatement) => isLockWaitNeeded(state, pending, sessionId);
+
+  // UPDATE / DELETE of a row that does not exist: the search still locks the gap where it would be, like a locking read
+  const noRowFound = (id: number): SqlExecutionResult => {
+    if (!session.inTransaction || session.isolationLevel !== 'REPEATABLE_READ') return { state, steps: [], output: ['Query OK, 0 rows affected.'] };
+    const search = simulateRangeQuery(state, { conditions: [{ column: 'id', from: { value: id, inclusive: true }, to: { value: id, inclusive: true } }], lock: 'X' }, sessionId);
+    return { state: search.state, steps: search.steps, output: ['Query OK, 0 rows affected.'] };
+  };
+
+  switch (statement.kind) {
+    case 'INSERT': {
+      // The statement is atomic: reject it entirely if any row would hit a duplicate key,
+      // in the table or among the rows of the statement itself
+      const skipTableCheck = waits(statement);
+      const seen = new Set<string>();
+      for (const { id, values } of statement.rows) {
+        const row = buildRow(state.schema, id, values);
+        const duplicate = skipTableCheck ? null : validateUniqueKeys(state.pages, state.schema, row);
+        if (duplicate) return fail(duplicate);
+        for (const indexName of getIndexNames(state.schema)) {
+          const columns = getUniqueColumns(state.schema, indexName);
+          if (!columns) continue;
+          const key = JSON.stringify([indexName, ...columns.map(column => getColumnValue(row, column))]);
+          if (seen.has(key)) return fail(`Duplicate entry '${formatUniqueKey(row, columns)}' for key '${indexName}'.`);
+          seen.add(key);
+        }
+        if (isRowTooLarge(state.schema, state.pageSize, row)) {
+          return fail(`Row size too large for a ${state.pageSize}-byte page: row with id ${id}.`);
+        }
+      }
+      const next = insertRows(state, statement.rows, sessionId);
+      return blocked(next) ?? { state: next, steps: [], output: [`Query OK, ${statement.rows.length} row(s) affected.`] };
+    }
+
+    case 'SELECT': {
+      const { query } = statement.select;
+      const result = simulateSelect(state, query, sessionId);
+      const waited = blocked(result.state);
+      if (waited) return waited;
+      const view = query.lock ? null : openReadView(result.state, sessionId).view;
+      return { state: result.state, steps: result.steps, output: formatRows(state.schema, statement.select.columns, evaluateSelect(result.state, statement.select, view)) };
+    }
+
+    case 'UPDATE': {
+      if (!waits(statement)) {
+        const current = findRecordById(state.pages, statement.id);
+        if (!current) return noRowFound(statement.id);
+        const newRow = { id: statement.changes.id ?? current.id, values: { ...current.values, ...statement.changes.values } };
+        const duplicate = validateUniqueKeys(state.pages, state.schema, newRow, statement.id);
+        if (duplicate) return fail(duplicate);
+        if (isRowTooLarge(state.schema, state.pageSize, newRow)) {
+          return fail(`Row size too large for a ${state.pageSize}-byte page.`);
+        }
+      }
+      const result = updateRecord(state, statement.id, statement.changes, sessionId);
+      return blocked(result.state) ?? { state: result.state, steps: result.steps, output: ['Query OK, 1 row affected.'] };
+    }
+
+    case 'DELETE': {
+      if (!waits(statement) && !findRecordById(state.pages, statement.id)) return noRowFound(statement.id);
+      const next = deleteRecord(state, statement.id, sessionId);
+      return blocked(next) ?? { state: next, steps: [], output: ['Query OK, 1 row affected.'] };
+    }
+
+    // The plan is animated on the pages without running it: the state, buffer pool included, stays as it was
+    case 'EXPLAIN': {
+      const { steps } = simulateSelect(state, { ...statement.select.query, lock: undefined }, sessionId);
+      return { state, steps, output: explainSelect(state, statement.select) };
+    }
+
+    case 'CHECK_TABLE': {
+      const { violations } = checkTable(state);
+      const rows = [
+        ...violations.map(v => `${state.schema.name} | check | error | ${formatViolation(v)}`),
+        `${state.schema.name} | check | status | ${violations.length === 0 ? 'OK' : 'Corrupt'}`,
+      ];
+      return { state, steps: [], output: ['Table | Op | Msg_type | Msg_text', ...rows, `${rows.length} row(s) in set`] };
+    }
+
+    case 'BEGIN':
+      return released(beginTransaction(state, sessionId, statement.withSnapshot));
+
+    case 'COMMIT':
+      return released(commitTransaction(state, sessionId));
+
+    case 'ROLLBACK':
+      return released(rollbackTransaction(state, sessionId));
+
+    case 'SET_ISOLATION':
+      if (session.inTransaction) return fail("Transaction characteristics can't be changed while a transaction is in progress.");
+      return { state: setIsolationLevel(state, sessionId, statement.level), steps: [], output: ['Query OK, 0 rows affected.'] };
+
+    case 'SET_OPTIMIZER_SWITCH':
+      return { state: setOptimizerSwitch(state, statement.changes), steps: [], output: ['Query OK, 0 rows affected.'] };
+
+    case 'CREATE_TABLE': {
+      const error = validateSchema(statement.schema) ?? validateMetadataLock(state);
+      if (error) return fail(error);
+      return { state: createTable(state, statement.schema), steps: [], output: ['Query OK, 0 rows affected. The previous table and its data were dropped.'] };
+    }
+
+    case 'CREATE_INDEX': {
+      const error = validateIndexDef(state.schema, statement.index) ?? validateMetadataLock(state) ?? validateUniqueIndexData(state.pages, statement.index);
+      if (error) return fail(error);
+      const { state: next, report } = createIndex(state, statement.index, statement.algorithm);
+      if (!report) return { state: next, steps: [], output: [] };
+      const other = report.algorithm === 'INPLACE' ? 'Row-by-row inserts (ALGORITHM=COPY)' : 'Sorted index build (ALGORITHM=INPLACE)';
+      return {
+        state: next,
+        steps: [],
+        output: [
+          `Query OK, 0 rows affected. Records: ${report.entries}`,
+          `${report.algorithm === 'INPLACE' ? 'Sorted index build' : 'Row-by-row inserts'}: ${formatFill(report.built)}`,
+          `${other} would take: ${formatFill(report.alternative)}`,
+        ],
+      };
+    }
+
+    case 'DROP_INDEX': {
+      if (!state.schema.indexes.some(i => i.name.toLowerCase() === statement.name.toLowerCase())) {
+        return fail(`Can't DROP '${statement.name}'; check that column/key exists.`);
+      }
+      const locked = validateMetadataLock(state);
+      if (locked) return fail(locked);
+      return { state: dropIndex(state, statement.name), steps: [], output: ['Query OK, 0 rows affected.'] };
+    }
+  }
+};
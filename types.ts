@@ -1,21 +1,141 @@
-export type IndexType = 'PRIMARY' | 'SECONDARY';
+// --- Table Schema ---
+
+export type ColumnType = 'INT' | 'VARCHAR';
+export type ColumnValue = number | string;
+export type RowValues = Record<string, ColumnValue>; // Column name -> value
+
+export interface ColumnDef {
+  name: string;
+  type: ColumnType;
+}
+
+// Secondary index. InnoDB appends the primary key to every secondary key, so (city, age) is stored as (city, age, id).
+export interface IndexDef {
+  name: string;
+  columns: string[]; // Key columns in order, leftmost first
+  unique?: boolean; // UNIQUE: no two live entries may share the key columns (the appended PK does not count)
+}
+
+/**
+ * ALGORITHM of CREATE INDEX / ALTER TABLE ... ADD INDEX. INPLACE (the default) is a sorted index build:
+ * the entries are sorted, then the pages are filled left to right and the upper levels built on top.
+ * COPY inserts the entries one by one, like copying the rows into a new table does.
+ */
+export type IndexBuildAlgorithm = 'INPLACE' | 'COPY';
+
+// Size and space use of one index's B+Tree
+export interface IndexFill {
+  pages: number;
+  leafPages: number;
+  height: number;
+  fillPct: number; // Record bytes of the leaf pages against their usable bytes
+}
+
+export interface IndexBuildReport {
+  algorithm: IndexBuildAlgorithm;
+  entries: number;
+  built: IndexFill;
+  alternative: IndexFill; // The same index built with the other algorithm, on a scratch copy
+}
+
+// Page splits and merges of one index since startup (INNODB_METRICS index_page_splits, index_page_merge_successful)
+export interface IndexCounters {
+  splits: number;
+  merges: number;
+}
+
+// Leaf pages holding between min and max records
+export interface RecordsPerPageBucket {
+  min: number;
+  max: number;
+  pages: number;
+}
+
+// Statistics of one index, computed from its pages
+export interface IndexStats {
+  indexName: string;
+  pages: number;
+  leafPages: number;
+  height: number;
+  avgFillPct: number; // Record bytes of the leaf pages against their usable bytes
+  minFillPct: number; // The emptiest leaf page
+  counters: IndexCounters;
+  recordsPerPage: RecordsPerPageBucket[];
+  leafOrder: number[]; // Leaf page ids in key order, following the next pointers
+  links: number; // Next pointers between pages of the same level
+  backwardLinks: number; // Next pointers to a lower page id: a scan in key order jumps back in the file
+}
+
+export interface TableSchema {
+  name: string;
+  columns: ColumnDef[]; // Every column except the INT primary key `id`
+  indexes: IndexDef[]; // Secondary indexes
+}
+
+// Name of the clustered index, every other index name refers to schema.indexes
+export const PRIMARY_INDEX = 'PRIMARY';
+
+export const DEFAULT_SCHEMA: TableSchema = {
+  name: 't',
+  columns: [
+    { name: 'name', type: 'VARCHAR' },
+    { name: 'age', type: 'INT' },
+    { name: 'city', type: 'VARCHAR' },
+  ],
+  indexes: [
+    { name: 'idx_name', columns: ['name'] },
+    { name: 'idx_city_age', columns: ['city', 'age'] },
+  ],
+};
+
+// PAGE_DIRECTION in the InnoDB page header: where the recent inserts landed relative to each other
+export type InsertDirection = 'LEFT' | 'RIGHT' | 'NO_DIRECTION';
+
+// INNODB: split at the insert point for sequential inserts, MIDPOINT: always split the bytes 50/50
+export type SplitStrategy = 'INNODB' | 'MIDPOINT';
 
 export interface RecordData {
   id: number; // Primary Key
-  value: string;
+  values: RowValues; // Clustered leaf: every column. Secondary: its key columns only. Clustered node pointer: none
   isNew?: boolean; // For animation highlighting
   isHighlighted?: boolean; // For query visualization
+  isDeleteMarked?: boolean; // Logically deleted, physically removed later by purge
+  childPageId?: number; // Node pointer target (non-leaf pages only)
+  heapNo?: number; // Position in the page heap (insertion order), see PAGE_HEAP_NO_USER_LOW
+  trxId?: number; // DB_TRX_ID: transaction that last changed the record (clustered leaf records only)
+  rollPtr?: number; // DB_ROLL_PTR: undo record holding the previous version (clustered leaf records only)
+}
+
+// A deleted record's space on the PAGE_FREE list, reusable by a later insert of at most `bytes`
+export interface FreeRecord {
+  heapNo: number;
+  bytes: number;
 }
 
 export interface PageData {
   id: number;
-  indexType: IndexType;
-  records: RecordData[];
+  indexName: string; // PRIMARY_INDEX or a secondary index name
+  level: number; // 0 = leaf, root has the highest level
+  records: RecordData[]; // Leaf: user records. Non-leaf: node pointers (min key + childPageId)
+  usedBytes: number; // Page overhead + record bytes
+  freeBytes: number; // Page size - usedBytes
   nextPageId: number | null;
   prevPageId: number | null;
-  isDirty?: boolean; 
+  lastInsert: RecordData | null; // PAGE_LAST_INSERT: key of the most recently inserted record, reset on delete
+  direction: InsertDirection; // PAGE_DIRECTION
+  nDirection: number; // PAGE_N_DIRECTION: consecutive inserts in the same direction
+  heapTop: number; // PAGE_N_HEAP: next heap number never used on this page
+  freeList: FreeRecord[]; // PAGE_FREE: deleted records, the last one is reused first
+  directory: number[]; // Page directory: n_owned of every slot, infimum slot first, supremum slot last
+  lsn: number; // FIL_PAGE_LSN: LSN of the last redo record that changed this page
+  checksum?: number; // FIL_PAGE_SPACE_OR_CHKSUM: computed when the page is written to disk
+  isCorrupted?: boolean; // Failed its checksum in recovery with no doublewrite copy to restore it from
+  isDirty?: boolean; // Modified since it was last written to disk (on the buffer pool flush list)
   isSplitting?: boolean;
+  isMerging?: boolean;
+  isIbufMerged?: boolean; // Just received its buffered changes from the change buffer
   isHighlighted?: boolean; // For query visualization
+  highlightedSlot?: number; // Directory slot probed by the current query step
 }
 
 export interface LogEntry {
@@ -25,21 +145,539 @@ export interface LogEntry {
   type: 'info' | 'success' | 'warning' | 'error';
 }
 
+// Outcome of one page access: found in a frame, read from disk, or a new page allocated in memory
+export type PageAccess = 'HIT' | 'MISS' | 'CREATE';
+
+// A page held in a buffer pool frame
+export interface BufferFrame {
+  pageId: number;
+  loadedAt: number; // Statement that read it in: accesses within the same statement do not make it young
+}
+
+/**
+ * The buffer pool: a fixed number of frames caching pages, managed by one LRU list.
+ * New pages enter at the midpoint (the head of the old sublist), so a single scan cannot flush out the young pages.
+ */
+export interface BufferPoolState {
+  capacity: number; // Number of frames
+  lru: BufferFrame[]; // Most recently used first. The last ~BUFFER_POOL_OLD_BLOCKS_PCT% form the old sublist
+  flushList: number[]; // Dirty page ids, oldest modification first
+  clock: number; // Statement counter, stands in for innodb_old_blocks_time
+  hits: number;
+  misses: number; // Page reads from disk
+  evictions: number;
+  flushes: number; // Dirty pages written back to disk before their frame was reused
+}
+
+// Secondary index changes the change buffer holds, named after IBUF_OP_INSERT / IBUF_OP_DELETE_MARK / IBUF_OP_DELETE
+export type ChangeBufferOp = 'INSERT' | 'DELETE_MARK' | 'DELETE'; // DELETE: removes the entry (purge, or a delete no read view needs)
+
+// A change to a secondary index leaf page that was not in the buffer pool, waiting to be merged into it
+export interface BufferedChange {
+  seq: number; // Buffering order, which is also the merge order
+  op: ChangeBufferOp;
+  pageId: number;
+  indexName: string;
+  entry: RecordData; // Secondary entry: key columns and PK
+}
+
+/**
+ * The change buffer: instead of reading a leaf page of a non-unique secondary index from disk, a change to it is
+ * recorded here and merged when the page is read later, or by the background merge. It survives a crash.
+ */
+export interface ChangeBufferState {
+  entries: BufferedChange[]; // Oldest first; only pages outside the buffer pool have entries
+  nextSeq: number;
+  merges: number; // Page merges ("merges" in SHOW ENGINE INNODB STATUS)
+  merged: Record<ChangeBufferOp, number>; // Merged operations
+  discarded: Record<ChangeBufferOp, number>; // Operations thrown away with their index (DROP INDEX)
+}
+
+// A hash index entry (ha_node_t): the fold of a key prefix, pointing straight at a leaf record
+export interface AdaptiveHashEntry {
+  indexName: string;
+  prefix: ColumnValue[]; // The leading key columns the entry was folded from
+  pageId: number;
+  recordId: number; // PK of the record: the first one on the page with this prefix
+}
+
+// btr_search_t: the access pattern the adaptive hash index learned for one index
+export interface AdaptiveHashInfo {
+  nFields: number; // Key columns the recent lookups fixed: the prefix pages get hashed on
+  potential: number; // n_hash_potential: consecutive tree searches with that prefix
+}
+
+/**
+ * The adaptive hash index: built in memory from the leaf pages that point lookups keep reaching,
+ * so that the next lookup of a hashed prefix jumps to its record instead of descending from the root.
+ */
+export interface AdaptiveHashState {
+  enabled: boolean; // innodb_adaptive_hash_index
+  entries: AdaptiveHashEntry[];
+  info: Record<string, AdaptiveHashInfo>; // Index name -> its search info
+  pageHelps: Record<number, number>; // n_hash_helps: lookups a page would have saved with a hash index
+  hashSearches: number; // Lookups answered by the hash ("hash searches/s" in SHOW ENGINE INNODB STATUS)
+  nonHashSearches: number; // Lookups that descended the tree ("non-hash searches/s")
+  pagesBuilt: number;
+  pagesDropped: number; // Hashed pages whose entries were removed: split, merged, freed or evicted
+}
+
+/**
+ * The doublewrite buffer: every flush batch is written and synced here first, then to the pages' home locations.
+ * A home write torn by a crash leaves an intact copy behind that recovery restores the page from.
+ */
+export interface DoublewriteState {
+  enabled: boolean; // innodb_doublewrite
+  pages: PageData[]; // Copies of the latest batch, as they are on disk
+  batches: number; // Innodb_dblwr_writes
+  pagesWritten: number; // Innodb_dblwr_pages_written
+}
+
+// Kinds of page change, one per redo record type (named after InnoDB's MLOG_* types)
+export type RedoType =
+  | 'PAGE_CREATE' // New (or re-created) empty page
+  | 'PAGE_FREE' // Page released by a merge, a root lift or DROP INDEX
+  | 'REC_INSERT'
+  | 'REC_DELETE'
+  | 'REC_UPDATE' // Clustered record updated in place
+  | 'REC_DELETE_MARK'
+  | 'LIST_END_COPY' // Records copied onto a page: split, merge, root raise or lift
+  | 'LIST_END_DELETE' // Records cut off the end of a page that was split
+  | 'FIL_PTR' // Prev / next page pointer of a sibling
+  | 'NODE_PTR_UPDATE'; // Separator key of a node pointer rewritten after a borrow
+
+/**
+ * One redo record. InnoDB logs the change itself (physiological logging); to keep replay trivial,
+ * the simulator stores the page image right after the change, which recovery installs as is.
+ */
+export interface RedoRecord {
+  lsn: number;
+  type: RedoType;
+  pageId: number;
+  message: string;
+  image?: PageData; // Absent for PAGE_FREE
+}
+
+// --- Transactions (MVCC) ---
+
+export type IsolationLevel = 'REPEATABLE_READ' | 'READ_COMMITTED';
+
+/**
+ * Snapshot taken by a consistent read (InnoDB's ReadView). A change by transaction `trxId` is visible if
+ * trxId is the creator, or trxId < upLimitId, or trxId < lowLimitId and trxId was not active at creation.
+ */
+export interface ReadView {
+  creatorTrxId: number | null; // Its own changes are always visible. null: the reader has not written anything
+  upLimitId: number; // m_up_limit_id: the oldest transaction active at creation (lowLimitId if none)
+  lowLimitId: number; // m_low_limit_id: the next transaction id at creation, ids from here on are invisible
+  activeIds: number[]; // m_ids: read-write transactions active at creation
+}
+
+// Kinds of undo record, named after InnoDB's TRX_UNDO_* types
+export type UndoType =
+  | 'INSERT_REC' // Fresh insert: rollback removes the row, nothing older to see. Discarded at commit
+  | 'UPD_EXIST_REC' // Update of a live row
+  | 'UPD_DEL_REC' // Insert over a delete-marked row with the same PK
+  | 'DEL_MARK_REC'; // DELETE (or the old row of a PK change)
+
+// One undo record: the version of a row before a change. Chained through DB_ROLL_PTR, newest first.
+export interface UndoRecord {
+  undoNo: number; // What DB_ROLL_PTR points to
+  trxId: number; // Transaction that made the change
+  type: UndoType;
+  rowId: number; // PK of the changed row
+  previous?: RecordData; // The row before the change, with its own DB_TRX_ID / DB_ROLL_PTR (none for INSERT_REC)
+}
+
+// A client connection running statements one at a time
+export interface Session {
+  id: number;
+  isolationLevel: IsolationLevel;
+  inTransaction: boolean; // After BEGIN until COMMIT / ROLLBACK; otherwise every statement commits by itself
+  trxId: number | null; // Assigned by the first change of the transaction (read-only transactions have none)
+  readView: ReadView | null; // REPEATABLE READ: taken by the first consistent read and kept until the transaction ends
+  pending: PendingStatement | null; // Statement blocked by a lock wait (its request is the session's lock that is not granted)
+}
+
+// --- Locks ---
+
+export type LockMode = 'S' | 'X';
+
+/**
+ * What a record lock covers (LOCK_ORDINARY, LOCK_REC_NOT_GAP, LOCK_GAP, LOCK_INSERT_INTENTION):
+ * the record and the gap before it, the record only, the gap only, or the gap an insert wants to go into.
+ */
+export type LockType = 'NEXT_KEY' | 'REC_NOT_GAP' | 'GAP' | 'INSERT_INTENTION';
+
+// A lock on one index record; its gap is the one before the record
+export interface LockRequest {
+  indexName: string;
+  record: RecordData | null; // Index key (clustered: the PK only). null: the supremum, i.e. the gap after the last record
+  mode: LockMode;
+  type: LockType;
+}
+
+// A lock in the lock system (performance_schema.data_locks): granted, or the request a blocked session waits for
+export interface RecordLock extends LockRequest {
+  sessionId: number;
+  granted: boolean;
+}
+
+// A statement blocked by a lock wait. It runs again from the start once its lock is granted.
+export type PendingStatement =
+  | { kind: 'INSERT', rows: { id: number, values: RowValues }[] } // The rows not inserted yet
+  | { kind: 'UPDATE', id: number, changes: RowChanges }
+  | { kind: 'DELETE', id: number }
+  | { kind: 'SELECT', query: RangeQuery }; // Locking read
+
+// LATEST DETECTED DEADLOCK in SHOW ENGINE INNODB STATUS
+export interface DeadlockInfo {
+  cycle: { sessionId: number, trxId: number | null, weight: number, waitingFor: LockRequest }[]; // Each one waits for the next, the last for the first
+  victimSessionId: number; // Rolled back to break the cycle
+}
+
 export interface EngineState {
-  pages: PageData[]; // Contains both Primary and Secondary pages
+  pages: PageData[]; // Contains both Primary and Secondary pages (all of them, resident in the buffer pool or not)
   logs: LogEntry[];
   pageCounter: number;
+  pageSize: number; // Bytes per page, fixed for the lifetime of the engine
+  splitStrategy: SplitStrategy;
+  schema: TableSchema;
+  bufferPool: BufferPoolState;
+  changeBuffer: ChangeBufferState;
+  adaptiveHash: AdaptiveHashState;
+  diskPages: PageData[]; // The tablespace: every page as it was last written to disk
+  doublewrite: DoublewriteState;
+  redoLog: RedoRecord[]; // Records after the checkpoint, oldest first. Durable at commit (innodb_flush_log_at_trx_commit = 1)
+  lsn: number; // LSN of the latest redo record
+  checkpointLsn: number; // Every change up to this LSN is in the pages on disk: recovery starts after it
+  sessions: Session[];
+  nextTrxId: number; // trx_sys->max_trx_id: id of the next read-write transaction
+  undoLog: UndoRecord[]; // Undo of active transactions and the history list of committed ones, oldest first
+  nextUndoNo: number;
+  locks: RecordLock[]; // Granted locks and waiting requests of every session, in the order they were requested
+  latestDeadlock: DeadlockInfo | null;
+  indexCounters: Record<string, IndexCounters>; // Index name -> splits and merges since startup
+  optimizerSwitch: OptimizerSwitch;
 }
 
-export const PAGE_CAPACITY = 4;
+// Simulated pages are tiny so that splits happen after a handful of rows (real InnoDB: 16KB)
+export const PAGE_SIZE_OPTIONS = [256, 512, 1024];
+export const DEFAULT_PAGE_SIZE = 512;
+
+// FIL header (38) + page header (56) + infimum/supremum (26) + FIL trailer (8)
+export const PAGE_OVERHEAD_BYTES = 128;
+
+// Compact row format: 5-byte record header + 1 byte per variable-length column
+export const REC_HEADER_BYTES = 5;
+export const VARLEN_HEADER_BYTES = 1;
+export const ID_BYTES = 4; // INT (the primary key and INT columns)
+export const CHILD_PAGE_NO_BYTES = 4; // Node pointer child page number
+export const HIDDEN_COLUMN_BYTES = 13; // DB_TRX_ID (6) + DB_ROLL_PTR (7), clustered records only
+
+// Buffer pool frames (real InnoDB: 128MB / 16KB = 8192 frames)
+export const BUFFER_POOL_SIZE_OPTIONS = [8, 16, 32, 64];
+export const DEFAULT_BUFFER_POOL_FRAMES = 16;
+
+// innodb_old_blocks_pct: share of the LRU list that forms the old sublist
+export const BUFFER_POOL_OLD_BLOCKS_PCT = 37;
+
+// innodb_change_buffer_max_size: the most the change buffer may take, as a share of the buffer pool
+export const CHANGE_BUFFER_MAX_SIZE_PCT = 25;
+
+// BTR_SEARCH_HASH_ANALYSIS / BTR_SEARCH_BUILD_LIMIT, scaled down (real InnoDB: 17 and 100):
+// consecutive lookups with one prefix before pages count as helped, and the helps that get a page hashed
+export const AHI_HASH_ANALYSIS = 3;
+export const AHI_BUILD_LIMIT = 2;
+
+// innodb_fill_factor: how full a sorted index build fills each page (100 still leaves 1/16 of the page free)
+export const INDEX_FILL_FACTOR = 100;
+
+// Redo records the log holds beyond the checkpoint; a full log forces a checkpoint (like log_free_check)
+export const REDO_LOG_CAPACITY = 200;
+
+// Sessions opened at start-up, and the most the Transactions panel can open
+export const DEFAULT_SESSIONS = 2;
+export const MAX_SESSIONS = 4;
+
+// Heap numbers 0 and 1 belong to the infimum and supremum pseudo-records, user records start at 2
+export const PAGE_HEAP_NO_INFIMUM = 0;
+export const PAGE_HEAP_NO_SUPREMUM = 1;
+export const PAGE_HEAP_NO_USER_LOW = 2;
+
+// Every directory slot owns 4..8 records (the supremum slot 1..8, the infimum slot only the infimum)
+export const PAGE_DIR_SLOT_MIN_N_OWNED = 4;
+export const PAGE_DIR_SLOT_MAX_N_OWNED = 8;
+
+// Like InnoDB's MERGE_THRESHOLD (default 50): a page whose fill drops below this percentage is merged or rebalanced.
+export const MERGE_THRESHOLD = 50;
 
 // Simulation Types for Visualizing Queries
-export type SimulationStepType = 'SCAN_PAGE' | 'FOUND_INDEX_ENTRY' | 'JUMP_TO_PK' | 'FOUND_DATA' | 'FINISHED';
+export type SimulationStepType = 'SCAN_PAGE' | 'SEARCH_DIRECTORY' | 'FOUND_INDEX_ENTRY' | 'JUMP_TO_PK' | 'FOUND_DATA' | 'MODIFY_RECORD' | 'READ_UNDO' | 'APPLY_REDO' | 'FLUSH_PAGE' | 'DOUBLEWRITE' | 'IBUF_MERGE' | 'AHI_HIT' | 'FINISHED';
+
+export interface RangeBound {
+  value: number | string;
+  inclusive: boolean;
+}
+
+// Predicate on one column, e.g. `id BETWEEN 3 AND 8`, `age > 30`, `city = 'Paris'` or `name LIKE 'Al%'`
+export interface ColumnCondition {
+  column: string;
+  from?: RangeBound;
+  to?: RangeBound;
+  prefix?: string; // LIKE 'prefix%'
+}
+
+// SELECT over the table: ANDed conditions, at most one per column. The engine picks the index to scan.
+export interface RangeQuery {
+  conditions: ColumnCondition[]; // Empty: no WHERE clause, scan the whole index chosen by ORDER BY
+  orderBy?: string;
+  descending?: boolean;
+  limit?: number;
+  columns?: string[]; // Selected columns, omitted for SELECT * (an index covers the query if it holds all of them)
+  lock?: LockMode; // FOR UPDATE (X) / FOR SHARE (S): a locking read of the latest versions instead of a consistent read
+}
+
+// Equality lookup on the leading key columns of one index, e.g. idx_city_age with ['Paris'] or ['Paris', 30]
+export interface IndexLookup {
+  indexName: string;
+  key: ColumnValue[];
+  covering?: boolean; // Only the indexed columns are selected, no table lookup needed
+}
+
+// How an index can serve a query by the leftmost-prefix rule
+export interface AccessPath {
+  indexName: string;
+  keyColumns: string[]; // Index key including the appended primary key
+  equalityParts: number; // Leading key columns fixed by `=`
+  rangeColumn?: string; // Key column right after them that bounds the scan
+}
+
+// EXPLAIN type: one row by a unique key, equality on a key prefix, a key range, a whole index, the whole table
+export type AccessType = 'const' | 'ref' | 'range' | 'index' | 'ALL';
+
+// One access path the optimizer priced, with the estimates behind its cost
+export interface AccessPathCost {
+  path: AccessPath;
+  type: AccessType;
+  covering: boolean; // Using index: no table lookups
+  rows: number; // Index records in the scanned range (records_in_range)
+  pages: number; // Pages read to scan it: the descent plus the leaf pages holding the range
+  lookups: number; // Table lookups (回表) into the clustered index, one per secondary record (that passed ICP)
+  lookupPages: number; // Clustered leaf reads of the lookups: one each, or one per distinct page with MRR
+  pushed: boolean; // Using index condition
+  mrr: boolean; // Using MRR
+  sorted: boolean; // Needs a filesort for ORDER BY
+  cost: number;
+  reason?: string; // Why it lost to the chosen path
+}
+
+export interface QueryPlan {
+  path: AccessPath; // The cheapest candidate's path
+  matches: number; // Rows the whole WHERE matches
+  candidates: AccessPathCost[]; // Cheapest first
+}
+
+/**
+ * The optimizer_switch flags the simulator knows, for every session alike.
+ * Both only change how a secondary index scan that is not covering reaches its rows.
+ */
+export interface OptimizerSwitch {
+  indexConditionPushdown: boolean; // index_condition_pushdown: WHERE conditions on index columns are checked on the entry, before its table lookup
+  mrr: boolean; // mrr (with mrr_cost_based=off): collect the PKs, sort them, then read the clustered pages in key order
+}
+
+// MySQL's defaults, except MRR: its cost check never picks it for tables this small
+export const DEFAULT_OPTIMIZER_SWITCH: OptimizerSwitch = { indexConditionPushdown: true, mrr: false };
+
+// Cost model constants, the defaults of mysql.engine_cost / mysql.server_cost
+export const IO_BLOCK_READ_COST = 1.0; // Reading one page
+export const ROW_EVALUATE_COST = 0.1; // Evaluating the WHERE on one record (also one filesort comparison)
 
 export interface SimulationStep {
   stepId: number;
   message: string;
   targetPageId: number;
   targetRecordId?: number; // If finding a specific row
+  targetSlot?: number; // Directory slot probed by a SEARCH_DIRECTORY step
   type: SimulationStepType;
+  pages?: PageData[]; // Crash recovery: every page as rebuilt up to this step, shown instead of the engine's pages
+  undoNo?: number; // READ_UNDO: undo record the version chain reached
+}
+
+// DML statements that return both the new state and a step sequence to animate
+export interface StatementResult {
+  state: EngineState;
+  steps: SimulationStep[];
+}
+
+// --- SQL Console ---
+
+export interface SelectStatement {
+  columns: '*' | string[];
+  query: RangeQuery; // WHERE / ORDER BY / LIMIT
+}
+
+export interface RowChanges {
+  id?: number;
+  values?: RowValues;
 }
+
+export type SqlStatement =
+  | { kind: 'INSERT', rows: { id: number, values: RowValues }[] }
+  | { kind: 'SELECT', select: SelectStatement }
+  | { kind: 'UPDATE', id: number, changes: RowChanges }
+  | { kind: 'DELETE', id: number }
+  | { kind: 'EXPLAIN', select: SelectStatement }
+  | { kind: 'CREATE_TABLE', schema: TableSchema }
+  | { kind: 'CREATE_INDEX', index: IndexDef, algorithm: IndexBuildAlgorithm }
+  | { kind: 'DROP_INDEX', name: string }
+  | { kind: 'CHECK_TABLE' }
+  | { kind: 'BEGIN', withSnapshot: boolean }
+  | { kind: 'COMMIT' }
+  | { kind: 'ROLLBACK' }
+  | { kind: 'SET_ISOLATION', level: IsolationLevel }
+  | { kind: 'SET_OPTIMIZER_SWITCH', changes: Partial<OptimizerSwitch> };
+
+export type SqlParseResult =
+  | { ok: true, statement: SqlStatement }
+  | { ok: false, error: string };
+
+export interface SqlExecutionResult {
+  state: EngineState;
+  steps: SimulationStep[]; // Animation for SELECT / UPDATE, empty otherwise
+  output: string[]; // Lines printed in the console
+  error?: string;
+}
+
+// --- CHECK TABLE ---
+
+// One broken invariant, reported against the page it was found on
+export interface CheckViolation {
+  indexName: string;
+  pageId: number | null; // null: the level or index as a whole
+  message: string;
+}
+
+export interface CheckTableReport {
+  pages: number;
+  records: number;
+  violations: CheckViolation[];
+}
+
+// Corruptions the fault injection menu applies to the in-memory pages, behind the engine's back
+export type FaultKind =
+  | 'NEXT_POINTER' // A leaf's next pointer skips its neighbour
+  | 'PREV_POINTER' // A leaf's prev pointer points at the wrong page
+  | 'LINK_CYCLE' // The last leaf's next pointer points back at the first one
+  | 'RECORD_ORDER' // Two records of a leaf swap places
+  | 'RECORD_VALUE' // A clustered record's indexed column changes, its secondary entry does not
+  | 'MISSING_ENTRY'; // A secondary index entry disappears
+
+// --- Scenarios ---
+
+// What an EXPECT line checks. The statement ones look at the last SQL statement before it.
+export type ScenarioAssertion =
+  | { kind: 'PAGE_IDS', pageId: number, ids: number[] } // EXPECT PAGE 3 IDS 5..8
+  | { kind: 'SPLIT', indexName: string | null, expected: boolean } // EXPECT [NO] SPLIT [index]
+  | { kind: 'MERGE', indexName: string | null, expected: boolean } // EXPECT [NO] MERGE [index]
+  | { kind: 'PAGES_READ', count: number } // EXPECT PAGES_READ 2
+  | { kind: 'PAGES', indexName: string, count: number } // EXPECT PAGES PRIMARY 3
+  | { kind: 'HEIGHT', indexName: string, height: number } // EXPECT HEIGHT PRIMARY 2
+  | { kind: 'ROWS', count: number } // EXPECT ROWS 4
+  | { kind: 'ERROR', text: string | null } // EXPECT ERROR ["Duplicate entry"]
+  | { kind: 'LOG', text: string } // EXPECT LOG "Split Complete"
+  | { kind: 'OUTPUT', text: string } // EXPECT OUTPUT "Using index"
+  | { kind: 'CHECK_OK' }; // EXPECT CHECK OK
+
+// One line of a scenario script
+export type ScenarioStep =
+  | { kind: 'SQL', line: number, text: string, sessionId: number } // [@session] statement
+  | { kind: 'RESET', line: number, text: string, pageSize: number, splitStrategy: SplitStrategy, bufferPoolFrames: number }
+  | { kind: 'EXPECT', line: number, text: string, assertion: ScenarioAssertion };
+
+export interface Scenario {
+  title: string; // The first comment of the script
+  steps: ScenarioStep[];
+}
+
+export type ScenarioParseResult =
+  | { ok: true, scenario: Scenario }
+  | { ok: false, error: string };
+
+export interface ScenarioStepResult {
+  step: ScenarioStep;
+  passed: boolean;
+  message: string; // SQL: the first output line or the error. EXPECT: what was found instead, when it failed
+}
+
+// A scenario played up to some step: the engine it runs on and the outcome of every step so far
+export interface ScenarioRun {
+  scenario: Scenario;
+  state: EngineState;
+  last: { before: EngineState, result: SqlExecutionResult } | null; // The last SQL statement, for the statement assertions
+  results: ScenarioStepResult[];
+}
+
+// --- Time Travel ---
+
+// One operation on the timeline: the engine state right after it
+export interface HistoryEntry {
+  id: number;
+  label: string; // What the operation logged first, or what it changed
+  timestamp: number;
+  state: EngineState;
+}
+
+export interface HistoryState {
+  entries: HistoryEntry[]; // Oldest first; entries[0] is the state the timeline started from
+  index: number; // The entry the engine currently shows; the ones after it can be redone
+  nextId: number;
+}
+
+export type PageChange = 'ADDED' | 'REMOVED' | 'CHANGED';
+
+// How one page differs between two engine states (records by id, node pointers included)
+export interface PageDiff {
+  pageId: number;
+  indexName: string;
+  level: number;
+  change: PageChange;
+  addedRecords: number[];
+  removedRecords: number[];
+  changedRecords: number[]; // Same id, other values, delete mark, child page or hidden columns
+  pointers: ('prev' | 'next')[]; // Sibling links that point elsewhere
+}
+
+// Operations kept on the timeline; the oldest ones fall off
+export const HISTORY_LIMIT = 100;
+
+// --- Snapshots ---
+
+// A saved engine: the file format of Export / Import, the URL hash and the autosave
+export interface SnapshotFile {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number; // SNAPSHOT_VERSION when it was written
+  savedAt: string; // ISO timestamp
+  state: EngineState;
+}
+
+export type SnapshotParseResult =
+  | { ok: true, state: EngineState, savedAt: string }
+  | { ok: false, error: string };
+
+// Outcome of the last export, import, link or autosave, shown in the Snapshots panel
+export interface SnapshotStatus {
+  type: 'success' | 'error';
+  message: string;
+}
+
+export const SNAPSHOT_FORMAT = 'innodb-visualizer-snapshot';
+export const SNAPSHOT_VERSION = 3; // Bump when EngineState changes shape, and migrate older files in parseSnapshot
+
+// URL hash a shared link carries its snapshot in: #snapshot=<deflated JSON, base64url>
+export const SNAPSHOT_HASH_PREFIX = '#snapshot=';
+
+// localStorage keys of the autosave and of its ON / OFF switch
+export const AUTOSAVE_KEY = 'innodb-visualizer:autosave';
+export const AUTOSAVE_ENABLED_KEY = 'innodb-visualizer:autosave-enabled';